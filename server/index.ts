@@ -0,0 +1,43 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { GameServer } from '@/services/websocket/GameServer';
+
+const PORT = Number(process.env.PORT ?? 8787);
+// Sockets that don't answer a ping within this long are dropped, so their
+// players show as offline instead of hanging around
+const HEARTBEAT_MS = 30000;
+
+// DEBUG=1 logs every request the server handles
+const gameServer = new GameServer(undefined, process.env.DEBUG ? console.log : undefined);
+const wss = new WebSocketServer({ port: PORT });
+const alive = new WeakMap<WebSocket, boolean>();
+
+// Clients say who they are in the URL: ws://host:port/?playerId=...
+wss.on('connection', (socket, request) => {
+  const playerId = new URL(request.url ?? '/', 'http://localhost').searchParams.get('playerId');
+  if (!playerId) {
+    socket.close(1008, 'playerId ausente');
+    return;
+  }
+
+  const connection = gameServer.connect(playerId, message => socket.send(JSON.stringify(message)));
+  alive.set(socket, true);
+
+  socket.on('pong', () => alive.set(socket, true));
+  socket.on('message', data => connection.receive(data.toString()));
+  socket.on('close', () => connection.disconnect());
+});
+
+const heartbeat = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      continue;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  }
+}, HEARTBEAT_MS);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+console.log(`Mau Mau game server listening on ws://localhost:${PORT}`);
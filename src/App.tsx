@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import React from "react";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Replay from "./pages/Replay";
 import NotFound from "./pages/NotFound";
 import { MultiplayerProvider } from "./contexts/MultiplayerContext";
 import { AuthProvider } from "./contexts/AuthContext";
@@ -41,6 +42,22 @@ const App = () => {
                       </RequireAuth>
                     } 
                   />
+                  <Route 
+                    path="/replay/local/:savedGameId" 
+                    element={
+                      <RequireAuth>
+                        <Replay />
+                      </RequireAuth>
+                    } 
+                  />
+                  <Route 
+                    path="/replay/:gameId" 
+                    element={
+                      <RequireAuth>
+                        <Replay />
+                      </RequireAuth>
+                    } 
+                  />
                   <Route path="/auth" element={<Auth />} />
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                   <Route path="*" element={<NotFound />} />
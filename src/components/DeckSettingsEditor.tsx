@@ -0,0 +1,119 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Minus } from "lucide-react";
+import { DeckPreset, DeckSettings, Rank } from "@/types/game";
+import { ALL_RANKS, DECK_PRESETS, findDeckPreset, getDeckSize, getDrawPileSize, getHandSize, MAX_DECK_COUNT, MAX_JOKERS } from "@/utils/gameUtils";
+import translations from "@/localization/pt-BR";
+
+interface DeckSettingsEditorProps {
+  value: DeckSettings;
+  onChange: (deck: DeckSettings) => void;
+  playerCount: number;
+}
+
+const DeckSettingsEditor: React.FC<DeckSettingsEditorProps> = ({ value, onChange, playerCount }) => {
+  const selectedPreset = findDeckPreset(value) ?? "custom";
+
+  // Preview of the deal with the current table size
+  const deckSize = getDeckSize(value);
+  const handSize = getHandSize(value, playerCount);
+  const drawPile = getDrawPileSize(value, playerCount);
+
+  const toggleRank = (rank: Rank) => {
+    const ranks = value.ranks.includes(rank)
+      ? value.ranks.filter(included => included !== rank)
+      : ALL_RANKS.filter(included => included === rank || value.ranks.includes(included));
+    if (ranks.length > 0) {
+      onChange({ ...value, ranks });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="deckPreset" className="text-white">{translations.deck.preset}</Label>
+        <Select
+          value={selectedPreset}
+          onValueChange={(preset) => preset in DECK_PRESETS && onChange(DECK_PRESETS[preset as DeckPreset])}
+        >
+          <SelectTrigger id="deckPreset" className="bg-black/20 text-white border-white/30">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="full">{translations.deck.presets.full}</SelectItem>
+            <SelectItem value="skat">{translations.deck.presets.skat}</SelectItem>
+            <SelectItem value="custom" disabled>{translations.deck.presets.custom}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <span className="block text-white text-sm">{translations.deck.ranks}</span>
+        <div className="flex flex-wrap gap-1">
+          {ALL_RANKS.map(rank => (
+            <Button
+              key={rank}
+              size="sm"
+              variant={value.ranks.includes(rank) ? "default" : "outline"}
+              className={value.ranks.includes(rank) ? "h-8 w-10 bg-indigo-600 hover:bg-indigo-700 text-white" : "h-8 w-10 text-white border-white/30"}
+              onClick={() => toggleRank(rank)}
+            >
+              {rank}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-white text-sm">{translations.deck.deckCount}</span>
+        <div className="flex items-center space-x-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-white border-white/30"
+            onClick={() => onChange({ ...value, deckCount: value.deckCount - 1 })}
+            disabled={value.deckCount <= 1}
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="px-4 py-2 bg-black/30 text-white rounded-md text-center w-12">
+            {value.deckCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-white border-white/30"
+            onClick={() => onChange({ ...value, deckCount: value.deckCount + 1 })}
+            disabled={value.deckCount >= MAX_DECK_COUNT}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="jokerCount" className="text-white text-sm">{translations.deck.jokerCount}</Label>
+        <Input
+          id="jokerCount"
+          type="number"
+          min="0"
+          max={MAX_JOKERS}
+          value={value.jokerCount}
+          onChange={(e) => onChange({ ...value, jokerCount: Math.max(0, Math.min(MAX_JOKERS, parseInt(e.target.value) || 0)) })}
+          className="bg-black/20 text-white border-white/30 w-20"
+        />
+      </div>
+
+      <p className={`text-xs ${drawPile > 0 ? "text-white/70" : "text-red-400"}`}>
+        {drawPile > 0
+          ? translations.deck.preview(deckSize, handSize, drawPile)
+          : translations.deck.tooSmall}
+      </p>
+    </div>
+  );
+};
+
+export default DeckSettingsEditor;
@@ -1,27 +1,51 @@
 
 import React, { useState, useEffect } from "react";
-import { Card, Direction, GameState, Player } from "../types/game";
+import { Card, Direction, PlayerSummary, PlayerView, Rank, Suit } from "../types/game";
 import PlayingCard from "./PlayingCard";
 import PlayerHand from "./PlayerHand";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, ArrowRight } from "lucide-react";
-import { isValidMove } from "@/utils/gameUtils";
+import { getCardEffect, isValidMove } from "@/utils/gameUtils";
+import { describeCard } from "@/utils/gameEngine";
+import translations from "@/localization/pt-BR";
+import PresenceDot from "./PresenceDot";
+import { PresenceStatus } from "@/services/websocket/types";
+
+const WISHABLE_SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
 
 interface GameBoardProps {
-  gameState: GameState;
-  onPlayCard: (card: Card) => void;
+  view: PlayerView; // Only what the seat in front of the screen may see
+  onPlayCard: (card: Card, wishedSuit?: Suit) => void;
+  onBluff: (card: Card, claimed: Pick<Card, "suit" | "rank">) => void;
+  onChallenge: () => void;
   onDrawCard: () => void;
-  onSayMauMau: () => void;
+  onPass: () => void;
+  onSayMauMau: (playerId: string) => void;
+  onCatchMauMau: (targetId: string) => void;
+  hotSeat?: boolean; // Several people share the device, so anyone may call Mau Mau from the players list
+  presence?: Record<string, PresenceStatus>; // Online only: who is connected
+  returningCardIds?: string[]; // Online only: cards of a refused move
 }
 
 const GameBoard: React.FC<GameBoardProps> = ({
-  gameState,
+  view,
   onPlayCard,
+  onBluff,
+  onChallenge,
   onDrawCard,
+  onPass,
   onSayMauMau,
+  onCatchMauMau,
+  hotSeat = false,
+  presence,
+  returningCardIds,
 }) => {
-  const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-  const topCard = gameState.discardPile.length > 0 ? gameState.discardPile[gameState.discardPile.length - 1] : null;
+  const currentPlayer = view.players[view.currentPlayerIndex];
+  const handPlayer = view.players.find(player => player.id === view.viewerId);
+  const isHandPlayersTurn = !!handPlayer && handPlayer.id === currentPlayer.id;
+  const handCards = view.hand;
+  const topCard = view.topCard;
+  const isTopCardFaceDown = !!view.claim;
   
   // Sound effects
   const [cardSound] = useState(new Audio("/card-sound.mp3"));
@@ -31,8 +55,30 @@ const GameBoard: React.FC<GameBoardProps> = ({
   };
   
   // Calculate playable cards for the current player
-  const playableCards = topCard ? currentPlayer.cards.filter(card => 
-    isValidMove(card, topCard, gameState.settings.enableBluffing)) : [];
+  const playableCards = topCard && isHandPlayersTurn ? handCards.filter(card => 
+    isValidMove(card, topCard, view)) : [];
+  
+  // Card waiting for the player to pick the wished suit
+  const [wishCard, setWishCard] = useState<Card | null>(null);
+  
+  // Bluffing: unplayable cards can go face down, said to be a plain card that follows the table
+  const canBluff = view.settings.enableBluffing && isHandPlayersTurn &&
+    view.pendingDraw === 0 && handCards.length > 1;
+  const [bluffCard, setBluffCard] = useState<Card | null>(null);
+  const claimOptions = topCard && bluffCard
+    ? WISHABLE_SUITS.flatMap(suit => view.settings.deck.ranks.map(rank => ({
+        id: `claim-${suit}-${rank}`,
+        suit,
+        rank,
+        isRed: suit === "hearts" || suit === "diamonds",
+      }))).filter(claim => !getCardEffect(claim, view.settings) && isValidMove(claim, topCard, view))
+    : [];
+  const canChallenge = isHandPlayersTurn && !!view.claim?.challengeable;
+  
+  // Opponents on one card can be called out when the rule isn't checked automatically
+  const isCallingMauMau = view.settings.enableMauMauRule && !view.settings.autoCheckMauMau;
+  const canCatch = (player: PlayerSummary) => isCallingMauMau && !view.gameEnded &&
+    !!handPlayer && player.id !== handPlayer.id && player.cardCount === 1;
   
   // Highlight animation for current player
   const [highlight, setHighlight] = useState(false);
@@ -40,16 +86,40 @@ const GameBoard: React.FC<GameBoardProps> = ({
   useEffect(() => {
     // Trigger highlight animation when current player changes
     setHighlight(true);
+    setWishCard(null);
+    setBluffCard(null);
     const timer = setTimeout(() => setHighlight(false), 1000);
     
     return () => clearTimeout(timer);
-  }, [gameState.currentPlayerIndex]);
+  }, [view.currentPlayerIndex]);
   
   const handlePlayCard = (card: Card) => {
+    if (!playableCards.some(playable => playable.id === card.id)) {
+      setBluffCard(card);
+      return;
+    }
+    if (getCardEffect(card, view.settings)?.type === "wish_suit") {
+      setWishCard(card);
+      return;
+    }
     playCardSound();
     onPlayCard(card);
   };
   
+  const handleWishSuit = (suit: Suit) => {
+    if (!wishCard) return;
+    playCardSound();
+    onPlayCard(wishCard, suit);
+    setWishCard(null);
+  };
+  
+  const handleBluff = (claimed: Pick<Card, "suit" | "rank">) => {
+    if (!bluffCard) return;
+    playCardSound();
+    onBluff(bluffCard, claimed);
+    setBluffCard(null);
+  };
+  
   const handleDrawCard = () => {
     playCardSound();
     onDrawCard();
@@ -62,18 +132,39 @@ const GameBoard: React.FC<GameBoardProps> = ({
         <div className="bg-black/30 p-3 rounded-lg backdrop-blur-sm border border-white/10">
           <h3 className="text-white text-center mb-2 font-bold">Jogadores</h3>
           <div className="space-y-1">
-            {gameState.players.map((player, index) => (
+            {view.players.map((player, index) => (
               <div 
                 key={player.id} 
                 className={`flex justify-between p-1 rounded transition-all duration-300 ${
-                  index === gameState.currentPlayerIndex 
+                  index === view.currentPlayerIndex 
                     ? "bg-indigo-600/60 border border-indigo-400" + (highlight ? " animate-pulse" : "")
                     : ""
                 }`}
               >
-                <span className={`text-white ${player.isEliminated ? "line-through opacity-50" : ""}`}>
-                  {player.name} {player.cards.length === 1 && player.saidMauMau && "🗣️"}
+                <span className={`flex items-center gap-2 text-white ${player.isEliminated ? "line-through opacity-50" : ""}`}>
+                  {presence && !player.bot && <PresenceDot status={presence[player.id]} />}
+                  <span>{player.bot && "🤖 "}{player.name} {player.cardCount === 1 && player.saidMauMau && "🗣️"}</span>
                 </span>
+                {/* Sharing one device: whoever just dropped to one card can still call it */}
+                {hotSeat && !player.bot && view.mauMauWindow === player.id && (
+                  <Button
+                    size="sm"
+                    className="h-6 px-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs animate-pulse"
+                    onClick={() => onSayMauMau(player.id)}
+                  >
+                    Mau Mau!
+                  </Button>
+                )}
+                {canCatch(player) && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onCatchMauMau(player.id)}
+                  >
+                    Pegar!
+                  </Button>
+                )}
                 <span className={`text-white ${player.score <= 20 ? "text-red-400" : ""}`}>
                   {player.score} pts
                 </span>
@@ -86,16 +177,16 @@ const GameBoard: React.FC<GameBoardProps> = ({
         <div className="col-span-1 sm:col-span-2 flex flex-col justify-between">
           <div className="flex items-center justify-center space-x-2 mb-4">
             <span className="text-white">Direção:</span>
-            {gameState.direction === "clockwise" ? (
+            {view.direction === "clockwise" ? (
               <ArrowRight className="text-white animate-pulse" />
             ) : (
               <ArrowLeft className="text-white animate-pulse" />
             )}
           </div>
           
-          {gameState.lastAction && (
+          {view.lastAction && (
             <div className="bg-black/40 p-2 rounded-lg backdrop-blur-sm border border-white/10 custom-fade-in">
-              <p className="text-white text-center">{gameState.lastAction}</p>
+              <p className="text-white text-center">{view.lastAction}</p>
             </div>
           )}
         </div>
@@ -109,7 +200,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
             <div className="relative hover-scale">
               <PlayingCard isFaceDown={true} />
               <span className="absolute -top-3 -right-3 bg-indigo-600 text-white text-xs rounded-full w-6 h-6 flex items-center justify-center">
-                {gameState.deck.length}
+                {view.deckCount}
               </span>
             </div>
             <Button
@@ -117,15 +208,30 @@ const GameBoard: React.FC<GameBoardProps> = ({
               size="sm"
               className="mt-2 bg-black/40 text-white hover:bg-black/60 hover-scale border border-white/20"
               onClick={handleDrawCard}
-              disabled={gameState.gameEnded}
+              disabled={view.gameEnded || !isHandPlayersTurn || view.hasDrawnThisTurn}
             >
-              Comprar
+              {view.pendingDraw > 0 ? `Comprar ${view.pendingDraw}` : "Comprar"}
             </Button>
+            {isHandPlayersTurn && view.hasDrawnThisTurn && (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="mt-2 bg-black/40 text-white hover:bg-black/60 hover-scale border border-white/20"
+                onClick={onPass}
+                disabled={view.gameEnded}
+              >
+                {translations.game.pass}
+              </Button>
+            )}
           </div>
           
           {/* Discard pile */}
           <div className="flex flex-col items-center">
-            {topCard ? (
+            {topCard && isTopCardFaceDown ? (
+              <div className="hover-scale">
+                <PlayingCard isFaceDown={true} />
+              </div>
+            ) : topCard ? (
               <div className="hover-scale">
                 <PlayingCard card={topCard} />
               </div>
@@ -133,21 +239,106 @@ const GameBoard: React.FC<GameBoardProps> = ({
               <div className="w-16 h-24 border-2 border-dashed border-white/30 rounded-lg" />
             )}
             <span className="text-white mt-2">Descarte</span>
+            {topCard && isTopCardFaceDown && (
+              <span className="text-yellow-300 text-sm mt-1">
+                Diz ser: {describeCard(topCard)}
+              </span>
+            )}
+            {canChallenge && (
+              <Button
+                variant="destructive"
+                size="sm"
+                className="mt-2 hover-scale"
+                onClick={onChallenge}
+                disabled={view.gameEnded}
+              >
+                Desafiar!
+              </Button>
+            )}
+            {view.wishedSuit && (
+              <span className="text-yellow-300 text-sm mt-1">
+                Pedido: {translations.cards.suits[view.wishedSuit]}
+              </span>
+            )}
+            {view.pendingDraw > 0 && (
+              <span className="text-red-400 text-sm mt-1">
+                +{view.pendingDraw} cartas acumuladas
+              </span>
+            )}
           </div>
         </div>
+        
+        {/* Claim picker for bluffs */}
+        {bluffCard && (
+          <div className="mt-4 bg-black/40 p-3 rounded-lg backdrop-blur-sm border border-white/10 custom-fade-in max-w-xl">
+            <p className="text-white text-center mb-2">Jogar virada dizendo ser:</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {claimOptions.map(claim => (
+                <Button
+                  key={claim.id}
+                  variant="secondary"
+                  size="sm"
+                  className="bg-black/40 text-white hover:bg-black/60 border border-white/20"
+                  onClick={() => handleBluff({ suit: claim.suit, rank: claim.rank })}
+                >
+                  {describeCard(claim)}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-black/60"
+                onClick={() => setBluffCard(null)}
+              >
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+        
+        {/* Suit picker for wish cards */}
+        {wishCard && (
+          <div className="mt-4 bg-black/40 p-3 rounded-lg backdrop-blur-sm border border-white/10 custom-fade-in">
+            <p className="text-white text-center mb-2">Escolha o naipe:</p>
+            <div className="flex gap-2">
+              {WISHABLE_SUITS.map(suit => (
+                <Button
+                  key={suit}
+                  variant="secondary"
+                  size="sm"
+                  className="bg-black/40 text-white hover:bg-black/60 border border-white/20 capitalize"
+                  onClick={() => handleWishSuit(suit)}
+                >
+                  {translations.cards.suits[suit]}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-black/60"
+                onClick={() => setWishCard(null)}
+              >
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
       
       {/* Current player's hand */}
       <div className="mt-auto">
         <div className="flex justify-between items-center mb-2">
-          <h3 className="text-white font-bold text-lg">{currentPlayer.name}</h3>
-          {currentPlayer.cards.length === 1 && gameState.settings.enableMauMauRule && !gameState.settings.autoCheckMauMau && (
+          <h3 className="text-white font-bold text-lg">
+            {handPlayer ? handPlayer.name : currentPlayer.bot && translations.bots.thinking(currentPlayer.name)}
+          </h3>
+          {handPlayer && handCards.length === 1 && isCallingMauMau &&
+            (isHandPlayersTurn || view.mauMauWindow === handPlayer.id) && (
             <Button
               variant="default"
               className="bg-indigo-600 hover:bg-indigo-700 text-white animate-pulse hover-scale"
               size="sm"
-              onClick={onSayMauMau}
-              disabled={currentPlayer.saidMauMau || gameState.gameEnded}
+              onClick={() => onSayMauMau(handPlayer.id)}
+              disabled={handPlayer.saidMauMau || view.gameEnded}
             >
               Dizer "Mau Mau"!
             </Button>
@@ -155,21 +346,23 @@ const GameBoard: React.FC<GameBoardProps> = ({
         </div>
         
         <PlayerHand
-          cards={currentPlayer.cards}
+          cards={handCards}
           isCurrentPlayer={true}
           onCardClick={handlePlayCard}
           playableCards={playableCards}
+          allowAnyCard={canBluff}
+          returningCardIds={returningCardIds}
         />
       </div>
       
       {/* Other players' hands (simplified) */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mt-6">
-        {gameState.players
-          .filter((_, i) => i !== gameState.currentPlayerIndex && !gameState.players[i].isEliminated)
+        {view.players
+          .filter((player) => player.id !== handPlayer?.id && !player.isEliminated)
           .map((player) => (
             <div key={player.id} className="bg-black/40 p-2 rounded backdrop-blur-sm border border-white/10 custom-fade-in">
               <h4 className="text-white text-sm mb-1">{player.name}</h4>
-              <PlayerHand cards={player.cards} isCurrentPlayer={false} />
+              <PlayerHand cardCount={player.cardCount} isCurrentPlayer={false} />
             </div>
           ))}
       </div>
@@ -2,29 +2,78 @@
 import React from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Player } from "@/types/game";
+import { Match, Player } from "@/types/game";
 import translations from "@/localization/pt-BR";
 
 interface GameOverProps {
-  winner: Player;
-  players: Player[];
+  winner: Pick<Player, "id" | "name">;
+  players: Pick<Player, "id" | "name" | "score">[];
   onRestartGame: () => void;
   onNewGame: () => void;
+  match?: Match | null; // Adds the per-round scoreboard and the match result
+  onReplay?: () => void; // Shown when the round's history can be replayed
 }
 
-const GameOver: React.FC<GameOverProps> = ({ winner, players, onRestartGame, onNewGame }) => {
+const GameOver: React.FC<GameOverProps> = ({ winner, players, onRestartGame, onNewGame, match, onReplay }) => {
   // Sort players by score (highest first)
   const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
+  const lastRound = match?.rounds[match.rounds.length - 1];
+  const matchWinner = match?.winnerId ? match.players.find(player => player.id === match.winnerId) : undefined;
+  
+  const title = matchWinner
+    ? translations.match.matchOver
+    : lastRound ? translations.match.round(lastRound.round) : translations.game.gameOver;
   
   return (
     <Card className="w-full max-w-md mx-auto bg-black/20 p-6 rounded-lg border-2 border-table-border">
-      <h2 className="text-2xl font-bold text-center text-gold mb-6">{translations.game.gameOver}</h2>
+      <h2 className="text-2xl font-bold text-center text-gold mb-6">{title}</h2>
+      
+      {matchWinner && (
+        <div className="text-center mb-6">
+          <h3 className="text-xl text-white mb-2">🏆 {translations.match.matchWinner}:</h3>
+          <p className="text-3xl font-bold text-gold">{matchWinner.name}</p>
+        </div>
+      )}
       
       <div className="text-center mb-8">
-        <h3 className="text-xl text-white mb-2">🏆 {translations.game.winner}:</h3>
+        <h3 className="text-xl text-white mb-2">
+          {match ? translations.match.roundWinner : `🏆 ${translations.game.winner}`}:
+        </h3>
         <p className="text-2xl font-bold text-gold">{winner.name}</p>
       </div>
       
+      {match && match.rounds.length > 0 && (
+        <div className="mb-8 overflow-x-auto">
+          <h3 className="text-lg text-white mb-3">{translations.match.scoreboard}</h3>
+          <table className="w-full text-sm text-white">
+            <thead>
+              <tr className="border-b border-white/20">
+                <th className="text-left p-1">{translations.match.player}</th>
+                {match.rounds.map(round => (
+                  <th key={round.round} className="p-1 text-right">R{round.round}</th>
+                ))}
+                <th className="p-1 text-right">{translations.match.total}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {match.players.map(player => (
+                <tr key={player.id} className={player.id === match.winnerId ? "text-gold font-bold" : ""}>
+                  <td className="p-1">{player.name}</td>
+                  {match.rounds.map(round => (
+                    <td key={round.round} className="p-1 text-right">
+                      {round.winnerId === player.id
+                        ? "🏆"
+                        : player.id in round.pointsLost ? `-${round.pointsLost[player.id]}` : "–"}
+                    </td>
+                  ))}
+                  <td className="p-1 text-right font-bold">{match.scores[player.id]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      
       <div className="mb-8">
         <h3 className="text-lg text-white mb-3">{translations.game.finalRanking}</h3>
         
@@ -53,6 +102,7 @@ const GameOver: React.FC<GameOverProps> = ({ winner, players, onRestartGame, onN
         <Button 
           className="flex-1 bg-table-border hover:bg-table-border/80 text-white"
           onClick={onRestartGame}
+          disabled={!!match?.winnerId}
         >
           {translations.game.newRound}
         </Button>
@@ -63,6 +113,16 @@ const GameOver: React.FC<GameOverProps> = ({ winner, players, onRestartGame, onN
           {translations.game.newGame}
         </Button>
       </div>
+      
+      {onReplay && (
+        <Button
+          variant="ghost"
+          className="w-full mt-4 text-white hover:bg-black/40"
+          onClick={onReplay}
+        >
+          {translations.replay.watch}
+        </Button>
+      )}
     </Card>
   );
 };
@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye } from "lucide-react";
+import translations from "@/localization/pt-BR";
+
+interface HandoffScreenProps {
+  playerName: string;
+  summary: string[]; // What happened since this player's last turn
+  pin?: string;      // Asked for before the hand is shown, when the player set one
+  onReveal: () => void;
+  mauMauCaller?: { name: string; onSay: () => void }; // Whoever just dropped to one card can still call it
+}
+
+const HandoffScreen: React.FC<HandoffScreenProps> = ({ playerName, summary, pin, onReveal, mauMauCaller }) => {
+  const [enteredPin, setEnteredPin] = useState("");
+  const [wrongPin, setWrongPin] = useState(false);
+  
+  const handleReveal = () => {
+    if (pin && enteredPin !== pin) {
+      setWrongPin(true);
+      setEnteredPin("");
+      return;
+    }
+    onReveal();
+  };
+  
+  return (
+    <Card className="w-full max-w-md mx-auto bg-black/50 p-6 rounded-lg border border-white/10 shadow-lg animate-fade-in">
+      <h2 className="text-2xl font-bold text-center text-gold mb-2">{translations.handoff.title(playerName)}</h2>
+      <p className="text-center text-white/70 text-sm mb-6">{translations.handoff.hidden}</p>
+      
+      {mauMauCaller && (
+        <div className="flex justify-center mb-6">
+          <Button
+            className="bg-indigo-600 hover:bg-indigo-700 text-white animate-pulse"
+            onClick={mauMauCaller.onSay}
+          >
+            {mauMauCaller.name}: Mau Mau!
+          </Button>
+        </div>
+      )}
+      
+      <div className="bg-black/30 rounded-lg p-3 mb-6">
+        <h3 className="text-white font-medium mb-2">{translations.handoff.sinceLastTurn}</h3>
+        {summary.length > 0 ? (
+          <ul className="space-y-1 text-sm text-white/80 max-h-48 overflow-y-auto">
+            {summary.map((line, index) => (
+              <li key={index}>{line}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-white/60">{translations.handoff.nothingNew}</p>
+        )}
+      </div>
+      
+      {pin && (
+        <div className="space-y-1 mb-4">
+          <Input
+            type="password"
+            inputMode="numeric"
+            maxLength={4}
+            aria-label={translations.handoff.pin}
+            placeholder={translations.handoff.pin}
+            value={enteredPin}
+            onChange={(e) => {
+              setEnteredPin(e.target.value);
+              setWrongPin(false);
+            }}
+            onKeyDown={(e) => e.key === "Enter" && handleReveal()}
+            className="bg-black/20 text-white border-white/30 text-center tracking-widest"
+          />
+          {wrongPin && <p className="text-red-400 text-sm text-center">{translations.handoff.wrongPin}</p>}
+        </div>
+      )}
+      
+      <Button
+        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white"
+        onClick={handleReveal}
+      >
+        <Eye className="mr-2 h-4 w-4" />
+        {translations.handoff.reveal}
+      </Button>
+    </Card>
+  );
+};
+
+export default HandoffScreen;
@@ -5,14 +5,18 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { InfoIcon, RefreshCw, PlusCircle, LogIn } from 'lucide-react';
-import { Room } from '@/services/websocketService';
+import { InfoIcon, RefreshCw, PlusCircle, LogIn, Users } from 'lucide-react';
+import { Room } from '@/services/websocket/types';
 import { toast } from '@/hooks/use-toast';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import translations from '@/localization/pt-BR';
 
-const Lobby: React.FC = () => {
+interface LobbyProps {
+  onPlayLocal?: () => void; // Opens the local (same device) game setup
+}
+
+const Lobby: React.FC<LobbyProps> = ({ onPlayLocal }) => {
   const { 
     publicRooms, 
     createRoom, 
@@ -27,16 +31,17 @@ const Lobby: React.FC = () => {
   const [activeTab, setActiveTab] = useState<string>('browse');
   const [isPrivate, setIsPrivate] = useState<boolean>(false);
   
-  // Load public rooms on component mount and periodically refresh
+  // Load public rooms on component mount. Rooms opening and closing come in
+  // on the lobby feed; player counts don't, so those are refreshed now and then
+  // (one query for the whole list, and only while someone is looking).
   useEffect(() => {
     getPublicRooms();
     
-    // Set up periodic refresh of room list
     const refreshInterval = setInterval(() => {
-      if (activeTab === 'browse') {
+      if (activeTab === 'browse' && document.visibilityState === 'visible') {
         getPublicRooms();
       }
-    }, 5000); // Refresh every 5 seconds
+    }, 30000); // Refresh every 30 seconds
     
     return () => clearInterval(refreshInterval);
   }, [getPublicRooms, activeTab]);
@@ -185,6 +190,19 @@ const Lobby: React.FC = () => {
             </div>
           </TabsContent>
         </Tabs>
+        
+        {onPlayLocal && (
+          <div className="pt-4 mt-6 border-t border-white/10">
+            <Button 
+              variant="outline"
+              onClick={onPlayLocal}
+              className="w-full flex items-center gap-2"
+            >
+              <Users className="h-4 w-4" />
+              {translations.lobby.playLocal}
+            </Button>
+          </div>
+        )}
       </Card>
     </div>
   );
@@ -0,0 +1,100 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GameSettings, MatchEnd } from "@/types/game";
+import { MAX_INITIAL_SCORE, MAX_MATCH_ROUNDS, MIN_INITIAL_SCORE } from "@/utils/gameUtils";
+import translations from "@/localization/pt-BR";
+
+type MatchSettings = Pick<GameSettings, "initialScore" | "matchEnd">;
+
+interface MatchSettingsEditorProps {
+  value: MatchSettings;
+  onChange: (settings: MatchSettings) => void;
+}
+
+const MatchSettingsEditor: React.FC<MatchSettingsEditorProps> = ({ value, onChange }) => {
+  const { initialScore, matchEnd } = value;
+
+  // A score threshold has to stay below what everyone starts with
+  const setInitialScore = (score: number) => onChange({
+    initialScore: score,
+    matchEnd: matchEnd.type === "score" && matchEnd.threshold >= score
+      ? { type: "score", threshold: score - 1 }
+      : matchEnd
+  });
+
+  const setMatchEnd = (end: MatchEnd) => onChange({ initialScore, matchEnd: end });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="initialScore" className="block text-white mb-2">
+          {translations.match.initialScore}
+        </label>
+        <Input
+          id="initialScore"
+          type="number"
+          min={MIN_INITIAL_SCORE}
+          max={MAX_INITIAL_SCORE}
+          value={initialScore}
+          onChange={(e) => setInitialScore(Math.max(MIN_INITIAL_SCORE, Math.min(MAX_INITIAL_SCORE, parseInt(e.target.value) || 100)))}
+          className="bg-black/20 text-white border-white/30"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="matchEnd" className="text-white">{translations.match.end}</Label>
+        <Select
+          value={matchEnd.type}
+          onValueChange={(type) => setMatchEnd(
+            type === "rounds" ? { type, rounds: 5 } :
+            type === "score" ? { type, threshold: Math.floor(initialScore / 2) } :
+            { type: "last_standing" }
+          )}
+        >
+          <SelectTrigger id="matchEnd" className="bg-black/20 text-white border-white/30">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="last_standing">{translations.match.ends.last_standing}</SelectItem>
+            <SelectItem value="rounds">{translations.match.ends.rounds}</SelectItem>
+            <SelectItem value="score">{translations.match.ends.score}</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {matchEnd.type === "rounds" && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="matchRounds" className="text-white text-sm">{translations.match.rounds}</Label>
+            <Input
+              id="matchRounds"
+              type="number"
+              min="1"
+              max={MAX_MATCH_ROUNDS}
+              value={matchEnd.rounds}
+              onChange={(e) => setMatchEnd({ type: "rounds", rounds: Math.max(1, Math.min(MAX_MATCH_ROUNDS, parseInt(e.target.value) || 1)) })}
+              className="bg-black/20 text-white border-white/30 w-20"
+            />
+          </div>
+        )}
+
+        {matchEnd.type === "score" && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="matchThreshold" className="text-white text-sm">{translations.match.threshold}</Label>
+            <Input
+              id="matchThreshold"
+              type="number"
+              min="0"
+              max={initialScore - 1}
+              value={matchEnd.threshold}
+              onChange={(e) => setMatchEnd({ type: "score", threshold: Math.max(0, Math.min(initialScore - 1, parseInt(e.target.value) || 0)) })}
+              className="bg-black/20 text-white border-white/30 w-20"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchSettingsEditor;
@@ -4,17 +4,23 @@ import PlayingCard from "./PlayingCard";
 import { cn } from "../lib/utils";
 
 interface PlayerHandProps {
-  cards: CardType[];
+  cards?: CardType[];
+  cardCount?: number; // Opponents: only the number of cards is known
   isCurrentPlayer: boolean;
   onCardClick?: (card: CardType) => void;
   playableCards?: CardType[];
+  allowAnyCard?: boolean; // Bluffing: every card can be picked, playable ones stay highlighted
+  returningCardIds?: string[]; // Online: cards of a refused move, flying back into the hand
 }
 
 const PlayerHand: React.FC<PlayerHandProps> = ({
-  cards,
+  cards = [],
+  cardCount = cards.length,
   isCurrentPlayer,
   onCardClick,
   playableCards = [],
+  allowAnyCard = false,
+  returningCardIds = [],
 }) => {
   // State to track which card is being hovered
   const [hoveredCardId, setHoveredCardId] = useState<string | null>(null);
@@ -42,7 +48,7 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
       // For non-current players, we can allow more overlap since cards are face down
       const containerWidth = Math.min(240, window.innerWidth / 2); // Smaller container for other players
       const cardWidth = 10 * 4; // Smaller cards for opponents (40px)
-      const totalWidth = Math.min(containerWidth, cards.length * 20);
+      const totalWidth = Math.min(containerWidth, cardCount * 20);
       
       // Calculate spacing to fit within container
       const spacing = total <= 1 ? 0 : totalWidth / Math.max(total - 1, 1);
@@ -59,11 +65,11 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
     return (
       <div className="relative h-16 flex items-center justify-center w-full">
         <div className="relative w-full h-14 flex items-center justify-center">
-          {cards.map((card, index) => {
-            const left = getCardPosition(index, cards.length);
+          {Array.from({ length: cardCount }, (_, index) => {
+            const left = getCardPosition(index, cardCount);
             return (
               <div
-                key={card.id}
+                key={index}
                 className="absolute transition-all duration-300"
                 style={{ 
                   left: `${left}px`,
@@ -79,7 +85,7 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
           })}
         </div>
         <span className="absolute -bottom-4 text-white text-xs">
-          {cards.length} cartas
+          {cardCount} cartas
         </span>
       </div>
     );
@@ -91,7 +97,7 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
         {cards.map((card, index) => {
           const left = getCardPosition(index, cards.length);
           const isHovered = hoveredCardId === card.id;
-          const canPlay = isCurrentPlayer && isPlayableCard(card);
+          const canPlay = isCurrentPlayer && (allowAnyCard || isPlayableCard(card));
           
           return (
             <div
@@ -115,7 +121,8 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
                 className={cn(
                   isPlayableCard(card) ? "ring-2 ring-indigo-400" : "",
                   "transition-transform duration-300",
-                  canPlay ? "cursor-pointer" : "cursor-default"
+                  canPlay ? "cursor-pointer" : "cursor-default",
+                  returningCardIds.includes(card.id) && "animate-card-return ring-2 ring-red-500"
                 )}
               />
             </div>
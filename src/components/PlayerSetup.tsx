@@ -5,19 +5,33 @@ import { Input } from "@/components/ui/input";
 import { Plus, Minus } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { GameSettings } from "@/types/game";
-import { INITIAL_SCORE } from "@/utils/gameUtils";
+import { BotDifficulty, DeckSettings, GameSettings, MatchEnd, Player, SpecialCardTable } from "@/types/game";
+import { DECK_PRESETS, INITIAL_SCORE, RULE_PRESETS, getDefaultGameSettings, getDrawPileSize } from "@/utils/gameUtils";
+import { BOT_DIFFICULTIES } from "@/utils/bots";
+import SpecialCardsEditor from "./SpecialCardsEditor";
+import DeckSettingsEditor from "./DeckSettingsEditor";
+import MatchSettingsEditor from "./MatchSettingsEditor";
+import translations from "@/localization/pt-BR";
 
 interface PlayerSetupProps {
-  onStartGame: (players: { id: string, name: string }[], settings: GameSettings) => void;
+  onStartGame: (
+    players: Pick<Player, "id" | "name" | "bot">[],
+    settings: GameSettings,
+    pins: Record<string, string> // Optional pass-and-play PINs by player id
+  ) => void;
 }
 
 const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
   const [playerCount, setPlayerCount] = useState(2);
   const [playerNames, setPlayerNames] = useState<string[]>(["Jogador 1", "Jogador 2"]);
+  const [playerBots, setPlayerBots] = useState<(BotDifficulty | null)[]>([null, null]);
+  const [playerPins, setPlayerPins] = useState<string[]>([]);
   const [initialScore, setInitialScore] = useState(INITIAL_SCORE);
-  const [enableJokers, setEnableJokers] = useState(false);
+  const [specialCards, setSpecialCards] = useState<SpecialCardTable>(RULE_PRESETS.house);
+  const [deck, setDeck] = useState<DeckSettings>(DECK_PRESETS.full);
+  const [matchEnd, setMatchEnd] = useState<MatchEnd>({ type: "last_standing" });
   const [enableBluffing, setEnableBluffing] = useState(false);
   const [enableMauMauRule, setEnableMauMauRule] = useState(true);
   const [autoCheckMauMau, setAutoCheckMauMau] = useState(true);
@@ -29,8 +43,10 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
     // Update player names array
     if (increment && playerCount < 10) {
       setPlayerNames([...playerNames, `Jogador ${playerCount + 1}`]);
+      setPlayerBots([...playerBots, null]);
     } else if (!increment && playerCount > 2) {
       setPlayerNames(playerNames.slice(0, -1));
+      setPlayerBots(playerBots.slice(0, -1));
     }
   };
   
@@ -40,21 +56,43 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
     setPlayerNames(newNames);
   };
   
+  const handleBotChange = (index: number, bot: BotDifficulty | null) => {
+    const newBots = [...playerBots];
+    newBots[index] = bot;
+    setPlayerBots(newBots);
+  };
+  
+  const handlePinChange = (index: number, pin: string) => {
+    const newPins = [...playerPins];
+    newPins[index] = pin.replace(/\D/g, "");
+    setPlayerPins(newPins);
+  };
+  
   const handleSubmit = () => {
     const players = playerNames.slice(0, playerCount).map((name, index) => ({
       id: `player-${index}`,
       name: name.trim() || `Jogador ${index + 1}`,
+      ...(playerBots[index] && { bot: playerBots[index]! }),
     }));
     
     const settings: GameSettings = {
       initialScore,
-      enableJokers,
+      matchEnd,
+      specialCards,
+      deck,
       enableBluffing,
       enableMauMauRule,
-      autoCheckMauMau
+      autoCheckMauMau,
+      absence: getDefaultGameSettings().absence,
+      turnTimer: getDefaultGameSettings().turnTimer
     };
     
-    onStartGame(players, settings);
+    // PINs only matter for people sharing the device
+    const pins = Object.fromEntries(players
+      .map((player, index) => [player.id, playerPins[index]] as const)
+      .filter(([, pin], index) => pin && !playerBots[index]));
+    
+    onStartGame(players, settings, pins);
   };
   
   return (
@@ -94,20 +132,13 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
           </div>
         </div>
         
-        <div>
-          <label htmlFor="initialScore" className="block text-white mb-2">
-            Pontuação Inicial
-          </label>
-          <Input 
-            id="initialScore"
-            type="number"
-            min="10"
-            max="1000"
-            value={initialScore}
-            onChange={(e) => setInitialScore(Math.max(10, Math.min(1000, parseInt(e.target.value) || 100)))}
-            className="bg-black/20 text-white border-white/30"
-          />
-        </div>
+        <MatchSettingsEditor
+          value={{ initialScore, matchEnd }}
+          onChange={(settings) => {
+            setInitialScore(settings.initialScore);
+            setMatchEnd(settings.matchEnd);
+          }}
+        />
         
         <div className="space-y-3">
           <h3 className="text-white font-medium">Nomes dos Jogadores</h3>
@@ -121,29 +152,43 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
                 onChange={(e) => handleNameChange(index, e.target.value)}
                 className="bg-black/20 text-white border-white/30"
               />
+              {!playerBots[index] && (
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={4}
+                  aria-label={translations.handoff.pin}
+                  placeholder={translations.handoff.pinPlaceholder}
+                  value={playerPins[index] ?? ""}
+                  onChange={(e) => handlePinChange(index, e.target.value)}
+                  className="bg-black/20 text-white border-white/30 w-32"
+                />
+              )}
+              <Select
+                value={playerBots[index] ?? "human"}
+                onValueChange={(value) => handleBotChange(index, value === "human" ? null : value as BotDifficulty)}
+              >
+                <SelectTrigger aria-label={translations.bots.seat} className="bg-black/20 text-white border-white/30 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="human">{translations.bots.human}</SelectItem>
+                  {BOT_DIFFICULTIES.map(difficulty => (
+                    <SelectItem key={difficulty} value={difficulty}>{translations.bots.difficulties[difficulty]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           ))}
         </div>
         
         <div className="space-y-3 pt-2 border-t border-white/10">
-          <h3 className="text-white font-medium">Regras Especiais</h3>
-          
-          <div className="flex items-center justify-between">
-            <Label htmlFor="jokers" className="text-white">
-              Habilitar Curingas
-              <p className="text-xs text-white/70">Adiciona 4 curingas (+5 cartas, perde a vez)</p>
-            </Label>
-            <Switch 
-              id="jokers"
-              checked={enableJokers}
-              onCheckedChange={setEnableJokers}
-            />
-          </div>
+          <h3 className="text-white font-medium">{translations.rules.others}</h3>
           
           <div className="flex items-center justify-between">
             <Label htmlFor="bluffing" className="text-white">
-              Habilitar Blefe
-              <p className="text-xs text-white/70">Permite jogar qualquer carta (estratégia)</p>
+              {translations.rules.bluffing}
+              <p className="text-xs text-white/70">{translations.rules.bluffingHint}</p>
             </Label>
             <Switch 
               id="bluffing"
@@ -154,8 +199,8 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
           
           <div className="flex items-center justify-between">
             <Label htmlFor="maumau" className="text-white">
-              Regra do "Mau Mau"
-              <p className="text-xs text-white/70">Jogador deve dizer "Mau Mau" ao ter 1 carta</p>
+              {translations.rules.mauMau}
+              <p className="text-xs text-white/70">{translations.rules.mauMauHint}</p>
             </Label>
             <Switch 
               id="maumau"
@@ -167,8 +212,8 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
           {enableMauMauRule && (
             <div className="flex items-center justify-between pl-4 border-l-2 border-white/10">
               <Label htmlFor="automaumau" className="text-white">
-                Verificação Automática
-                <p className="text-xs text-white/70">Sistema verifica automaticamente</p>
+                {translations.rules.autoCheck}
+                <p className="text-xs text-white/70">{translations.rules.autoCheckHint}</p>
               </Label>
               <Switch 
                 id="automaumau"
@@ -179,9 +224,28 @@ const PlayerSetup: React.FC<PlayerSetupProps> = ({ onStartGame }) => {
           )}
         </div>
         
+        <div className="space-y-3 pt-2 border-t border-white/10">
+          <h3 className="text-white font-medium">{translations.deck.title}</h3>
+          <DeckSettingsEditor
+            value={deck}
+            onChange={setDeck}
+            playerCount={playerCount}
+          />
+        </div>
+        
+        <div className="space-y-3 pt-2 border-t border-white/10">
+          <h3 className="text-white font-medium">{translations.rules.title}</h3>
+          <SpecialCardsEditor
+            value={specialCards}
+            onChange={setSpecialCards}
+            ranks={deck.jokerCount > 0 ? [...deck.ranks, "joker"] : deck.ranks}
+          />
+        </div>
+        
         <Button 
           className="w-full bg-indigo-600 hover:bg-indigo-700 text-white shadow-lg hover-scale" 
           onClick={handleSubmit}
+          disabled={getDrawPileSize(deck, playerCount) <= 0}
         >
           Iniciar Jogo
         </Button>
@@ -0,0 +1,23 @@
+import React from "react";
+import { PresenceStatus } from "@/services/websocket/types";
+import translations from "@/localization/pt-BR";
+
+const COLORS: Record<PresenceStatus | "offline", string> = {
+  online: "bg-green-500",
+  away: "bg-yellow-400",
+  offline: "bg-gray-500",
+};
+
+// Green when connected, yellow when the tab is in the background, grey when gone
+const PresenceDot: React.FC<{ status?: PresenceStatus }> = ({ status }) => {
+  const state = status ?? "offline";
+  return (
+    <div
+      className={`h-2 w-2 rounded-full shrink-0 ${COLORS[state]}`}
+      title={translations.presence[state]}
+      aria-label={translations.presence[state]}
+    />
+  );
+};
+
+export default PresenceDot;
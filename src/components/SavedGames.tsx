@@ -0,0 +1,90 @@
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, History, Play, Trash2 } from "lucide-react";
+import { SavedGame, getSavedRound, isSavedGameFinished } from "@/services/savedGameService";
+import translations from "@/localization/pt-BR";
+
+interface SavedGamesProps {
+  games: SavedGame[];
+  onResume: (game: SavedGame) => void;
+  onDelete: (game: SavedGame) => void;
+  onExport: (game: SavedGame) => void;
+  onReplay: (game: SavedGame) => void;
+}
+
+const SavedGames: React.FC<SavedGamesProps> = ({ games, onResume, onDelete, onExport, onReplay }) => {
+  if (games.length === 0) {
+    return null;
+  }
+  
+  return (
+    <Card className="w-full max-w-md mx-auto mt-6 bg-black/50 p-6 rounded-lg border border-white/10 shadow-lg">
+      <h2 className="text-xl font-bold text-white mb-4">{translations.savedGames.title}</h2>
+      
+      <ul className="space-y-3">
+        {games.map(game => {
+          const finished = isSavedGameFinished(game);
+          
+          return (
+            <li key={game.id} className="flex items-center justify-between gap-2 bg-black/30 rounded p-3">
+              <div className="min-w-0">
+                <p className="text-white truncate">
+                  {game.state.players.map(player => player.name).join(", ")}
+                </p>
+                <p className="text-xs text-white/60">
+                  {new Date(game.savedAt).toLocaleString()} · {finished
+                    ? translations.savedGames.finished
+                    : translations.savedGames.round(getSavedRound(game))}
+                </p>
+              </div>
+              
+              <div className="flex gap-1 shrink-0">
+                {!finished && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-green-400 hover:text-green-300"
+                    title={translations.savedGames.resume}
+                    onClick={() => onResume(game)}
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-white/80 hover:text-white"
+                  title={translations.savedGames.replay}
+                  onClick={() => onReplay(game)}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-white/80 hover:text-white"
+                  title={translations.savedGames.export}
+                  onClick={() => onExport(game)}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-red-400 hover:text-red-300"
+                  title={translations.savedGames.delete}
+                  onClick={() => onDelete(game)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+};
+
+export default SavedGames;
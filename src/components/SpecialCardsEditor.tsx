@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Rank, RulePreset, SpecialCardTable, SpecialEffect, SpecialEffectType } from "@/types/game";
+import { findRulePreset, MAX_EFFECT_COUNT, RULE_PRESETS, sameSpecialCards } from "@/utils/gameUtils";
+import translations from "@/localization/pt-BR";
+
+const EFFECT_TYPES: SpecialEffectType[] = ["draw", "skip", "reverse", "previous_draws", "play_again", "wish_suit"];
+const SAVED_PRESETS_KEY = "mauMauRulePresets";
+const SAVED_PREFIX = "saved:";
+
+// Host-made tables kept in the browser, by name
+const loadSavedPresets = (): Record<string, SpecialCardTable> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_PRESETS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const storeSavedPresets = (presets: Record<string, SpecialCardTable>) => {
+  localStorage.setItem(SAVED_PRESETS_KEY, JSON.stringify(presets));
+};
+
+// Sensible starting values when the host switches a rank to another effect
+const defaultEffect = (type: SpecialEffectType): SpecialEffect => {
+  switch (type) {
+    case "draw":
+      return { type, count: 2, stackable: true };
+    case "previous_draws":
+      return { type, count: 1 };
+    default:
+      return { type };
+  }
+};
+
+interface SpecialCardsEditorProps {
+  value: SpecialCardTable;
+  onChange: (table: SpecialCardTable) => void;
+  ranks: Rank[]; // Ranks in the deck, "joker" included when there are jokers
+}
+
+const SpecialCardsEditor: React.FC<SpecialCardsEditorProps> = ({ value, onChange, ranks }) => {
+  const [savedPresets, setSavedPresets] = useState(loadSavedPresets);
+  const [presetName, setPresetName] = useState("");
+
+  // Which preset the current table matches, if any
+  const builtInMatch = findRulePreset(value);
+  const savedMatch = Object.keys(savedPresets).find(name => sameSpecialCards(savedPresets[name], value));
+  const selectedPreset = builtInMatch ?? (savedMatch ? SAVED_PREFIX + savedMatch : "custom");
+
+  const handlePresetChange = (preset: string) => {
+    if (preset.startsWith(SAVED_PREFIX)) {
+      onChange(savedPresets[preset.slice(SAVED_PREFIX.length)]);
+    } else if (preset in RULE_PRESETS) {
+      onChange(RULE_PRESETS[preset as RulePreset]);
+    }
+  };
+
+  const setEffect = (rank: Rank, effect: SpecialEffect | null) => {
+    const table = { ...value };
+    if (effect) {
+      table[rank] = effect;
+    } else {
+      delete table[rank];
+    }
+    onChange(table);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const presets = { ...savedPresets, [name]: value };
+    storeSavedPresets(presets);
+    setSavedPresets(presets);
+    setPresetName("");
+  };
+
+  const handleDeletePreset = () => {
+    if (!savedMatch) return;
+    const presets = { ...savedPresets };
+    delete presets[savedMatch];
+    storeSavedPresets(presets);
+    setSavedPresets(presets);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="rulePreset" className="text-white">{translations.rules.preset}</Label>
+        <Select value={selectedPreset} onValueChange={handlePresetChange}>
+          <SelectTrigger id="rulePreset" className="bg-black/20 text-white border-white/30">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="house">{translations.rules.presets.house}</SelectItem>
+            <SelectItem value="classic">{translations.rules.presets.classic}</SelectItem>
+            {Object.keys(savedPresets).map(name => (
+              <SelectItem key={name} value={SAVED_PREFIX + name}>{name}</SelectItem>
+            ))}
+            <SelectItem value="custom" disabled>{translations.rules.presets.custom}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        {ranks.map(rank => {
+          const effect = value[rank];
+          return (
+            <div key={rank} className="flex items-center gap-2">
+              <span className="text-white w-14 text-right">
+                {rank === "joker" ? translations.cards.joker : rank}
+              </span>
+              <Select
+                value={effect?.type ?? "none"}
+                onValueChange={(type) => setEffect(rank, type === "none" ? null : defaultEffect(type as SpecialEffectType))}
+              >
+                <SelectTrigger className="bg-black/20 text-white border-white/30 h-8 flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{translations.rules.effects.none}</SelectItem>
+                  {EFFECT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{translations.rules.effects[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {(effect?.type === "draw" || effect?.type === "previous_draws") && (
+                <Input
+                  type="number"
+                  min="1"
+                  max={MAX_EFFECT_COUNT}
+                  aria-label={translations.rules.cardCount}
+                  value={effect.count}
+                  onChange={(e) => setEffect(rank, { ...effect, count: Math.max(1, Math.min(MAX_EFFECT_COUNT, parseInt(e.target.value) || 1)) })}
+                  className="bg-black/20 text-white border-white/30 h-8 w-16"
+                />
+              )}
+              {effect?.type === "draw" && (
+                <div className="flex items-center gap-1">
+                  <Switch
+                    id={`stack-${rank}`}
+                    checked={effect.stackable}
+                    onCheckedChange={(stackable) => setEffect(rank, { ...effect, stackable })}
+                  />
+                  <Label htmlFor={`stack-${rank}`} className="text-xs text-white/70">{translations.rules.stackable}</Label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder={translations.rules.presetName}
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          className="bg-black/20 text-white border-white/30 h-8"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-white border-white/30"
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+        >
+          {translations.rules.savePreset}
+        </Button>
+        {savedMatch && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-white"
+            onClick={handleDeletePreset}
+          >
+            {translations.rules.deletePreset}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpecialCardsEditor;
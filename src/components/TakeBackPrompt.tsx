@@ -0,0 +1,60 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Undo2 } from "lucide-react";
+import { PlayerSummary } from "@/types/game";
+import { TakeBack } from "@/services/websocket/types";
+import translations from "@/localization/pt-BR";
+
+interface TakeBackPromptProps {
+  takeBack: TakeBack | null;
+  players: PlayerSummary[];
+  userId: string;
+  isHost: boolean;
+  onRequest: () => void;
+  onAnswer: (approve: boolean) => void;
+}
+
+// Online take-backs: the player of the last move may ask, the host or the others answer
+const TakeBackPrompt: React.FC<TakeBackPromptProps> = ({ takeBack, players, userId, isHost, onRequest, onAnswer }) => {
+  if (!takeBack) {
+    return null;
+  }
+  
+  if (takeBack.playerId === userId) {
+    return takeBack.requested ? (
+      <p className="text-white/70 text-sm text-center mb-4">{translations.game.takeBackWaiting}</p>
+    ) : (
+      <div className="flex justify-center mb-4">
+        <Button
+          variant="secondary"
+          size="sm"
+          className="bg-black/40 text-white hover:bg-black/60 border border-white/20"
+          onClick={onRequest}
+        >
+          <Undo2 className="mr-1 h-4 w-4" /> {translations.game.requestTakeBack}
+        </Button>
+      </div>
+    );
+  }
+  
+  const canAnswer = isHost || players.some(player => player.id === userId);
+  if (!takeBack.requested || !canAnswer || takeBack.approvals.includes(userId)) {
+    return null;
+  }
+  
+  const requester = players.find(player => player.id === takeBack.playerId);
+  
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-4 bg-black/40 p-3 rounded-lg border border-white/10">
+      <span className="text-white">{translations.game.takeBackRequested(requester?.name ?? "?")}</span>
+      <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white" onClick={() => onAnswer(true)}>
+        {translations.game.approve}
+      </Button>
+      <Button size="sm" variant="destructive" onClick={() => onAnswer(false)}>
+        {translations.game.decline}
+      </Button>
+    </div>
+  );
+};
+
+export default TakeBackPrompt;
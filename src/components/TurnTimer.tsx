@@ -1,63 +1,82 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Progress } from '@/components/ui/progress';
+import translations from '@/localization/pt-BR';
 
 interface TurnTimerProps {
   isActive: boolean;
-  duration: number; // in seconds
-  onTimeout: () => void;
+  duration: number; // The turn's own time, in seconds
+  endsAt?: number; // When that time runs out (epoch ms); by default, duration after the timer became active
+  bankMs?: number; // Extra time drawn on once the turn's own time has run out
+  label?: string;
+  onTimeout?: () => void;
 }
 
-const TurnTimer: React.FC<TurnTimerProps> = ({ isActive, duration, onTimeout }) => {
-  const [timeLeft, setTimeLeft] = useState(duration);
-  const [progress, setProgress] = useState(100);
-  
+const TurnTimer: React.FC<TurnTimerProps> = ({
+  isActive,
+  duration,
+  endsAt,
+  bankMs = 0,
+  label = translations.game.yourTurn,
+  onTimeout
+}) => {
+  const [now, setNow] = useState(Date.now);
+  const [activeSince, setActiveSince] = useState<number | null>(null);
+  const timedOutAt = useRef<number | null>(null);
+
+  // Reset timer when it becomes active
+  if (isActive && activeSince === null) {
+    setActiveSince(Date.now());
+  } else if (!isActive && activeSince !== null) {
+    setActiveSince(null);
+  }
+
+  const turnEndsAt = endsAt ?? (activeSince ?? now) + duration * 1000;
+  const deadline = turnEndsAt + bankMs;
+  const timeLeft = Math.min(duration, Math.max(0, (turnEndsAt - now) / 1000));
+  const bankLeft = Math.min(bankMs, Math.max(0, deadline - now)) / 1000;
+  const inBank = timeLeft === 0 && bankMs > 0;
+
   useEffect(() => {
-    // Reset timer when it becomes active
-    if (isActive) {
-      setTimeLeft(duration);
-      setProgress(100);
-    }
-  }, [isActive, duration]);
-  
+    if (!isActive) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  // Once per deadline
   useEffect(() => {
-    let timer: NodeJS.Timeout | null = null;
-    
-    if (isActive && timeLeft > 0) {
-      timer = setTimeout(() => {
-        const newTimeLeft = timeLeft - 0.1;
-        setTimeLeft(newTimeLeft);
-        setProgress((newTimeLeft / duration) * 100);
-      }, 100);
-    } else if (isActive && timeLeft <= 0) {
+    if (isActive && onTimeout && now >= deadline && timedOutAt.current !== deadline) {
+      timedOutAt.current = deadline;
       onTimeout();
     }
-    
-    return () => {
-      if (timer) clearTimeout(timer);
-    };
-  }, [isActive, timeLeft, duration, onTimeout]);
-  
+  }, [isActive, now, deadline, onTimeout]);
+
   const getColorClass = () => {
+    if (inBank) return 'bg-orange-500';
     if (timeLeft > duration * 0.5) return 'bg-green-600';
     if (timeLeft > duration * 0.25) return 'bg-yellow-500';
     return 'bg-red-600';
   };
-  
+
   if (!isActive) return null;
-  
+
+  const secondsLeft = inBank ? bankLeft : timeLeft;
+
   return (
     <div className="w-full space-y-1">
       <div className="flex justify-between items-center text-xs">
-        <span className="font-medium text-white">Your turn</span>
-        <span className={`font-mono ${timeLeft < 5 ? 'text-red-400' : 'text-gray-300'}`}>
-          {Math.ceil(timeLeft)}s
+        <span className="font-medium text-white">
+          {label}{inBank && ` · ${translations.turnTimer.bank}`}
+        </span>
+        <span className={`font-mono ${secondsLeft < 5 ? 'text-red-400' : 'text-gray-300'}`}>
+          {Math.ceil(secondsLeft)}s
         </span>
       </div>
-      <Progress 
-        value={progress} 
-        className="h-2 bg-gray-800" 
-        indicatorClassName={getColorClass()} 
+      <Progress
+        value={inBank ? (bankLeft * 1000 / bankMs) * 100 : (timeLeft / duration) * 100}
+        className="h-2 bg-gray-800"
+        indicatorClassName={getColorClass()}
       />
     </div>
   );
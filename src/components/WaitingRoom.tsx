@@ -1,19 +1,30 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useMultiplayer } from '@/contexts/MultiplayerContext';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { 
   PlayCircle, 
   Copy, 
   ArrowLeft, 
   UserX, 
-  MessageCircle 
+  MessageCircle,
+  Bot
 } from 'lucide-react';
 import Chat from '@/components/Chat';
+import DeckSettingsEditor from '@/components/DeckSettingsEditor';
+import MatchSettingsEditor from '@/components/MatchSettingsEditor';
+import SpecialCardsEditor from '@/components/SpecialCardsEditor';
+import PresenceDot from '@/components/PresenceDot';
 import { toast } from '@/hooks/use-toast';
 import translations from '@/localization/pt-BR';
+import { AbsencePolicy, BotDifficulty, TimeoutPolicy } from '@/types/game';
+import { BOT_DIFFICULTIES } from '@/utils/bots';
+import { findDeckPreset, findRulePreset, getDeckSize, getDrawPileSize } from '@/utils/gameUtils';
 
 const WaitingRoom: React.FC = () => {
   const { 
@@ -21,14 +32,31 @@ const WaitingRoom: React.FC = () => {
     playerInfo, 
     leaveRoom, 
     kickPlayer, 
-    startGame 
+    addBot,
+    removeBot,
+    setAbsence,
+    setTurnTimer,
+    setRules,
+    startGame,
+    presence
   } = useMultiplayer();
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
   
   if (!currentRoom || !playerInfo) return null;
   
   const isCreator = playerInfo.playerId === currentRoom.creatorId;
   const playerCount = currentRoom.players.length;
   const minPlayersRequired = 2;
+  const maxPlayers = 4;
+  const absencePolicies: AbsencePolicy[] = ['auto_draw', 'bot', 'forfeit'];
+  const graceOptions = [15, 30, 60, 120];
+  const turnOptions = [0, 15, 30, 60, 120];
+  const bankOptions = [0, 30, 60, 120];
+  const timeoutPolicies: TimeoutPolicy[] = ['draw', 'pass', 'play_first'];
+  const { turnTimer, rules } = currentRoom;
+  const { deck } = rules;
+  const deckTooSmall = getDrawPileSize(deck, playerCount) <= 0;
+  const { matchEnd } = rules;
   
   const copyRoomCode = () => {
     navigator.clipboard.writeText(currentRoom.code);
@@ -62,7 +90,7 @@ const WaitingRoom: React.FC = () => {
         <div className="space-y-4">
           <div className="bg-black/20 rounded-md p-4">
             <h3 className="text-md font-medium text-white mb-3">
-              {translations.waitingRoom.players} ({playerCount}/4)
+              {translations.waitingRoom.players} ({playerCount}/{maxPlayers})
             </h3>
             <div className="space-y-2">
               {currentRoom.players.map((player) => (
@@ -71,8 +99,15 @@ const WaitingRoom: React.FC = () => {
                   className="flex items-center justify-between py-2 px-3 rounded-md bg-black/30"
                 >
                   <div className="flex items-center gap-2">
-                    <div className="h-2 w-2 rounded-full bg-green-500"></div>
+                    {player.bot
+                      ? <Bot className="h-4 w-4 text-indigo-300" />
+                      : <PresenceDot status={presence[player.id]} />}
                     <span className="text-white">{player.nickname}</span>
+                    {player.bot && (
+                      <span className="text-xs bg-black/40 text-gray-300 px-2 py-0.5 rounded">
+                        {translations.bots.difficulties[player.bot]}
+                      </span>
+                    )}
                     {player.isCreator && (
                       <span className="text-xs bg-indigo-900/60 text-indigo-300 px-2 py-0.5 rounded">
                         {translations.waitingRoom.host}
@@ -84,7 +119,7 @@ const WaitingRoom: React.FC = () => {
                     <Button 
                       variant="ghost" 
                       size="sm" 
-                      onClick={() => kickPlayer(player.id)}
+                      onClick={() => player.bot ? removeBot(player.id) : kickPlayer(player.id)}
                       className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
                     >
                       <UserX className="h-4 w-4" />
@@ -93,6 +128,226 @@ const WaitingRoom: React.FC = () => {
                 </div>
               ))}
             </div>
+            
+            {isCreator && playerCount < maxPlayers && (
+              <div className="flex items-center gap-2 mt-3">
+                <Select value={botDifficulty} onValueChange={(value) => setBotDifficulty(value as BotDifficulty)}>
+                  <SelectTrigger className="bg-black/20 text-white border-white/30 w-40 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOT_DIFFICULTIES.map(difficulty => (
+                      <SelectItem key={difficulty} value={difficulty}>{translations.bots.difficulties[difficulty]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  className="text-white border-white/30"
+                  onClick={() => addBot(botDifficulty)}
+                >
+                  <Bot className="mr-2 h-4 w-4" />
+                  {translations.bots.addBot}
+                </Button>
+              </div>
+            )}
+          </div>
+          
+          <div className="bg-black/20 rounded-md p-4">
+            <h3 className="text-md font-medium text-white mb-3">
+              {translations.presence.absencePolicy}
+            </h3>
+            {isCreator ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={currentRoom.absence.policy}
+                  onValueChange={(value) => setAbsence({ ...currentRoom.absence, policy: value as AbsencePolicy })}
+                >
+                  <SelectTrigger className="bg-black/20 text-white border-white/30 w-56 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {absencePolicies.map(policy => (
+                      <SelectItem key={policy} value={policy}>{translations.presence.policies[policy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(currentRoom.absence.graceSeconds)}
+                  onValueChange={(value) => setAbsence({ ...currentRoom.absence, graceSeconds: Number(value) })}
+                >
+                  <SelectTrigger className="bg-black/20 text-white border-white/30 w-32 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {graceOptions.map(seconds => (
+                      <SelectItem key={seconds} value={String(seconds)}>{translations.presence.graceSeconds(seconds)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-300">
+                {translations.presence.policies[currentRoom.absence.policy]} · {translations.presence.graceSeconds(currentRoom.absence.graceSeconds)}
+              </p>
+            )}
+          </div>
+          
+          <div className="bg-black/20 rounded-md p-4 mt-4">
+            <h3 className="text-md font-medium text-white mb-3">
+              {translations.turnTimer.title}
+            </h3>
+            {isCreator ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={String(turnTimer.seconds)}
+                  onValueChange={(value) => setTurnTimer({ ...turnTimer, seconds: Number(value) })}
+                >
+                  <SelectTrigger className="bg-black/20 text-white border-white/30 w-40 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {turnOptions.map(seconds => (
+                      <SelectItem key={seconds} value={String(seconds)}>{translations.turnTimer.seconds(seconds)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {turnTimer.seconds > 0 && (
+                  <>
+                    <Select
+                      value={String(turnTimer.bankSeconds)}
+                      onValueChange={(value) => setTurnTimer({ ...turnTimer, bankSeconds: Number(value) })}
+                    >
+                      <SelectTrigger className="bg-black/20 text-white border-white/30 w-44 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {bankOptions.map(seconds => (
+                          <SelectItem key={seconds} value={String(seconds)}>{translations.turnTimer.bankSeconds(seconds)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={turnTimer.onExpiry}
+                      onValueChange={(value) => setTurnTimer({ ...turnTimer, onExpiry: value as TimeoutPolicy })}
+                    >
+                      <SelectTrigger className="bg-black/20 text-white border-white/30 w-56 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeoutPolicies.map(policy => (
+                          <SelectItem key={policy} value={policy}>{translations.turnTimer.policies[policy]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-300">
+                {turnTimer.seconds === 0
+                  ? translations.turnTimer.seconds(0)
+                  : `${translations.turnTimer.seconds(turnTimer.seconds)} · ${translations.turnTimer.bankSeconds(turnTimer.bankSeconds)} · ${translations.turnTimer.policies[turnTimer.onExpiry]}`}
+              </p>
+            )}
+          </div>
+          
+          <div className="bg-black/20 rounded-md p-4 mt-4">
+            <h3 className="text-md font-medium text-white mb-3">
+              {translations.match.title}
+            </h3>
+            {isCreator ? (
+              <MatchSettingsEditor
+                value={{ initialScore: rules.initialScore, matchEnd }}
+                onChange={(settings) => setRules({ ...rules, ...settings })}
+              />
+            ) : (
+              <p className="text-sm text-gray-300">
+                {translations.match.startingScore(rules.initialScore)} · {
+                  matchEnd.type === 'rounds' ? translations.match.roundCount(matchEnd.rounds) :
+                  matchEnd.type === 'score' ? `${translations.match.threshold} ${matchEnd.threshold}` :
+                  translations.match.ends.last_standing
+                }
+              </p>
+            )}
+          </div>
+          
+          <div className="bg-black/20 rounded-md p-4 mt-4">
+            <h3 className="text-md font-medium text-white mb-3">
+              {translations.rules.others}
+            </h3>
+            {isCreator ? (
+              <div className="space-y-3">
+                <SpecialCardsEditor
+                  value={rules.specialCards}
+                  onChange={(specialCards) => setRules({ ...rules, specialCards })}
+                  ranks={deck.jokerCount > 0 ? [...deck.ranks, 'joker'] : deck.ranks}
+                />
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="roomBluffing" className="text-white">
+                    {translations.rules.bluffing}
+                    <p className="text-xs text-white/70">{translations.rules.bluffingHint}</p>
+                  </Label>
+                  <Switch
+                    id="roomBluffing"
+                    checked={rules.enableBluffing}
+                    onCheckedChange={(enableBluffing) => setRules({ ...rules, enableBluffing })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="roomMauMau" className="text-white">
+                    {translations.rules.mauMau}
+                    <p className="text-xs text-white/70">{translations.rules.mauMauHint}</p>
+                  </Label>
+                  <Switch
+                    id="roomMauMau"
+                    checked={rules.enableMauMauRule}
+                    onCheckedChange={(enableMauMauRule) => setRules({ ...rules, enableMauMauRule })}
+                  />
+                </div>
+                {rules.enableMauMauRule && (
+                  <div className="flex items-center justify-between pl-4 border-l-2 border-white/10">
+                    <Label htmlFor="roomAutoMauMau" className="text-white">
+                      {translations.rules.autoCheck}
+                      <p className="text-xs text-white/70">{translations.rules.autoCheckHint}</p>
+                    </Label>
+                    <Switch
+                      id="roomAutoMauMau"
+                      checked={rules.autoCheckMauMau}
+                      onCheckedChange={(autoCheckMauMau) => setRules({ ...rules, autoCheckMauMau })}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-300">
+                {[
+                  translations.rules.presets[findRulePreset(rules.specialCards) ?? 'custom'],
+                  rules.enableBluffing && translations.rules.bluffingOn,
+                  rules.enableMauMauRule && (rules.autoCheckMauMau ? translations.rules.mauMauOn : translations.rules.mauMauCatch)
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+          
+          <div className="bg-black/20 rounded-md p-4 mt-4">
+            <h3 className="text-md font-medium text-white mb-3">
+              {translations.deck.title}
+            </h3>
+            {isCreator ? (
+              <DeckSettingsEditor
+                value={deck}
+                onChange={(deck) => setRules({ ...rules, deck })}
+                playerCount={playerCount}
+              />
+            ) : (
+              <p className={`text-sm ${deckTooSmall ? 'text-red-400' : 'text-gray-300'}`}>
+                {deckTooSmall
+                  ? translations.deck.tooSmall
+                  : `${translations.deck.presets[findDeckPreset(deck) ?? 'custom']} · ${translations.deck.size(getDeckSize(deck))}`}
+              </p>
+            )}
           </div>
           
           <div className="flex flex-col sm:flex-row gap-3 mt-6">
@@ -108,7 +363,7 @@ const WaitingRoom: React.FC = () => {
             {isCreator && (
               <Button 
                 onClick={startGame}
-                disabled={playerCount < minPlayersRequired}
+                disabled={playerCount < minPlayersRequired || deckTooSmall}
                 className="bg-indigo-600 hover:bg-indigo-700 w-full sm:w-auto"
               >
                 <PlayCircle className="mr-2 h-5 w-5" />
@@ -1,37 +1,87 @@
 
-import React, { createContext, useContext, ReactNode, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, ReactNode, useEffect, useRef, useState, useCallback } from 'react';
 import { MultiplayerContextType, RoomData } from './types';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import translations from '@/localization/pt-BR';
-import { supabaseService } from '@/services/websocket/SupabaseService';
+import { gameBackend } from '@/services/websocket/GameBackend';
 import { playerService } from '@/services/playerService';
-import { Room, ChatMessage } from '@/services/websocket/types';
+import { Room, ChatMessage, ConnectionStatus, PresenceStatus, TakeBack } from '@/services/websocket/types';
+import {
+  AbsenceSettings,
+  BotDifficulty,
+  Card,
+  GameHistory,
+  Match,
+  PlayerView,
+  RoomRules,
+  Suit,
+  TurnClock,
+  TurnTimerSettings
+} from '@/types/game';
+import { describeEvent } from '@/utils/gameEngine';
+import { getDefaultGameSettings, getDefaultRoomRules } from '@/utils/gameUtils';
+import { PredictedMove, predictMove, reconcileMoves } from '@/utils/prediction';
+import { fromTurnClockView } from '@/utils/turnClock';
+
+// How long a refused card takes to fly back into the hand
+const CARD_RETURN_MS = 600;
 
 const MultiplayerContext = createContext<MultiplayerContextType | undefined>(undefined);
 
 export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // State
-  const [status, setStatus] = useState<'connecting' | 'connected' | 'disconnected'>('disconnected');
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [playerInfo, setPlayerInfo] = useState<any>(null);
   const [publicRooms, setPublicRooms] = useState<Room[]>([]);
   const [currentRoom, setCurrentRoom] = useState<RoomData | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [gameView, setGameView] = useState<PlayerView | null>(null);
+  const [gameId, setGameId] = useState<string | null>(null);
+  const [match, setMatch] = useState<Match | null>(null);
+  const [gameHistory, setGameHistory] = useState<GameHistory | null>(null);
+  const [takeBack, setTakeBack] = useState<TakeBack | null>(null);
+  const [turnClock, setTurnClock] = useState<TurnClock | null>(null);
+  const [presence, setPresence] = useState<Record<string, PresenceStatus>>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [returningCardIds, setReturningCardIds] = useState<string[]>([]);
+
+  // Our own moves show before the server confirms them: the last table it sent,
+  // the moves predicted on top of it (oldest first), and refused moves whose
+  // error may still be on its way
+  const confirmedGameRef = useRef<{ gameId: string; seq: number; view: PlayerView } | null>(null);
+  const pendingMovesRef = useRef<PredictedMove[]>([]);
+  const rejectedMovesRef = useRef<Set<string>>(new Set());
 
-  const { user } = useAuth();
   const { toast } = useToast();
   
-  // Set up WebSocket event listeners
+  // The server refused moves we already showed: their cards go back into the hand
+  const rollBackMoves = useCallback((rejected: PredictedMove[], reason: string) => {
+    rejected.forEach(move => rejectedMovesRef.current.add(move.requestId));
+    setReturningCardIds(rejected.map(move => move.action.cardId));
+    toast({
+      title: translations.messages.moveRejected,
+      description: reason,
+      variant: "destructive"
+    });
+  }, [toast]);
+  
   useEffect(() => {
-    // Connection status
-    const connectionStatusUnsubscribe = supabaseService.on('connection_status', 
-      (data: { status: 'connecting' | 'connected' | 'disconnected' }) => {
+    if (returningCardIds.length === 0) return;
+    const timer = setTimeout(() => setReturningCardIds([]), CARD_RETURN_MS);
+    return () => clearTimeout(timer);
+  }, [returningCardIds]);
+  
+  // Set up WebSocket event listeners. Every server event needs a handler here,
+  // so a new one fails to compile until the provider deals with it.
+  useEffect(() => {
+    return gameBackend.onAll({
+      // Connection status
+      connection_status: data => {
         setStatus(data.status);
-        
+      
+        // While reconnecting the page shows a banner; only giving up is an error
         if (data.status === 'disconnected') {
           toast({
             title: translations.messages.disconnected,
@@ -39,17 +89,27 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
             variant: "destructive"
           });
         }
-      });
+      },
+      
+      // Back online: fetch a full snapshot of the room we were in
+      reconnected: () => {
+        const roomCode = playerService.getCurrentRoom();
+        if (roomCode) {
+          gameBackend.sendEvent({
+            type: 'resync',
+            payload: { roomCode }
+          });
+        }
+      },
       
-    // Room created
-    const roomCreatedUnsubscribe = supabaseService.on('room_created', 
-      (data: { room: Room }) => {
+      // Room created
+      room_created: data => {
         console.log('Room created event received:', data);
         setIsLoading(false);
-        
+      
         // Save room code
         playerService.setCurrentRoom(data.room.code);
-        
+      
         // Create initial room data
         const newRoom = {
           code: data.room.code,
@@ -60,243 +120,283 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
           gameStarted: false,
           creatorId: playerInfo?.playerId || '',
           isPrivate: data.room.isPrivate,
+          absence: getDefaultGameSettings().absence,
+          turnTimer: getDefaultGameSettings().turnTimer,
+          rules: getDefaultRoomRules(),
         };
-        
+      
         setCurrentRoom(newRoom);
-        
+      
         console.log('Setting current room after creation:', newRoom);
-        
+      
         toast({
           title: translations.messages.roomCreated,
           description: `${translations.lobby.roomCode}: ${data.room.code}`,
         });
-      });
+      },
       
-    // Room joined
-    const roomJoinedUnsubscribe = supabaseService.on('room_joined', 
-      (data: { room: RoomData }) => {
+      // Room joined
+      room_joined: data => {
         console.log('Room joined event received:', data);
         setIsLoading(false);
         setCurrentRoom(data.room);
         playerService.setCurrentRoom(data.room.code);
         setChatMessages(data.room.messages || []);
-        
+      
         console.log('Current room set after joining:', data.room);
-      });
+      },
       
-    // Room deleted
-    const roomDeletedUnsubscribe = supabaseService.on('room_deleted',
-      (data: { roomCode: string }) => {
+      // Room deleted
+      room_deleted: data => {
         console.log('Room deleted event received:', data);
-        
+      
         // If the current room was deleted and user is still viewing it
         if (currentRoom && currentRoom.code === data.roomCode) {
           toast({
             title: translations.messages.roomDeleted,
             description: translations.messages.roomNoLongerExists,
           });
-          
+        
           // Clear room data
           setCurrentRoom(null);
           playerService.setCurrentRoom(undefined);
         }
-      });
+      },
       
-    // Chat message
-    const chatMessageUnsubscribe = supabaseService.on('chat_message', 
-      (data: { message: ChatMessage }) => {
+      // Chat message
+      chat_message: data => {
         setChatMessages(prevMessages => [...prevMessages, data.message]);
-      });
+      },
       
-    // Room list
-    const roomListUnsubscribe = supabaseService.on('room_list', 
-      (data: { rooms: Room[] }) => {
+      // Room list
+      room_list: data => {
         setPublicRooms(data.rooms);
         setIsLoading(false);
-      });
+      },
+      
+      // Public rooms opening and starting or closing, from the lobby feed
+      lobby_room_added: data => {
+        setPublicRooms(rooms => [...rooms.filter(room => room.code !== data.room.code), data.room]);
+      },
+      lobby_room_removed: data => {
+        setPublicRooms(rooms => rooms.filter(room => room.code !== data.roomCode));
+      },
       
-    // Player kicked
-    const playerKickedUnsubscribe = supabaseService.on('player_kicked', 
-      (data: { reason: string }) => {
+      // Player kicked
+      player_kicked: data => {
         toast({
           title: translations.app.error,
           description: data.reason,
           variant: "destructive"
         });
-        
+      
         // Clear room data
         setCurrentRoom(null);
         playerService.setCurrentRoom(undefined);
-      });
+      },
       
-    // Game started
-    const gameStartedUnsubscribe = supabaseService.on('game_started', 
-      () => {
+      // Game started
+      game_started: () => {
         if (currentRoom) {
           setCurrentRoom({
             ...currentRoom,
             gameStarted: true
           });
-          
+        
           toast({
             title: translations.messages.gameStarted,
             description: translations.messages.gameStartedByHost,
           });
         }
-      });
+      },
+      
+      // Bots added or removed by the host
+      room_bots: data => {
+        setCurrentRoom(room => room && room.code === data.roomCode
+          ? {
+              ...room,
+              players: [
+                ...room.players.filter(player => !player.bot),
+                ...data.bots.map(bot => ({ id: bot.id, nickname: bot.name, isCreator: false, bot: bot.difficulty }))
+              ]
+            }
+          : room);
+      },
+      
+      // Absence policy changed by the host
+      room_absence: data => {
+        setCurrentRoom(room => room && room.code === data.roomCode ? { ...room, absence: data.absence } : room);
+      },
+      
+      // Turn timer changed by the host
+      room_turn_timer: data => {
+        setCurrentRoom(room => room && room.code === data.roomCode ? { ...room, turnTimer: data.turnTimer } : room);
+      },
+      
+      // Rules changed by the host
+      room_rules: data => {
+        setCurrentRoom(room => room && room.code === data.roomCode ? { ...room, rules: data.rules } : room);
+      },
       
-    // Error
-    const errorUnsubscribe = supabaseService.on('error',
-      (data: { message: string }) => {
+      // Who is connected to the room
+      presence: data => {
+        if (currentRoom && currentRoom.code === data.roomCode) {
+          setPresence(data.players);
+        }
+      },
+      
+      // Game state
+      game_state: data => {
+        if (currentRoom && currentRoom.code === data.roomCode) {
+          // A table older than the one we have arrived late; a new round starts with nothing pending
+          const confirmed = confirmedGameRef.current;
+          const sameGame = confirmed?.gameId === data.gameId;
+          if (sameGame && data.seq < confirmed.seq) return;
+          
+          const { view, pending, rejected } = reconcileMoves(data.view, data.seq, sameGame ? pendingMovesRef.current : []);
+          confirmedGameRef.current = { gameId: data.gameId, seq: data.seq, view: data.view };
+          pendingMovesRef.current = pending;
+          if (rejected.length > 0) {
+            rollBackMoves(rejected, translations.messages.tableChanged);
+          }
+          
+          setGameView(view);
+          setGameId(data.gameId);
+          setMatch(data.match ?? null);
+          setTakeBack(data.takeBack ?? null);
+          setTurnClock(fromTurnClockView(data.clock ?? null, Date.now()));
+        
+          const takenBack = data.events.find(event => event.type === 'move_taken_back');
+          if (takenBack) {
+            toast({
+              title: translations.game.undo,
+              description: describeEvent(takenBack, data.view.players)
+            });
+          }
+        }
+      },
+      
+      // Replay history
+      game_history: data => {
+        setGameHistory(data.history);
+      },
+      
+      // Error
+      error: (data, message) => {
         console.error('Server error:', data.message);
+        
+        // Refused moves we showed are rolled back instead; the first refusal explains them all
+        const requestId = message.requestId;
+        if (requestId && rejectedMovesRef.current.delete(requestId)) return;
+        const index = pendingMovesRef.current.findIndex(move => move.requestId === requestId);
+        if (index >= 0) {
+          const confirmed = confirmedGameRef.current!;
+          const rejected = pendingMovesRef.current.slice(index);
+          pendingMovesRef.current = pendingMovesRef.current.slice(0, index);
+          setGameView(reconcileMoves(confirmed.view, confirmed.seq, pendingMovesRef.current).view);
+          rollBackMoves(rejected, data.message);
+          rejectedMovesRef.current.delete(requestId);
+          return;
+        }
+
         setError(data.message);
         setIsLoading(false);
-        
+      
         toast({
           title: translations.app.error,
           description: data.message,
           variant: "destructive"
         });
-        
+      
         // Auto-clear error after 5 seconds
         setTimeout(() => {
           setError(null);
         }, 5000);
-      });
+      },
       
-    // Player joined
-    const playerJoinedUnsubscribe = supabaseService.on('player_joined', 
-      (data: { 
-        roomCode: string, 
-        player: { id: string, nickname: string, isCreator: boolean } 
-      }) => {
+      // Player joined
+      player_joined: data => {
         console.log('Player joined event:', data);
-        
+      
         if (currentRoom && currentRoom.code === data.roomCode) {
           setCurrentRoom(prevRoom => {
             if (!prevRoom) return null;
-            
+          
             return {
               ...prevRoom,
               players: [...prevRoom.players, data.player]
             };
           });
-          
+        
           toast({
             title: translations.messages.playerJoined(data.player.nickname),
             description: '',
           });
         }
-      });
+      },
       
-    // Player left
-    const playerLeftUnsubscribe = supabaseService.on('player_left', 
-      (data: { 
-        roomCode: string,
-        playerId: string,
-        playerName: string
-      }) => {
+      // Player left
+      player_left: data => {
         console.log('Player left event:', data);
-        
+      
         if (currentRoom && currentRoom.code === data.roomCode) {
           setCurrentRoom(prevRoom => {
             if (!prevRoom) return null;
-            
+          
             return {
               ...prevRoom,
               players: prevRoom.players.filter(player => player.id !== data.playerId)
             };
           });
-          
+        
           toast({
             title: translations.messages.playerLeft(data.playerName),
             description: '',
           });
         }
-      });
-      
-    // Clean up on unmount
+      }
+    });
+  }, [toast, playerInfo, currentRoom, rollBackMoves]);
+  
+  const currentRoomCode = currentRoom?.code;
+  
+  // Be seen as connected for as long as we are in the room
+  useEffect(() => {
+    if (!currentRoomCode) return;
+    
+    gameBackend.sendEvent({
+      type: 'track_presence',
+      payload: { roomCode: currentRoomCode }
+    });
     return () => {
-      connectionStatusUnsubscribe();
-      roomCreatedUnsubscribe();
-      roomJoinedUnsubscribe();
-      roomDeletedUnsubscribe();
-      chatMessageUnsubscribe();
-      roomListUnsubscribe();
-      playerKickedUnsubscribe();
-      gameStartedUnsubscribe();
-      errorUnsubscribe();
-      playerJoinedUnsubscribe();
-      playerLeftUnsubscribe();
+      setPresence({});
+      gameBackend.sendEvent({
+        type: 'untrack_presence',
+        payload: { roomCode: currentRoomCode }
+      });
     };
-  }, [toast, playerInfo, currentRoom]);
+  }, [currentRoomCode]);
   
-  // Sync authenticated user with playerInfo when user auth state changes
+  // Fetch the table once the room's game is running (also covers reloads mid-game)
+  const currentRoomStarted = currentRoom?.gameStarted;
   useEffect(() => {
-    const syncUserWithPlayerInfo = async () => {
-      if (user) {
-        try {
-          console.log('Syncing user profile with player info');
-          // Get the user's nickname from the users table
-          const { data, error } = await supabase
-            .from('users')
-            .select('nickname')
-            .eq('id', user.id)
-            .single();
-            
-          if (error) {
-            console.error('Error fetching user profile:', error);
-            return;
-          }
-          
-          if (data && data.nickname) {
-            console.log('Setting nickname from user profile:', data.nickname);
-            setNickname(data.nickname);
-          } else {
-            // Fallback to metadata if no record in users table
-            const nickname = user.user_metadata?.nickname;
-            if (nickname) {
-              console.log('Setting nickname from user metadata:', nickname);
-              setNickname(nickname);
-              
-              // Try to create user record if it doesn't exist using upsert instead of insert
-              try {
-                const { error: upsertError } = await supabase
-                  .from('users')
-                  .upsert({
-                    id: user.id,
-                    nickname: nickname
-                  }, {
-                    onConflict: 'id'
-                  });
-                  
-                if (upsertError) {
-                  console.error('Failed to create user record:', upsertError);
-                }
-              } catch (err) {
-                console.warn('Error ensuring user record exists:', err);
-              }
-            }
-          }
-        } catch (err) {
-          console.error('Error syncing user with player info:', err);
-          toast({
-            title: 'Error',
-            description: translations.auth.profileLoadError,
-            variant: 'destructive'
-          });
-        }
-      }
-    };
-    
-    // Use setTimeout to avoid potential deadlocks with auth state changes
-    if (user) {
-      setTimeout(() => {
-        syncUserWithPlayerInfo();
-      }, 0);
+    if (!currentRoomCode || !currentRoomStarted) {
+      confirmedGameRef.current = null;
+      pendingMovesRef.current = [];
+      setGameView(null);
+      setGameId(null);
+      setMatch(null);
+      setTakeBack(null);
+      setTurnClock(null);
+      return;
     }
-  }, [user, toast]);
-
+    
+    gameBackend.sendEvent({
+      type: 'sync_game',
+      payload: { roomCode: currentRoomCode }
+    });
+  }, [currentRoomCode, currentRoomStarted]);
+  
   // Handler functions
   const setNickname = useCallback((nickname: string) => {
     playerService.setNickname(nickname);
@@ -310,9 +410,9 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     
     setIsAuthenticated(true);
     
-    // Connect to WebSocket after authentication
-    supabaseService.connect().catch(error => {
-      console.error('Failed to connect to WebSocket:', error);
+    // Connect to the game backend after authentication
+    gameBackend.connect().catch(error => {
+      console.error('Failed to connect to the game backend:', error);
       setError(translations.messages.connectionLost);
     });
   }, []);
@@ -325,7 +425,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     
     setIsLoading(true);
     setError(null);
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'create_room',
       payload: {
         nickname: playerInfo.nickname,
@@ -343,7 +443,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     
     setIsLoading(true);
     setError(null);
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'join_room',
       payload: {
         roomCode,
@@ -356,7 +456,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
   const leaveRoom = useCallback(() => {
     if (!currentRoom || !playerInfo) return;
     
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'leave_room',
       payload: {
         roomCode: currentRoom.code,
@@ -367,6 +467,11 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     setCurrentRoom(null);
     playerService.setCurrentRoom(undefined);
     setChatMessages([]);
+    setGameView(null);
+    setGameId(null);
+    setMatch(null);
+    setTakeBack(null);
+    setTurnClock(null);
   }, [currentRoom, playerInfo]);
   
   const kickPlayer = useCallback((targetPlayerId: string) => {
@@ -382,7 +487,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
       return;
     }
     
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'kick_player',
       payload: {
         roomCode: currentRoom.code,
@@ -391,6 +496,66 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     });
   }, [currentRoom, playerInfo, toast]);
   
+  const addBot = useCallback((difficulty: BotDifficulty) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'add_bot',
+      payload: {
+        roomCode: currentRoom.code,
+        difficulty
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const removeBot = useCallback((botId: string) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'remove_bot',
+      payload: {
+        roomCode: currentRoom.code,
+        botId
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const setAbsence = useCallback((absence: AbsenceSettings) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'set_absence',
+      payload: {
+        roomCode: currentRoom.code,
+        absence
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const setTurnTimer = useCallback((turnTimer: TurnTimerSettings) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'set_turn_timer',
+      payload: {
+        roomCode: currentRoom.code,
+        turnTimer
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const setRules = useCallback((rules: RoomRules) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'set_rules',
+      payload: {
+        roomCode: currentRoom.code,
+        rules
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
   const startGame = useCallback(() => {
     if (!currentRoom || !playerInfo) return;
     
@@ -404,7 +569,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
       return;
     }
     
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'start_game',
       payload: {
         roomCode: currentRoom.code
@@ -415,7 +580,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
   const sendChatMessage = useCallback((message: string) => {
     if (!currentRoom || !playerInfo) return;
     
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'chat_message',
       payload: {
         roomCode: currentRoom.code,
@@ -425,23 +590,95 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     });
   }, [currentRoom, playerInfo]);
   
-  const playCard = useCallback((cardId: string) => {
+  /**
+   * Show a card leaving our hand right away. send gets the game version the move
+   * should create, so the server refuses it if the table changed in the meantime.
+   * Moves the engine can't predict here are sent as they are and wait for the server.
+   */
+  const sendPredictedMove = useCallback((
+    buildAction: (playerId: string) => PredictedMove['action'],
+    send: (seq?: number) => string
+  ) => {
+    const confirmed = confirmedGameRef.current;
+    if (!confirmed?.view.viewerId) {
+      send();
+      return;
+    }
+    
+    const moves = pendingMovesRef.current;
+    const action = buildAction(confirmed.view.viewerId);
+    const predicted = predictMove(reconcileMoves(confirmed.view, confirmed.seq, moves).view, action);
+    if (!predicted) {
+      send();
+      return;
+    }
+    
+    const seq = confirmed.seq + moves.length + 1;
+    pendingMovesRef.current = [...moves, { requestId: send(seq), seq, action }];
+    setGameView(predicted);
+  }, []);
+  
+  const playCard = useCallback((cardId: string, wishedSuit?: Suit) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    sendPredictedMove(
+      playerId => ({ type: 'play', playerId, cardId, wishedSuit }),
+      seq => gameBackend.sendEvent({
+        type: 'play_card',
+        payload: {
+          roomCode: currentRoom.code,
+          cardId,
+          wishedSuit,
+          seq
+        }
+      })
+    );
+  }, [currentRoom, playerInfo, sendPredictedMove]);
+  
+  const drawCard = useCallback(() => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'draw_card',
+      payload: {
+        roomCode: currentRoom.code
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const bluffCard = useCallback((cardId: string, claimed: Pick<Card, 'suit' | 'rank'>) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    sendPredictedMove(
+      playerId => ({ type: 'bluff', playerId, cardId, claimed }),
+      seq => gameBackend.sendEvent({
+        type: 'bluff_card',
+        payload: {
+          roomCode: currentRoom.code,
+          cardId,
+          claimed,
+          seq
+        }
+      })
+    );
+  }, [currentRoom, playerInfo, sendPredictedMove]);
+  
+  const challengeBluff = useCallback(() => {
     if (!currentRoom || !playerInfo) return;
     
-    supabaseService.sendEvent({
-      type: 'play_card',
+    gameBackend.sendEvent({
+      type: 'challenge_bluff',
       payload: {
-        roomCode: currentRoom.code,
-        cardId
+        roomCode: currentRoom.code
       }
     });
   }, [currentRoom, playerInfo]);
   
-  const drawCard = useCallback(() => {
+  const passTurn = useCallback(() => {
     if (!currentRoom || !playerInfo) return;
     
-    supabaseService.sendEvent({
-      type: 'draw_card',
+    gameBackend.sendEvent({
+      type: 'pass_turn',
       payload: {
         roomCode: currentRoom.code
       }
@@ -451,7 +688,7 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
   const sayMauMau = useCallback(() => {
     if (!currentRoom || !playerInfo) return;
     
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'say_mau_mau',
       payload: {
         roomCode: currentRoom.code
@@ -459,12 +696,112 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     });
   }, [currentRoom, playerInfo]);
   
+  const catchMauMau = useCallback((targetId: string) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'catch_mau_mau',
+      payload: {
+        roomCode: currentRoom.code,
+        targetId
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const closeMauMauWindow = useCallback(() => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'close_mau_mau_window',
+      payload: {
+        roomCode: currentRoom.code
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const playBotTurn = useCallback((botId: string) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'bot_turn',
+      payload: {
+        roomCode: currentRoom.code,
+        botId
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const resolveAbsence = useCallback((absentId: string) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'resolve_absence',
+      payload: {
+        roomCode: currentRoom.code,
+        playerId: absentId
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const expireTurn = useCallback(() => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'turn_timeout',
+      payload: {
+        roomCode: currentRoom.code
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const reclaimSeat = useCallback(() => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'reclaim_seat',
+      payload: {
+        roomCode: currentRoom.code
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const requestTakeBack = useCallback(() => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'request_take_back',
+      payload: {
+        roomCode: currentRoom.code
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const answerTakeBack = useCallback((approve: boolean) => {
+    if (!currentRoom || !playerInfo) return;
+    
+    gameBackend.sendEvent({
+      type: 'answer_take_back',
+      payload: {
+        roomCode: currentRoom.code,
+        approve
+      }
+    });
+  }, [currentRoom, playerInfo]);
+  
+  const loadGameHistory = useCallback((historyGameId: string) => {
+    setGameHistory(null);
+    gameBackend.sendEvent({
+      type: 'load_history',
+      payload: { gameId: historyGameId }
+    });
+  }, []);
+  
   const getPublicRooms = useCallback(() => {
     setIsLoading(true);
     setError(null);
-    supabaseService.sendEvent({
+    gameBackend.sendEvent({
       type: 'room_list',
-      payload: { rooms: [] }
+      payload: {}
     });
   }, []);
 
@@ -476,6 +813,14 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     publicRooms,
     currentRoom,
     chatMessages,
+    gameView,
+    returningCardIds,
+    gameId,
+    match,
+    gameHistory,
+    takeBack,
+    turnClock,
+    presence,
     isLoading,
     error,
     setNickname,
@@ -483,11 +828,28 @@ export const MultiplayerProvider: React.FC<{ children: ReactNode }> = ({ childre
     joinRoom,
     leaveRoom,
     kickPlayer,
+    addBot,
+    removeBot,
+    setAbsence,
+    setTurnTimer,
+    setRules,
     startGame,
     sendChatMessage,
     playCard,
+    bluffCard,
+    challengeBluff,
     drawCard,
+    passTurn,
     sayMauMau,
+    catchMauMau,
+    closeMauMauWindow,
+    playBotTurn,
+    resolveAbsence,
+    expireTurn,
+    reclaimSeat,
+    requestTakeBack,
+    answerTakeBack,
+    loadGameHistory,
     getPublicRooms,
   };
 
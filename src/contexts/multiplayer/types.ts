@@ -1,20 +1,20 @@
 
 import { PlayerInfo } from '@/services/playerService';
-import { Room, ChatMessage, ConnectionStatus } from '@/services/websocket/types';
+import { Room, ChatMessage, ConnectionStatus, PresenceStatus, RoomData, TakeBack } from '@/services/websocket/types';
+import {
+  AbsenceSettings,
+  BotDifficulty,
+  Card,
+  GameHistory,
+  Match,
+  PlayerView,
+  RoomRules,
+  Suit,
+  TurnClock,
+  TurnTimerSettings
+} from '@/types/game';
 
-export interface RoomData {
-  code: string;
-  name?: string;
-  players: {
-    id: string;
-    nickname: string;
-    isCreator: boolean;
-  }[];
-  messages: ChatMessage[];
-  gameStarted: boolean;
-  creatorId: string;
-  isPrivate?: boolean;
-}
+export type { RoomData };
 
 export interface MultiplayerContextType {
   status: ConnectionStatus;
@@ -23,6 +23,14 @@ export interface MultiplayerContextType {
   publicRooms: Room[];
   currentRoom: RoomData | null;
   chatMessages: ChatMessage[];
+  gameView: PlayerView | null; // The current user's view of the table
+  returningCardIds: string[]; // Cards of our own refused moves, on their way back into the hand
+  gameId: string | null;
+  match: Match | null;
+  gameHistory: GameHistory | null; // Last history asked for with loadGameHistory
+  takeBack: TakeBack | null;
+  turnClock: TurnClock | null; // The running turn's deadline, in this device's time; null when turns aren't timed
+  presence: Record<string, PresenceStatus>; // People in the room with an open connection
   isLoading: boolean;
   error: string | null;
   
@@ -34,14 +42,31 @@ export interface MultiplayerContextType {
   joinRoom: (roomCode: string) => void;
   leaveRoom: () => void;
   kickPlayer: (playerId: string) => void;
+  addBot: (difficulty: BotDifficulty) => void;
+  removeBot: (botId: string) => void;
+  setAbsence: (absence: AbsenceSettings) => void;
+  setTurnTimer: (turnTimer: TurnTimerSettings) => void;
+  setRules: (rules: RoomRules) => void;
   startGame: () => void;
   
   // Chat actions
   sendChatMessage: (message: string) => void;
   
   // Game actions
-  playCard: (cardId: string) => void;
+  playCard: (cardId: string, wishedSuit?: Suit) => void;
+  bluffCard: (cardId: string, claimed: Pick<Card, 'suit' | 'rank'>) => void;
+  challengeBluff: () => void;
   drawCard: () => void;
+  passTurn: () => void;
   sayMauMau: () => void;
+  catchMauMau: (targetId: string) => void;
+  closeMauMauWindow: () => void;
+  playBotTurn: (botId: string) => void;
+  resolveAbsence: (playerId: string) => void; // Host only
+  expireTurn: () => void; // Once the turn's deadline has passed
+  reclaimSeat: () => void;
+  requestTakeBack: () => void;
+  answerTakeBack: (approve: boolean) => void;
+  loadGameHistory: (gameId: string) => void;
   getPublicRooms: () => void;
 }
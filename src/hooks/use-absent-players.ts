@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { PlayerView } from "@/types/game";
+import { PresenceStatus } from "@/services/websocket/types";
+import { getDefaultGameSettings } from "@/utils/gameUtils";
+
+// Give a person who dropped off the table the grace period to come back, then
+// ask for the room's absence policy to be applied to them. Drawing for them
+// only makes sense on their turn; a bot or a forfeit can happen any time.
+export function useAbsentPlayers(
+  view: PlayerView | null,
+  presence: Record<string, PresenceStatus>,
+  resolve: (playerId: string) => void,
+  enabled = true
+) {
+  const resolveRef = useRef(resolve);
+  resolveRef.current = resolve;
+
+  // When each absent person was first missed
+  const absentSince = useRef<Record<string, number>>({});
+  const absentIds = view
+    ? view.players.filter(player => !player.bot && !player.isEliminated && !presence[player.id]).map(player => player.id)
+    : [];
+  const absentKey = absentIds.join(",");
+
+  useEffect(() => {
+    const now = Date.now();
+    absentSince.current = Object.fromEntries(
+      absentKey.split(",").filter(Boolean).map(id => [id, absentSince.current[id] ?? now])
+    );
+  }, [absentKey]);
+
+  const { policy, graceSeconds } = view?.settings.absence ?? getDefaultGameSettings().absence;
+  const currentPlayerId = view?.players[view.currentPlayerIndex]?.id;
+  const targetId = policy === "auto_draw"
+    ? absentIds.find(id => id === currentPlayerId)
+    : absentIds[0];
+
+  useEffect(() => {
+    if (!view || !enabled || !targetId || !view.gameStarted || view.gameEnded) return;
+
+    const since = absentSince.current[targetId] ?? Date.now();
+    const delay = Math.max(0, since + graceSeconds * 1000 - Date.now());
+    const timer = setTimeout(() => resolveRef.current(targetId), delay);
+    return () => clearTimeout(timer);
+  }, [view, targetId, graceSeconds, enabled]);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from "react";
+import { Player } from "@/types/game";
+import { BOT_CATCH_DELAY_MS, BOT_DELAY_MS, BotTable, getWaitingBot } from "@/utils/bots";
+
+// Give the bot that has something to do a moment to "think", then let it act.
+// Catches wait longer so humans get a fair chance to call Mau Mau first.
+export function useBotPlayers(
+  state: BotTable | null,
+  act: (bot: Pick<Player, "id" | "name" | "bot">) => void,
+  enabled = true
+) {
+  const actRef = useRef(act);
+  actRef.current = act;
+
+  useEffect(() => {
+    if (!state || !enabled) return;
+
+    const bot = getWaitingBot(state);
+    if (!bot) return;
+
+    const catching = !!state.mauMauWindow && state.mauMauWindow !== bot.id;
+    const timer = setTimeout(() => actRef.current(bot), catching ? BOT_CATCH_DELAY_MS : BOT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state, enabled]);
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+import { TurnClock } from "@/types/game";
+import { getTurnDeadline } from "@/utils/turnClock";
+
+// A little past the deadline, so our clock isn't ahead of the one that checks it
+const SLACK_MS = 500;
+// The check may still refuse until the server's clock gets there too: ask again,
+// waiting twice as long each time, a few times at most
+const FIRST_RETRY_MS = 2000;
+const MAX_RETRIES = 3;
+
+// Report the running turn as timed out once its deadline has passed. Servers
+// expire turns themselves, so this only saves waiting for them to notice; after
+// a few refused reports we leave it to them.
+export function useTurnTimeout(clock: TurnClock | null, expire: () => void, enabled = true) {
+  const expireRef = useRef(expire);
+  expireRef.current = expire;
+
+  useEffect(() => {
+    if (!clock || !enabled) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const report = (retries: number, delay: number) => {
+      timer = setTimeout(() => {
+        expireRef.current();
+        if (retries < MAX_RETRIES) {
+          report(retries + 1, retries === 0 ? FIRST_RETRY_MS : delay * 2);
+        }
+      }, delay);
+    };
+    report(0, Math.max(0, getTurnDeadline(clock) - Date.now()) + SLACK_MS);
+
+    return () => clearTimeout(timer);
+  }, [clock, enabled]);
+}
@@ -48,13 +48,6 @@ export type Database = {
             referencedRelation: "games"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "cards_owner_id_fkey"
-            columns: ["owner_id"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
         ]
       }
       games: {
@@ -62,22 +55,40 @@ export type Database = {
           created_at: string | null
           finished_at: string | null
           id: string
+          initial_state: Json | null
+          match: Json | null
           room_id: string
           started_by: string | null
+          state: Json | null
+          take_back: Json | null
+          turn_clock: Json | null
+          version: number
         }
         Insert: {
           created_at?: string | null
           finished_at?: string | null
           id?: string
+          initial_state?: Json | null
+          match?: Json | null
           room_id: string
           started_by?: string | null
+          state?: Json | null
+          take_back?: Json | null
+          turn_clock?: Json | null
+          version?: number
         }
         Update: {
           created_at?: string | null
           finished_at?: string | null
           id?: string
+          initial_state?: Json | null
+          match?: Json | null
           room_id?: string
           started_by?: string | null
+          state?: Json | null
+          take_back?: Json | null
+          turn_clock?: Json | null
+          version?: number
         }
         Relationships: [
           {
@@ -137,27 +148,36 @@ export type Database = {
       }
       moves: {
         Row: {
+          action: Json | null
           card_id: string | null
           created_at: string | null
+          events: Json | null
           game_id: string | null
           id: string
           move_type: string | null
+          seq: number | null
           user_id: string | null
         }
         Insert: {
+          action?: Json | null
           card_id?: string | null
           created_at?: string | null
+          events?: Json | null
           game_id?: string | null
           id?: string
           move_type?: string | null
+          seq?: number | null
           user_id?: string | null
         }
         Update: {
+          action?: Json | null
           card_id?: string | null
           created_at?: string | null
+          events?: Json | null
           game_id?: string | null
           id?: string
           move_type?: string | null
+          seq?: number | null
           user_id?: string | null
         }
         Relationships: [
@@ -267,31 +287,43 @@ export type Database = {
       }
       rooms: {
         Row: {
+          absence: Json | null
+          bots: Json
           code: string
           created_at: string | null
           host_id: string | null
           id: string
           is_private: boolean | null
           max_players: number | null
+          rules: Json | null
           started_at: string | null
+          turn_timer: Json | null
         }
         Insert: {
+          absence?: Json | null
+          bots?: Json
           code: string
           created_at?: string | null
           host_id?: string | null
           id?: string
           is_private?: boolean | null
           max_players?: number | null
+          rules?: Json | null
           started_at?: string | null
+          turn_timer?: Json | null
         }
         Update: {
+          absence?: Json | null
+          bots?: Json
           code?: string
           created_at?: string | null
           host_id?: string | null
           id?: string
           is_private?: boolean | null
           max_players?: number | null
+          rules?: Json | null
           started_at?: string | null
+          turn_timer?: Json | null
         }
         Relationships: [
           {
@@ -326,10 +358,41 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      clock_now: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      deal_game: {
+        Args: { p_game: Json; p_cards: Json; p_seats: Json; p_move: Json }
+        Returns: undefined
+      }
       is_nickname_taken: {
         Args: { nickname: string }
         Returns: boolean
       }
+      overdue_turns: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          room_code: string
+          host_id: string
+        }[]
+      }
+      save_game_state: {
+        Args: {
+          p_game_id: string
+          p_version: number
+          p_state: Json
+          p_match: Json
+          p_take_back: Json
+          p_turn_clock: Json
+          p_finished: boolean
+          p_cards: Json
+          p_seats: Json
+          p_move?: Json
+          p_drop_move_seq?: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -63,6 +63,7 @@ export const translations = {
     browsePublicRooms: "Navegar salas públicas",
     players: "jogadores",
     privateRoom: "Sala Privada",
+    playLocal: "Jogar neste dispositivo",
   },
 
   // Waiting Room
@@ -95,6 +96,213 @@ export const translations = {
     newRound: "Nova Rodada",
     newGame: "Novo Jogo",
     finalRanking: "Classificação Final",
+    pass: "Passar",
+    invalidMove: "Jogada inválida",
+    undo: "Desfazer",
+    requestTakeBack: "Pedir para desfazer",
+    takeBackRequested: (name: string) => `${name} pediu para desfazer a última jogada.`,
+    takeBackWaiting: "Aguardando aprovação para desfazer...",
+    approve: "Aprovar",
+    decline: "Recusar",
+  },
+
+  // Special card rules (setup screen)
+  rules: {
+    title: "Cartas Especiais",
+    preset: "Conjunto de Regras",
+    presets: {
+      house: "Regras da Casa",
+      classic: "Mau Mau Clássico",
+      custom: "Personalizado",
+    },
+    effects: {
+      none: "Nenhum",
+      draw: "Próximo compra",
+      skip: "Pula a vez",
+      reverse: "Inverte a direção",
+      previous_draws: "Anterior compra",
+      play_again: "Joga de novo",
+      wish_suit: "Pede naipe",
+    },
+    cardCount: "Cartas",
+    stackable: "Acumula",
+    presetName: "Nome do conjunto",
+    savePreset: "Salvar",
+    deletePreset: "Excluir",
+    others: "Regras Especiais",
+    bluffing: "Habilitar Blefe",
+    bluffingHint: "Jogue cartas viradas e arrisque ser desafiado",
+    bluffingOn: "Com blefe",
+    mauMau: "Regra do \"Mau Mau\"",
+    mauMauHint: "Jogador deve dizer \"Mau Mau\" ao ter 1 carta",
+    autoCheck: "Verificação Automática",
+    autoCheckHint: "Sistema verifica automaticamente",
+    mauMauOn: "Mau Mau verificado automaticamente",
+    mauMauCatch: "Mau Mau: os outros podem pegar quem esquecer",
+  },
+
+  // Match (several rounds)
+  match: {
+    title: "Partida",
+    initialScore: "Pontuação Inicial",
+    startingScore: (score: number) => `Começa com ${score} pontos`,
+    roundCount: (rounds: number) => `${rounds} ${rounds === 1 ? "rodada" : "rodadas"}`,
+    end: "Fim da partida",
+    ends: {
+      last_standing: "Até sobrar um jogador",
+      rounds: "Número de rodadas",
+      score: "Pontuação limite",
+    },
+    rounds: "Rodadas",
+    threshold: "Termina quando alguém chegar a",
+    round: (round: number) => `Rodada ${round}`,
+    roundWinner: "Venceu a rodada",
+    matchWinner: "Vencedor da partida",
+    scoreboard: "Placar",
+    player: "Jogador",
+    total: "Total",
+    matchOver: "Fim da Partida",
+  },
+
+  // Computer opponents
+  bots: {
+    seat: "Controle",
+    human: "Humano",
+    difficulties: {
+      easy: "Bot fácil",
+      medium: "Bot médio",
+      hard: "Bot difícil",
+    },
+    addBot: "Adicionar bot",
+    thinking: (name: string) => `${name} está pensando...`,
+  },
+
+  // Who is connected, and what happens to those who drop out mid-game
+  presence: {
+    online: "Conectado",
+    away: "Ausente",
+    offline: "Desconectado",
+    absencePolicy: "Se alguém cair",
+    policies: {
+      auto_draw: "Compra e passa a vez",
+      bot: "Um bot assume",
+      forfeit: "Abandona a partida",
+    },
+    graceSeconds: (seconds: number) => `Após ${seconds}s`,
+  },
+
+  // How long a turn may take, and what happens when it runs out
+  turnTimer: {
+    title: "Tempo por jogada",
+    turnOf: (name: string) => `Vez de ${name}`,
+    bank: "Banco de tempo",
+    seconds: (seconds: number) => seconds === 0 ? "Sem limite" : `${seconds}s por jogada`,
+    bankSeconds: (seconds: number) => seconds === 0 ? "Sem banco de tempo" : `Banco de ${seconds}s`,
+    policies: {
+      draw: "Compra uma carta",
+      pass: "Passa a vez",
+      play_first: "Joga a primeira carta válida",
+    },
+  },
+
+  // Pass-and-play between turns
+  handoff: {
+    title: (name: string) => `Passe o aparelho para ${name}`,
+    hidden: "As cartas ficam escondidas até a próxima pessoa tocar para ver.",
+    sinceLastTurn: "Desde a sua última vez",
+    nothingNew: "Nada de novo.",
+    pin: "PIN",
+    pinPlaceholder: "PIN (opcional)",
+    wrongPin: "PIN incorreto",
+    reveal: "Mostrar minha mão",
+  },
+  savedGames: {
+    title: "Jogos salvos",
+    resumeTitle: "Continuar jogo?",
+    resumePrompt: (players: string, round: number) => `Há um jogo em andamento com ${players} (rodada ${round}).`,
+    resume: "Continuar",
+    dismiss: "Agora não",
+    delete: "Excluir",
+    export: "Exportar JSON",
+    replay: "Ver replay",
+    round: (round: number) => `Rodada ${round}`,
+    finished: "Partida encerrada",
+    saveFailed: "Não foi possível salvar o jogo neste navegador",
+  },
+  replay: {
+    title: "Replay",
+    watch: "Ver replay",
+    round: (round: number) => `Rodada ${round}`,
+    step: (step: number, total: number) => `Jogada ${step} de ${total}`,
+    dealt: "Cartas distribuídas.",
+    hands: "Mãos",
+    first: "Início",
+    previous: "Anterior",
+    next: "Próxima",
+    last: "Fim",
+    back: "Voltar",
+    notFound: "Jogo não encontrado",
+  },
+
+  // Deck composition (setup screen)
+  deck: {
+    title: "Baralho",
+    preset: "Tipo de Baralho",
+    presets: {
+      full: "Dois baralhos completos",
+      skat: "Baralho de Skat (7 a A)",
+      custom: "Personalizado",
+    },
+    ranks: "Cartas incluídas",
+    deckCount: "Cópias do baralho",
+    jokerCount: "Curingas",
+    preview: (size: number, handSize: number, drawPile: number) =>
+      `${size} cartas: ${handSize} por jogador, ${drawPile} no monte`,
+    tooSmall: "Baralho pequeno demais para tantos jogadores",
+    size: (size: number) => `${size} cartas`,
+  },
+
+  // Card names
+  cards: {
+    suits: {
+      hearts: "copas",
+      diamonds: "ouros",
+      clubs: "paus",
+      spades: "espadas",
+      joker: "curinga",
+    },
+    joker: "Curinga",
+  },
+
+  // Game log (one line per engine event)
+  events: {
+    roundStarted: (name: string) => `O jogo começou! ${name} começa.`,
+    cardPlayed: (name: string, card: string) => `${name} jogou ${card}.`,
+    cardDrawn: (name: string) => `${name} comprou uma carta.`,
+    penaltyDrawn: (name: string, count: number) => `${name} comprou ${count} cartas de penalidade.`,
+    specialDrawn: (name: string, count: number) => `${name} comprou ${count} ${count === 1 ? "carta" : "cartas"}!`,
+    deckReshuffled: "O monte foi reembaralhado.",
+    playerSkipped: (name: string) => `${name} perdeu a vez!`,
+    directionChanged: "Direção do jogo invertida!",
+    drawStacked: (name: string, total: number) => `${name} deve comprar ${total} cartas!`,
+    suitWished: (name: string, suit: string) => `${name} pediu ${suit}.`,
+    extraTurn: (name: string) => `${name} joga novamente!`,
+    cardBluffed: (name: string, card: string) => `${name} jogou uma carta virada dizendo ser ${card}.`,
+    bluffCaught: (name: string, target: string, card: string) =>
+      `${name} desafiou ${target}: era blefe (${card})!`,
+    challengeFailed: (name: string, target: string, card: string) =>
+      `${name} desafiou ${target}, mas a carta era mesmo ${card}.`,
+    mauMauSaid: (name: string) => `${name} disse Mau Mau!`,
+    mauMauForgotten: (name: string) => `${name} esqueceu de dizer Mau Mau!`,
+    mauMauCaught: (name: string, target: string) => `${name} pegou ${target} sem dizer Mau Mau!`,
+    falseCatch: (name: string, target: string) => `${name} acusou ${target} à toa e compra a penalidade.`,
+    turnPassed: (name: string) => `${name} passou a vez.`,
+    turnTimedOut: (name: string) => `O tempo de ${name} acabou.`,
+    roundWon: (name: string) => `${name} venceu a rodada!`,
+    moveTakenBack: (name: string) => `A última jogada de ${name} foi desfeita.`,
+    seatTakenOver: (name: string) => `Um bot assumiu o lugar de ${name}.`,
+    seatReclaimed: (name: string) => `${name} voltou à mesa.`,
+    playerForfeited: (name: string) => `${name} abandonou a partida.`,
   },
 
   // Messages & Toasts
@@ -114,8 +322,11 @@ export const translations = {
     gameStartedByHost: "O jogo foi iniciado pelo anfitrião da sala.",
     disconnected: "Desconectado",
     connectionLost: "Conexão com o servidor de jogo perdida",
+    reconnecting: "Reconectando…",
     roomDeleted: "Sala removida",
     roomNoLongerExists: "A sala não existe mais",
+    moveRejected: "Jogada recusada",
+    tableChanged: "A mesa mudou antes da sua jogada.",
   },
 };
 
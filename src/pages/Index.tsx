@@ -1,25 +1,39 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import PlayerSetup from "@/components/PlayerSetup";
 import GameBoard from "@/components/GameBoard";
 import GameOver from "@/components/GameOver";
-import { Card, Direction, GameState, Player, GameSettings } from "@/types/game";
-import { 
-  createDeck, 
-  shuffleDeck, 
-  dealCards, 
-  isValidMove,
-  getNextPlayerIndex,
-  findWinner,
-  handleSpecialCard,
-  checkMauMauStatus,
-  drawCardsFromDeck,
-  calculateScores,
-  getDefaultGameSettings
-} from "@/utils/gameUtils";
+import HandoffScreen from "@/components/HandoffScreen";
+import TakeBackPrompt from "@/components/TakeBackPrompt";
+import SavedGames from "@/components/SavedGames";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Card, GameAction, GameEvent, GameHistory, GameState, GameSettings, Match, Player, Suit } from "@/types/game";
+import { applyAction, describeEvent, getInitialGameState } from "@/utils/gameEngine";
+import { createMatch, recordRound, startMatchRound } from "@/utils/match";
+import { UNDO_LIMIT, appendHistory, createHistory, getUndoPoint, replayHistory, truncateHistory } from "@/utils/history";
+import { chooseBotAction } from "@/utils/bots";
+import { getPlayerView } from "@/utils/playerView";
+import { useBotPlayers } from "@/hooks/use-bot-players";
+import { useAbsentPlayers } from "@/hooks/use-absent-players";
+import { useTurnTimeout } from "@/hooks/use-turn-timeout";
+import { Button } from "@/components/ui/button";
+import { Undo2 } from "lucide-react";
+import { MAU_MAU_WINDOW_SECONDS, getDefaultGameSettings, getTimeoutAction } from "@/utils/gameUtils";
+import { SavedGame, getSavedRound, isSavedGameFinished, savedGameService } from "@/services/savedGameService";
 
 // Import multiplayer components
 import { useMultiplayer } from "@/contexts/MultiplayerContext";
+import translations from "@/localization/pt-BR";
 import PlayerLogin from "@/components/PlayerLogin";
 import Lobby from "@/components/Lobby";
 import WaitingRoom from "@/components/WaitingRoom";
@@ -29,316 +43,358 @@ import Chat from "@/components/Chat";
 // Define multiplayer game state
 const Index = () => {
   const { toast } = useToast();
-  const [gameState, setGameState] = useState<GameState>({
-    players: [],
-    currentPlayerIndex: 0,
-    deck: [],
-    discardPile: [],
-    direction: "clockwise",
-    gameStarted: false,
-    gameEnded: false,
-    winner: null,
-    lastAction: "",
-    settings: getDefaultGameSettings()
-  });
+  const navigate = useNavigate();
+  const [gameState, setGameState] = useState<GameState>(getInitialGameState());
+  const [match, setMatch] = useState<Match | null>(null);
+  const [history, setHistory] = useState<GameHistory[]>([]); // One per round of the match
+  const [undoCount, setUndoCount] = useState(0); // Undos in a row since the last action
+  
+  // Pass-and-play: PINs from setup, whose hand is currently revealed,
+  // and the round's events with how far each player has read them
+  const [pins, setPins] = useState<Record<string, string>>({});
+  const [revealedFor, setRevealedFor] = useState<string | null>(null);
+  const [eventLog, setEventLog] = useState<GameEvent[]>([]);
+  const [lastSeen, setLastSeen] = useState<Record<string, number>>({});
+  
+  // Local games are snapshotted to IndexedDB so a reload can pick them up again
+  const [savedGameId, setSavedGameId] = useState<string | null>(null);
+  const [savedGames, setSavedGames] = useState<SavedGame[]>([]);
+  const [resumePrompt, setResumePrompt] = useState<SavedGame | null>(null);
   
   const { 
+    status: connectionStatus,
     isAuthenticated, 
-    currentRoom
+    currentRoom,
+    gameView: onlineGameView,
+    returningCardIds,
+    gameId: onlineGameId,
+    match: onlineMatch,
+    playCard: playOnlineCard,
+    bluffCard: bluffOnlineCard,
+    challengeBluff: challengeOnlineBluff,
+    drawCard: drawOnlineCard,
+    passTurn: passOnlineTurn,
+    sayMauMau: sayOnlineMauMau,
+    catchMauMau: catchOnlineMauMau,
+    closeMauMauWindow: closeOnlineMauMauWindow,
+    playBotTurn: playOnlineBotTurn,
+    takeBack: onlineTakeBack,
+    turnClock,
+    presence,
+    resolveAbsence,
+    expireTurn,
+    reclaimSeat,
+    requestTakeBack,
+    answerTakeBack,
+    startGame: startOnlineGame,
+    leaveRoom
   } = useMultiplayer();
   
   // Timer state
   const [isTimerActive, setIsTimerActive] = useState(false);
-  const turnDuration = 30; // seconds
+  const [isPlayingLocal, setIsPlayingLocal] = useState(false);
+  // Seconds per turn; no timer at 0
+  const turnDuration = (gameState.settings?.turnTimer ?? getDefaultGameSettings().turnTimer).seconds;
   
   // Initialize the game with players
-  const startGame = (players: { id: string, name: string }[], settings: GameSettings) => {
-    // Create players with initial score from settings
-    const initialPlayers: Player[] = players.map(player => ({
-      ...player,
-      cards: [],
-      score: settings.initialScore,
-      saidMauMau: false,
-      isEliminated: false,
-    }));
-    
-    // Create and shuffle the deck, including jokers if enabled
-    let deck = createDeck(settings.enableJokers);
-    deck = shuffleDeck(deck);
-    
-    // Deal cards to players
-    const { updatedPlayers, updatedDeck } = dealCards(initialPlayers, deck);
-    
-    // Place the first card on the discard pile
-    const firstCard = updatedDeck.pop()!;
-    
-    setGameState({
-      players: updatedPlayers,
-      currentPlayerIndex: 0,
-      deck: updatedDeck,
-      discardPile: [firstCard],
-      direction: "clockwise",
-      gameStarted: true,
-      gameEnded: false,
-      winner: null,
-      lastAction: `The game has started! ${updatedPlayers[0].name} goes first.`,
-      settings
-    });
+  const startGame = (
+    players: Pick<Player, "id" | "name" | "bot">[],
+    settings: GameSettings,
+    playerPins: Record<string, string>
+  ) => {
+    const newMatch = createMatch(players, settings);
+    setMatch(newMatch);
+    setPins(playerPins);
+    resetHandoff();
+    setSavedGameId(savedGameService.createId());
+    const state = startMatchRound(newMatch);
+    setGameState(state);
+    setHistory([createHistory(state)]);
     
     // Start turn timer for first player
     setIsTimerActive(true);
   };
   
-  // Handle playing a card from the player's hand
-  const handlePlayCard = (cardToPlay: Card) => {
-    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-    const topCard = gameState.discardPile[gameState.discardPile.length - 1];
-    
-    // Check if the move is valid (considering bluffing option)
-    if (!isValidMove(cardToPlay, topCard, gameState.settings.enableBluffing)) {
+  // Play a sound, ignoring browsers that block autoplay
+  const playSound = (src: string) => {
+    try {
+      const sound = new Audio(src);
+      sound.play().catch(e => console.log("Audio play prevented:", e));
+    } catch (e) {
+      console.log("Sound error:", e);
+    }
+  };
+  
+  // Feedback for the events an action produced
+  const announceEvents = (events: GameEvent[], state: GameState) => {
+    for (const event of events) {
+      const player = "playerId" in event 
+        ? state.players.find(p => p.id === event.playerId) 
+        : undefined;
+      
+      switch (event.type) {
+        case "mau_mau_said":
+          playSound("/mau-mau-sound.mp3");
+          toast({
+            title: "Mau Mau!",
+            description: translations.events.mauMauSaid(player?.name ?? ""),
+            className: "bg-indigo-600/80"
+          });
+          break;
+        case "mau_mau_penalty":
+          toast({
+            title: translations.events.mauMauForgotten(player?.name ?? ""),
+            description: translations.events.penaltyDrawn(player?.name ?? "", 2),
+            variant: "destructive"
+          });
+          break;
+        case "mau_mau_caught":
+        case "false_catch":
+          toast({
+            title: event.type === "mau_mau_caught" ? "Pego!" : "Acusação falsa!",
+            description: describeEvent(event, state.players),
+            variant: "destructive"
+          });
+          break;
+        case "claim_challenged":
+          toast({
+            title: event.bluffed ? "Blefe descoberto!" : "Não era blefe!",
+            description: describeEvent(event, state.players),
+            variant: event.bluffed ? "default" : "destructive"
+          });
+          break;
+        case "turn_timed_out":
+          toast({
+            title: translations.events.turnTimedOut(player?.name ?? ""),
+            description: "",
+            variant: "destructive"
+          });
+          break;
+        case "round_won":
+          toast({
+            title: translations.events.roundWon(player?.name ?? ""),
+            description: "",
+          });
+          break;
+        case "move_taken_back":
+          toast({
+            title: translations.game.undo,
+            description: describeEvent(event, state.players),
+          });
+          break;
+      }
+    }
+  };
+  
+  // Run a local action through the rules engine
+  const dispatch = (action: GameAction) => {
+    let result: { state: GameState; events: GameEvent[] };
+    try {
+      result = applyAction(gameState, action);
+    } catch (error) {
       toast({
-        title: "Invalid move",
-        description: "This card cannot be played now.",
+        title: translations.game.invalidMove,
+        description: error instanceof Error ? error.message : "",
         variant: "destructive",
       });
       return;
     }
     
-    // Check if player forgot to say Mau Mau when having 1 card
-    const mauMauCheck = checkMauMauStatus(
-      currentPlayer, 
-      currentPlayer.saidMauMau, 
-      gameState.settings.enableMauMauRule
-    );
-    
-    let updatedPlayers = [...gameState.players];
-    let updatedDeck = [...gameState.deck];
-    let updatedDiscardPile = [...gameState.discardPile];
-    let lastAction = "";
-    
-    // Apply Mau Mau penalty if necessary and rule is enabled
-    if (mauMauCheck.shouldPenalize && !gameState.settings.autoCheckMauMau) {
-      // Player forgot to say Mau Mau, draw 2 penalty cards
-      const { drawnCards, updatedDeck: newDeck } = 
-        drawCardsFromDeck(updatedDeck, updatedDiscardPile, 2);
-      
-      updatedPlayers[gameState.currentPlayerIndex].cards.push(...drawnCards);
-      updatedDeck = newDeck;
-      lastAction = mauMauCheck.message;
-      
-      toast({
-        title: "Forgot to say Mau Mau!",
-        description: "+2 penalty cards.",
-        variant: "destructive"
-      });
+    setGameState(result.state);
+    setEventLog(log => [...log, ...result.events]);
+    setHistory(rounds => [...rounds.slice(0, -1), appendHistory(rounds[rounds.length - 1], action, result.events)]);
+    setUndoCount(0);
+    if (result.state.gameEnded) {
+      setMatch(current => current && recordRound(current, result.state));
     }
-    
-    // Remove the played card from player's hand
-    updatedPlayers[gameState.currentPlayerIndex].cards = 
-      updatedPlayers[gameState.currentPlayerIndex].cards.filter(card => card.id !== cardToPlay.id);
-    
-    // Add the played card to the discard pile
-    updatedDiscardPile.push(cardToPlay);
-    
-    // Check if the player has won
-    const winner = updatedPlayers[gameState.currentPlayerIndex].cards.length === 0 
-      ? updatedPlayers[gameState.currentPlayerIndex].id
-      : null;
-    
-    // Initialize the updated state
-    let updatedState: GameState = {
-      ...gameState,
-      players: updatedPlayers,
-      deck: updatedDeck,
-      discardPile: updatedDiscardPile,
-      winner,
-      gameEnded: !!winner,
-      lastAction: lastAction || `${currentPlayer.name} played ${cardToPlay.rank} of ${cardToPlay.suit}.`
-    };
-    
-    // Reset timer
-    setIsTimerActive(false);
-    
-    // If no winner yet, apply special card effects
-    if (!winner) {
-      // Handle special card effects
-      updatedState = handleSpecialCard(cardToPlay, updatedState);
-      
-      // Reset "said Mau Mau" status for all players
-      updatedState.players = updatedState.players.map(player => ({
-        ...player,
-        saidMauMau: false
-      }));
-      
-      // Activate timer for next player
-      setTimeout(() => {
-        setIsTimerActive(true);
-      }, 500);
-    } else {
-      // Calculate final scores if game ended
-      updatedState.players = calculateScores(updatedState.players, winner);
-      updatedState.lastAction = `${currentPlayer.name} won the round!`;
-      
-      toast({
-        title: "Round Over!",
-        description: `${currentPlayer.name} won!`,
-      });
+    announceEvents(result.events, result.state);
+    
+    // Restart the timer for whoever plays next (or the same player after a playable draw)
+    if (!["say_mau_mau", "catch_mau_mau", "close_mau_mau_window"].includes(action.type)) {
+      setIsTimerActive(false);
+      if (!result.state.gameEnded) {
+        setTimeout(() => {
+          setIsTimerActive(true);
+        }, 500);
+      }
     }
-    
-    setGameState(updatedState);
+  };
+  
+  const currentPlayerId = () => gameState.players[gameState.currentPlayerIndex].id;
+  
+  // Handle playing a card from the player's hand
+  const handlePlayCard = (cardToPlay: Card, wishedSuit?: Suit) => {
+    dispatch({ type: "play", playerId: currentPlayerId(), cardId: cardToPlay.id, wishedSuit });
+  };
+  
+  // Handle playing a card face down (bluff rule)
+  const handleBluff = (cardToPlay: Card, claimed: Pick<Card, "suit" | "rank">) => {
+    dispatch({ type: "bluff", playerId: currentPlayerId(), cardId: cardToPlay.id, claimed });
+  };
+  
+  // Handle challenging the face-down card
+  const handleChallenge = () => {
+    dispatch({ type: "challenge", playerId: currentPlayerId() });
   };
   
   // Handle drawing a card
   const handleDrawCard = () => {
-    const { drawnCards, updatedDeck, updatedDiscardPile, reshuffled } = 
-      drawCardsFromDeck(gameState.deck, gameState.discardPile, 1);
-    
-    if (drawnCards.length === 0) {
-      toast({
-        title: "No more cards",
-        description: "All cards have been dealt.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    // Add the drawn card to the player's hand
-    const updatedPlayers = [...gameState.players];
-    updatedPlayers[gameState.currentPlayerIndex].cards.push(...drawnCards);
-    
-    // Check if player can play the drawn card
-    const topCard = gameState.discardPile[gameState.discardPile.length - 1];
-    const drawnCard = drawnCards[0];
-    const canPlayDrawnCard = isValidMove(drawnCard, topCard, gameState.settings.enableBluffing);
+    dispatch({ type: "draw", playerId: currentPlayerId() });
+  };
+  
+  // Handle passing after a draw
+  const handlePass = () => {
+    dispatch({ type: "pass", playerId: currentPlayerId() });
+  };
+  
+  // Handle saying Mau Mau (on your turn, or right after dropping to one card)
+  const handleSayMauMau = (playerId: string) => {
+    dispatch({ type: "say_mau_mau", playerId });
+  };
+  
+  // With a single human at the table their hand stays on screen, even on bot turns
+  const localHumans = gameState.players.filter(player => !player.bot);
+  const localViewerId = localHumans.length === 1 ? localHumans[0].id : undefined;
+  
+  // Sharing the device: the player on turn holds it, unless a bot is playing
+  const localHandPlayerId = () => {
+    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+    return currentPlayer.bot ? null : currentPlayer.id;
+  };
+  
+  // Hot-seat hands stay hidden until the next person takes the device and reveals them
+  const isHotSeat = localHumans.length > 1;
+  const handoffPlayerId = isHotSeat && gameState.gameStarted && !gameState.gameEnded
+    ? localHandPlayerId()
+    : null;
+  const awaitingHandoff = !!handoffPlayerId && handoffPlayerId !== revealedFor;
+  
+  const resetHandoff = () => {
+    setRevealedFor(null);
+    setEventLog([]);
+    setLastSeen({});
+  };
+  
+  const handleReveal = (playerId: string) => {
+    setRevealedFor(playerId);
+    setLastSeen(seen => ({ ...seen, [playerId]: eventLog.length }));
+  };
+  
+  // Undo: take back the latest move a person made (and what bots did after it),
+  // a few times in a row, as long as no hidden card has been seen since
+  const currentRound = history[history.length - 1];
+  const undoPoint = currentRound && !gameState.gameEnded && undoCount < UNDO_LIMIT
+    ? getUndoPoint(currentRound, playerId => !gameState.players.find(player => player.id === playerId)?.bot)
+    : null;
+  const undoPlayerId = undoPoint !== null ? currentRound.entries[undoPoint].action.playerId : null;
+  // Sharing the device, only whoever made the move may take it back
+  const canUndo = !!undoPlayerId && (!isHotSeat || revealedFor === undoPlayerId);
+  
+  const handleUndo = () => {
+    if (undoPoint === null || !undoPlayerId) return;
     
-    // Only move to the next player if the player can't play the drawn card
-    let nextPlayerIndex = gameState.currentPlayerIndex;
-    let lastAction = `${gameState.players[gameState.currentPlayerIndex].name} drew a card.`;
+    const round = truncateHistory(currentRound, undoPoint);
+    const states = replayHistory(round);
+    const state = states[states.length - 1];
     
-    if (reshuffled) {
-      lastAction += " The deck was reshuffled.";
-    }
+    setGameState(state);
+    setHistory(rounds => [...rounds.slice(0, -1), round]);
+    setEventLog(round.entries.flatMap(entry => entry.events));
+    setUndoCount(count => count + 1);
+    announceEvents([{ type: "move_taken_back", playerId: undoPlayerId }], state);
     
-    // Reset timer
     setIsTimerActive(false);
-    
-    if (!canPlayDrawnCard) {
-      nextPlayerIndex = getNextPlayerIndex(
-        gameState.currentPlayerIndex,
-        gameState.direction,
-        gameState.players.length
-      );
-      
-      // Reset "said Mau Mau" status for all players
-      updatedPlayers.forEach(player => player.saidMauMau = false);
-      
-      // Activate timer for next player after a short delay
-      setTimeout(() => {
-        setIsTimerActive(true);
-      }, 500);
-    } else {
-      toast({
-        title: "You can play this card",
-        description: "The drawn card can be played this round."
-      });
-      
-      // Keep timer active for current player if they can play
-      setTimeout(() => {
-        setIsTimerActive(true);
-      }, 500);
-    }
-    
-    setGameState({
-      ...gameState,
-      players: updatedPlayers,
-      deck: updatedDeck,
-      discardPile: updatedDiscardPile,
-      currentPlayerIndex: nextPlayerIndex,
-      lastAction
-    });
+    setTimeout(() => {
+      setIsTimerActive(true);
+    }, 500);
   };
   
-  // Handle saying Mau Mau
-  const handleSayMauMau = () => {
-    const updatedPlayers = [...gameState.players];
-    updatedPlayers[gameState.currentPlayerIndex].saidMauMau = true;
-    
-    // Play a sound when Mau Mau is said
-    try {
-      const mauMauSound = new Audio("/mau-mau-sound.mp3");
-      mauMauSound.play().catch(e => console.log("Audio play prevented:", e));
-    } catch (e) {
-      console.log("Sound error:", e);
+  // The previous player may still be holding the device when they remember to call Mau Mau
+  const mauMauTarget = gameState.players.find(player => player.id === gameState.mauMauWindow && !player.bot);
+  const mauMauCaller = mauMauTarget && {
+    name: mauMauTarget.name,
+    onSay: () => handleSayMauMau(mauMauTarget.id),
+  };
+  
+  // Handle the player holding the device catching an opponent
+  const handleCatchMauMau = (targetId: string) => {
+    dispatch({ type: "catch_mau_mau", playerId: localViewerId ?? currentPlayerId(), targetId });
+  };
+  
+  // Local bots act through the same engine actions as everyone else
+  useBotPlayers(isPlayingLocal ? gameState : null, bot => {
+    const action = chooseBotAction(gameState, bot.id);
+    if (action) {
+      dispatch(action);
     }
+  });
+  
+  // Online, the host's browser plays for the room's bots
+  // Who we are at the online table, as the backend knows us (not always the Supabase user)
+  const onlineViewerId = onlineGameView?.viewerId ?? null;
+  const isOnlineHost = !!currentRoom && !!onlineViewerId && currentRoom.creatorId === onlineViewerId;
+  useBotPlayers(onlineGameView, bot => playOnlineBotTurn(bot.id), isOnlineHost);
+  
+  // ...and deals with anyone who dropped out, once their grace period is over
+  useAbsentPlayers(onlineGameView, presence, resolveAbsence, isOnlineHost);
+  
+  // ...and reports turns that ran out of time, for servers that don't time them themselves
+  useTurnTimeout(turnClock, expireTurn, isOnlineHost);
+  
+  // Back after a bot took over our seat: take it back
+  const isSeatTakenOver = !!onlineGameView?.players.find(player => player.id === onlineViewerId)?.bot &&
+    !!onlineMatch?.players.some(player => player.id === onlineViewerId && !player.bot);
+  useEffect(() => {
+    if (isSeatTakenOver && !onlineGameView?.gameEnded) {
+      reclaimSeat();
+    }
+  }, [isSeatTakenOver, onlineGameView?.gameEnded, reclaimSeat]);
+  
+  // Close the local catch window once its time is up. The latest dispatch is
+  // used so the closing goes on the history after whatever happened meanwhile.
+  const dispatchRef = useRef(dispatch);
+  dispatchRef.current = dispatch;
+  useEffect(() => {
+    const target = gameState.mauMauWindow;
+    if (!target || gameState.gameEnded) return;
     
-    toast({
-      title: "Mau Mau!",
-      description: `${updatedPlayers[gameState.currentPlayerIndex].name} said Mau Mau!`,
-      className: "bg-indigo-600/80"
-    });
+    const timer = setTimeout(() => {
+      dispatchRef.current({ type: "close_mau_mau_window", playerId: target });
+    }, MAU_MAU_WINDOW_SECONDS * 1000);
     
-    setGameState({
-      ...gameState,
-      players: updatedPlayers,
-      lastAction: `${updatedPlayers[gameState.currentPlayerIndex].name} said Mau Mau!`
-    });
-  };
+    return () => clearTimeout(timer);
+  }, [gameState.mauMauWindow, gameState.gameEnded]);
+  
+  // Online, the player on turn (the host, for bots) reports that the catch window is over
+  useEffect(() => {
+    if (!onlineGameView?.mauMauWindow || onlineGameView.gameEnded) return;
+    const playerOnTurn = onlineGameView.players[onlineGameView.currentPlayerIndex];
+    if (playerOnTurn?.id !== onlineViewerId && !(playerOnTurn?.bot && isOnlineHost)) return;
+    
+    const timer = setTimeout(closeOnlineMauMauWindow, MAU_MAU_WINDOW_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [onlineGameView?.mauMauWindow, onlineGameView?.gameEnded, onlineGameView?.currentPlayerIndex, onlineGameView?.players, onlineViewerId, isOnlineHost, closeOnlineMauMauWindow]);
   
   // Handle turn timeout
   const handleTurnTimeout = () => {
-    toast({
-      title: "Time's up!",
-      description: `${gameState.players[gameState.currentPlayerIndex].name}'s turn has ended.`,
-      variant: "destructive"
-    });
-    
-    // Automatically draw a card when the timer expires
-    handleDrawCard();
+    dispatch(getTimeoutAction(gameState));
   };
   
   // Restart with same players
   const handleRestartGame = () => {
-    // Keep the same players but reset cards and adjust scores
-    const updatedPlayers: Player[] = gameState.players.map(player => ({
-      ...player,
-      cards: [],
-      saidMauMau: false,
-      isEliminated: player.score <= 0,
-    }));
-    
-    // Filter out eliminated players
-    const activePlayers = updatedPlayers.filter(player => !player.isEliminated);
-    
-    if (activePlayers.length < 2) {
+    // The match decides who is still in and who deals first
+    if (!match || match.winnerId) {
       toast({
-        title: "Game over!",
-        description: "Not enough players to continue.",
+        title: translations.match.matchOver,
+        description: translations.game.newGame,
       });
       return;
     }
     
-    // Create and shuffle the deck, considering jokers setting
-    let deck = createDeck(gameState.settings.enableJokers);
-    deck = shuffleDeck(deck);
-    
-    // Deal cards to players
-    const { updatedPlayers: playersWithCards, updatedDeck } = dealCards(activePlayers, deck);
-    
-    // Place the first card on the discard pile
-    const firstCard = updatedDeck.pop()!;
-    
-    setGameState({
-      players: playersWithCards,
-      currentPlayerIndex: 0,
-      deck: updatedDeck,
-      discardPile: [firstCard],
-      direction: "clockwise",
-      gameStarted: true,
-      gameEnded: false,
-      winner: null,
-      lastAction: "New round started!",
-      settings: gameState.settings
-    });
+    resetHandoff();
+    const state = startMatchRound(match);
+    setGameState(state);
+    setHistory(rounds => [...rounds, createHistory(state)]);
     
     // Start turn timer for first player
     setIsTimerActive(true);
@@ -346,20 +402,78 @@ const Index = () => {
   
   // Start a completely new game
   const handleNewGame = () => {
-    setGameState({
-      players: [],
-      currentPlayerIndex: 0,
-      deck: [],
-      discardPile: [],
-      direction: "clockwise",
-      gameStarted: false,
-      gameEnded: false,
-      winner: null,
-      lastAction: "",
-      settings: getDefaultGameSettings()
-    });
+    setGameState(getInitialGameState());
+    setMatch(null);
+    setHistory([]);
+    setPins({});
+    resetHandoff();
+    setSavedGameId(null);
+    setIsPlayingLocal(false);
+    refreshSavedGames();
   };
   
+  const refreshSavedGames = () =>
+    savedGameService.list()
+      .then(games => {
+        setSavedGames(games);
+        return games;
+      })
+      .catch(error => {
+        console.error("Error loading saved games:", error);
+        return [];
+      });
+  
+  // Pick a saved game back up exactly where it was left
+  const handleResumeGame = (game: SavedGame) => {
+    resetHandoff();
+    setGameState(game.state);
+    setMatch(game.match);
+    setHistory(game.history);
+    setPins(game.pins);
+    setEventLog(game.eventLog);
+    setSavedGameId(game.id);
+    setResumePrompt(null);
+    setIsPlayingLocal(true);
+    setIsTimerActive(!game.state.gameEnded);
+  };
+  
+  const handleDeleteSavedGame = (game: SavedGame) => {
+    savedGameService.remove(game.id)
+      .catch(error => console.error("Error deleting saved game:", error))
+      .then(refreshSavedGames);
+  };
+  
+  // Offer to resume the most recent unfinished game after a reload
+  useEffect(() => {
+    refreshSavedGames().then(games => {
+      setResumePrompt(games.find(game => !isSavedGameFinished(game)) ?? null);
+    });
+  }, []);
+  
+  // Snapshot the local game after every action
+  useEffect(() => {
+    if (!savedGameId || !gameState.gameStarted) return;
+    
+    savedGameService.save({
+      id: savedGameId,
+      savedAt: new Date().toISOString(),
+      state: gameState,
+      match,
+      history,
+      pins,
+      eventLog,
+    }).catch(error => {
+      console.error("Error saving game:", error);
+      toast({
+        title: translations.savedGames.saveFailed,
+        description: error instanceof Error ? error.message : "",
+        variant: "destructive",
+      });
+      // Don't repeat the error on every move
+      setSavedGameId(null);
+    });
+  }, [savedGameId, gameState, match, history, pins, eventLog, toast]);
+  
   // Load sound effects when game starts
   useEffect(() => {
     // Preload sounds
@@ -375,19 +489,6 @@ const Index = () => {
     });
   }, []);
   
-  // Auto-check for Mau Mau status at the end of each turn
-  useEffect(() => {
-    if (!gameState.gameStarted || gameState.gameEnded || !gameState.settings.enableMauMauRule || !gameState.settings.autoCheckMauMau) {
-      return;
-    }
-    
-    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-    if (currentPlayer.cards.length === 1 && !currentPlayer.saidMauMau) {
-      // Automatically apply Mau Mau when auto-check is enabled
-      handleSayMauMau();
-    }
-  }, [gameState.currentPlayerIndex, gameState.gameStarted, gameState.settings]);
-  
   // Render the appropriate component based on authentication and game state
   const renderContent = () => {
     // If player isn't authenticated, show login
@@ -404,13 +505,15 @@ const Index = () => {
           players={gameState.players}
           onRestartGame={handleRestartGame}
           onNewGame={handleNewGame}
+          match={match}
+          onReplay={savedGameId ? () => navigate(`/replay/local/${savedGameId}`) : undefined}
         />
       );
     }
     
     // If player is authenticated but not in a room, show the lobby
-    if (!currentRoom) {
-      return <Lobby />;
+    if (!currentRoom && !isPlayingLocal) {
+      return <Lobby onPlayLocal={() => setIsPlayingLocal(true)} />;
     }
     
     // If player is in a room but the game hasn't started, show the waiting room
@@ -418,23 +521,62 @@ const Index = () => {
       return <WaitingRoom />;
     }
     
-    // If game has started, show game board
-    if (gameState.gameStarted || (currentRoom && currentRoom.gameStarted)) {
+    // Online game: the table comes from the room's game state
+    if (currentRoom && currentRoom.gameStarted) {
+      if (!onlineGameView) {
+        return <p className="text-center text-white">{translations.app.loading}</p>;
+      }
+      
+      if (onlineGameView.gameEnded && onlineGameView.winner) {
+        const winnerPlayer = onlineGameView.players.find(player => player.id === onlineGameView.winner)!;
+        return (
+          <GameOver 
+            winner={winnerPlayer} 
+            players={onlineGameView.players}
+            onRestartGame={startOnlineGame}
+            onNewGame={leaveRoom}
+            match={onlineMatch}
+            onReplay={onlineGameId ? () => navigate(`/replay/${onlineGameId}`) : undefined}
+          />
+        );
+      }
+      
       return (
         <div className="bg-black/30 p-4 rounded-lg border border-white/10 backdrop-blur-sm shadow-lg">
-          <div className="mb-4">
-            <TurnTimer 
-              isActive={isTimerActive} 
-              duration={turnDuration} 
-              onTimeout={handleTurnTimeout} 
+          {onlineViewerId && (
+            <TakeBackPrompt
+              takeBack={onlineTakeBack}
+              players={onlineGameView.players}
+              userId={onlineViewerId}
+              isHost={isOnlineHost}
+              onRequest={requestTakeBack}
+              onAnswer={answerTakeBack}
             />
-          </div>
-          
+          )}
+          {turnClock && (
+            <div className="mb-4">
+              <TurnTimer
+                isActive
+                duration={(onlineGameView.settings.turnTimer ?? getDefaultGameSettings().turnTimer).seconds}
+                endsAt={turnClock.turnEndsAt}
+                bankMs={turnClock.banks[turnClock.playerId]}
+                label={turnClock.playerId === onlineViewerId
+                  ? translations.game.yourTurn
+                  : translations.turnTimer.turnOf(onlineGameView.players.find(player => player.id === turnClock.playerId)?.name ?? '')}
+              />
+            </div>
+          )}
           <GameBoard
-            gameState={gameState}
-            onPlayCard={handlePlayCard}
-            onDrawCard={handleDrawCard}
-            onSayMauMau={handleSayMauMau}
+            view={onlineGameView}
+            onPlayCard={(card, wishedSuit) => playOnlineCard(card.id, wishedSuit)}
+            onBluff={(card, claimed) => bluffOnlineCard(card.id, claimed)}
+            onChallenge={challengeOnlineBluff}
+            onDrawCard={drawOnlineCard}
+            onPass={passOnlineTurn}
+            onSayMauMau={() => sayOnlineMauMau()}
+            onCatchMauMau={catchOnlineMauMau}
+            presence={presence}
+            returningCardIds={returningCardIds}
           />
           
           <div className="mt-6 border-t border-white/10 pt-4">
@@ -447,16 +589,114 @@ const Index = () => {
       );
     }
     
+    // If game has started, show game board
+    if (gameState.gameStarted) {
+      return (
+        <div className="bg-black/30 p-4 rounded-lg border border-white/10 backdrop-blur-sm shadow-lg">
+          <div className="mb-4 flex items-center gap-4">
+            <div className="flex-1">
+              <TurnTimer 
+                isActive={isTimerActive && !awaitingHandoff && turnDuration > 0} 
+                duration={turnDuration} 
+                onTimeout={handleTurnTimeout} 
+              />
+            </div>
+            {canUndo && (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="bg-black/40 text-white hover:bg-black/60 border border-white/20"
+                onClick={handleUndo}
+              >
+                <Undo2 className="mr-1 h-4 w-4" /> {translations.game.undo}
+              </Button>
+            )}
+          </div>
+          
+          {awaitingHandoff ? (
+            <HandoffScreen
+              key={handoffPlayerId}
+              playerName={gameState.players.find(player => player.id === handoffPlayerId)!.name}
+              summary={eventLog.slice(lastSeen[handoffPlayerId!] ?? 0).map(event => describeEvent(event, gameState.players))}
+              pin={pins[handoffPlayerId!]}
+              onReveal={() => handleReveal(handoffPlayerId!)}
+              mauMauCaller={mauMauCaller}
+            />
+          ) : (
+            <GameBoard
+              view={getPlayerView(gameState, localViewerId ?? localHandPlayerId())}
+              hotSeat={!localViewerId}
+              onPlayCard={handlePlayCard}
+              onBluff={handleBluff}
+              onChallenge={handleChallenge}
+              onDrawCard={handleDrawCard}
+              onPass={handlePass}
+              onSayMauMau={handleSayMauMau}
+              onCatchMauMau={handleCatchMauMau}
+            />
+          )}
+          
+          <div className="mt-6 border-t border-white/10 pt-4">
+            <h3 className="text-lg font-medium text-white mb-3">Game Chat</h3>
+            <div className="h-64 bg-black/40 rounded-lg p-3">
+              <Chat />
+            </div>
+          </div>
+        </div>
+      );
+    }
+    
     // If no other conditions match, show the player setup
-    return <PlayerSetup onStartGame={startGame} />;
+    return (
+      <>
+        <PlayerSetup onStartGame={startGame} />
+        <SavedGames
+          games={savedGames}
+          onResume={handleResumeGame}
+          onDelete={handleDeleteSavedGame}
+          onExport={game => savedGameService.exportJson(game)}
+          onReplay={game => navigate(`/replay/local/${game.id}`)}
+        />
+      </>
+    );
   };
   
   return (
     <div className="min-h-screen bg-gradient-game py-8 px-4">
       <div className="max-w-4xl mx-auto">
         <h1 className="text-3xl font-bold text-center text-white mb-8">Mau Mau</h1>
+        {connectionStatus === "reconnecting" && (
+          <div className="mb-4 p-2 rounded-lg bg-yellow-500/80 text-black text-center animate-pulse">
+            {translations.messages.reconnecting}
+          </div>
+        )}
         {renderContent()}
       </div>
+      
+      <AlertDialog
+        open={!!resumePrompt && isAuthenticated && !currentRoom && !gameState.gameStarted}
+        onOpenChange={open => !open && setResumePrompt(null)}
+      >
+        {resumePrompt && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{translations.savedGames.resumeTitle}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {translations.savedGames.resumePrompt(
+                  resumePrompt.state.players.map(player => player.name).join(", "),
+                  getSavedRound(resumePrompt)
+                )}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{translations.savedGames.dismiss}</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleResumeGame(resumePrompt)}>
+                {translations.savedGames.resume}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from "lucide-react";
+import GameBoard from "@/components/GameBoard";
+import PlayerHand from "@/components/PlayerHand";
+import { GameHistory } from "@/types/game";
+import { describeEvent } from "@/utils/gameEngine";
+import { replayHistory } from "@/utils/history";
+import { getPlayerView } from "@/utils/playerView";
+import { savedGameService } from "@/services/savedGameService";
+import { useMultiplayer } from "@/contexts/MultiplayerContext";
+import translations from "@/localization/pt-BR";
+
+const noop = () => {};
+
+// Step through a recorded game: /replay/local/:savedGameId for games saved in
+// this browser, /replay/:gameId for online games
+const Replay = () => {
+  const { gameId, savedGameId } = useParams();
+  const navigate = useNavigate();
+  const { gameHistory: onlineHistory, loadGameHistory } = useMultiplayer();
+  
+  const [localRounds, setLocalRounds] = useState<GameHistory[] | null>(null);
+  const [round, setRound] = useState(0);
+  const [step, setStep] = useState(0);
+  const [notFound, setNotFound] = useState(false);
+  
+  useEffect(() => {
+    if (gameId) {
+      loadGameHistory(gameId);
+      return;
+    }
+    if (!savedGameId) return;
+    
+    savedGameService.get(savedGameId)
+      .then(game => {
+        if (!game || game.history.length === 0) {
+          setNotFound(true);
+          return;
+        }
+        setLocalRounds(game.history);
+        setRound(game.history.length - 1);
+      })
+      .catch(error => {
+        console.error("Error loading saved game:", error);
+        setNotFound(true);
+      });
+  }, [gameId, savedGameId, loadGameHistory]);
+  
+  const history = gameId ? onlineHistory : localRounds?.[round] ?? null;
+  const states = useMemo(() => (history ? replayHistory(history) : []), [history]);
+  
+  // A new round (or a freshly loaded game) starts at the deal
+  useEffect(() => {
+    setStep(0);
+  }, [history]);
+  
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-gradient-game py-8 px-4 text-center text-white">
+        <p className="mb-4">{translations.replay.notFound}</p>
+        <Button onClick={() => navigate("/")}>{translations.replay.back}</Button>
+      </div>
+    );
+  }
+  
+  if (!history || states.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-game py-8 px-4">
+        <p className="text-center text-white">{translations.app.loading}</p>
+      </div>
+    );
+  }
+  
+  const state = states[step];
+  const lastStep = states.length - 1;
+  const entry = step > 0 ? history.entries[step - 1] : null;
+  
+  return (
+    <div className="min-h-screen bg-gradient-game py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <Button variant="ghost" className="text-white hover:bg-black/40" onClick={() => navigate("/")}>
+            <ChevronLeft className="mr-1 h-4 w-4" /> {translations.replay.back}
+          </Button>
+          <h1 className="text-3xl font-bold text-white">{translations.replay.title}</h1>
+          {localRounds && localRounds.length > 1 ? (
+            <Select value={String(round)} onValueChange={value => setRound(Number(value))}>
+              <SelectTrigger className="w-36 bg-black/30 text-white border-white/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {localRounds.map((_, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {translations.replay.round(index + 1)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <div className="w-36" />
+          )}
+        </div>
+        
+        <div className="bg-black/30 p-4 rounded-lg border border-white/10 backdrop-blur-sm shadow-lg">
+          {/* Step controls */}
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <Button size="icon" variant="secondary" title={translations.replay.first} disabled={step === 0} onClick={() => setStep(0)}>
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="secondary" title={translations.replay.previous} disabled={step === 0} onClick={() => setStep(step - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-white w-40 text-center">{translations.replay.step(step, lastStep)}</span>
+            <Button size="icon" variant="secondary" title={translations.replay.next} disabled={step === lastStep} onClick={() => setStep(step + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="secondary" title={translations.replay.last} disabled={step === lastStep} onClick={() => setStep(lastStep)}>
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-center text-white/80 text-sm mb-4">
+            {entry
+              ? entry.events.map(event => describeEvent(event, state.players)).join(" ")
+              : translations.replay.dealt}
+          </p>
+          
+          <GameBoard
+            view={getPlayerView(state, null)}
+            onPlayCard={noop}
+            onBluff={noop}
+            onChallenge={noop}
+            onDrawCard={noop}
+            onPass={noop}
+            onSayMauMau={noop}
+            onCatchMauMau={noop}
+          />
+          
+          {/* Every hand face up */}
+          <div className="mt-6 border-t border-white/10 pt-4 space-y-4">
+            <h3 className="text-lg font-medium text-white">{translations.replay.hands}</h3>
+            {state.players.map(player => (
+              <div key={player.id}>
+                <p className="text-white">{player.bot && "🤖 "}{player.name}</p>
+                <PlayerHand cards={player.cards} isCurrentPlayer={true} />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
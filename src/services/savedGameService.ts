@@ -0,0 +1,95 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameEvent, GameHistory, GameState, Match } from '@/types/game';
+
+// A snapshot of a local game, taken after every action
+export interface SavedGame {
+  id: string;
+  savedAt: string; // ISO timestamp
+  state: GameState;
+  match: Match | null;
+  history: GameHistory[]; // One per round played so far
+  pins: Record<string, string>; // Hot-seat PINs, so resuming doesn't skip them
+  eventLog: GameEvent[];
+}
+
+// Round the snapshot is in (or ended on)
+export const getSavedRound = (game: SavedGame): number =>
+  (game.match?.rounds.length ?? 0) + (game.state.gameEnded ? 0 : 1);
+
+// Nothing left to resume once the match has a winner
+export const isSavedGameFinished = (game: SavedGame): boolean =>
+  game.match ? !!game.match.winnerId : game.state.gameEnded;
+
+class SavedGameService {
+  private DB_NAME = 'mauMau';
+  private DB_VERSION = 1;
+  private STORE = 'savedGames';
+  private db: Promise<IDBDatabase> | null = null;
+
+  createId(): string {
+    return uuidv4();
+  }
+
+  // Add or replace a snapshot
+  async save(game: SavedGame): Promise<void> {
+    await this.request('readwrite', store => store.put(game));
+  }
+
+  // All snapshots, newest first
+  async list(): Promise<SavedGame[]> {
+    const games = await this.request<SavedGame[]>('readonly', store => store.getAll());
+    return games.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  async get(id: string): Promise<SavedGame | undefined> {
+    return this.request<SavedGame | undefined>('readonly', store => store.get(id));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  // Download a snapshot as a JSON file
+  exportJson(game: SavedGame): void {
+    const blob = new Blob([JSON.stringify(game, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mau-mau-${game.savedAt.slice(0, 10)}-${game.id.slice(0, 8)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again if opening failed (e.g. private browsing)
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.STORE, mode).objectStore(this.STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Create singleton instance
+export const savedGameService = new SavedGameService();
@@ -1,5 +0,0 @@
-
-// Re-export from the SupabaseService
-export * from './websocket/types';
-export * from './websocket/SupabaseService';
-export { supabaseService as websocketService } from './websocket/SupabaseService';
@@ -1,16 +1,17 @@
+import { PROTOCOL_VERSION, ServerEventHandlers, ServerEventType, ServerMessage, ServerPayload } from './protocol';
 
-type EventHandler<T = any> = (data: T) => void;
+type EventHandler<K extends ServerEventType> = (data: ServerPayload<K>, message: ServerMessage<K>) => void;
 
 /**
  * Simple event emitter for managing pub/sub events
  */
 class EventEmitter {
-  private handlers: Map<string, EventHandler<any>[]> = new Map();
+  private handlers: Map<ServerEventType, EventHandler<any>[]> = new Map();
 
   /**
    * Register an event handler
    */
-  on<T>(event: string, callback: (data: T) => void): () => void {
+  on<K extends ServerEventType>(event: K, callback: EventHandler<K>): () => void {
     if (!this.handlers.has(event)) {
       this.handlers.set(event, []);
     }
@@ -28,16 +29,33 @@ class EventEmitter {
   }
 
   /**
-   * Emit an event to all registered handlers
+   * Register a handler for every event at once
    */
-  emit<T>(event: string, data: T): void {
-    const handlers = this.handlers.get(event);
+  onAll(handlers: ServerEventHandlers): () => void {
+    const unsubscribes = (Object.keys(handlers) as ServerEventType[])
+      .map(event => this.on(event, handlers[event] as EventHandler<typeof event>));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Emit an event to all registered handlers. requestId ties a reply to the
+   * client message it answers.
+   */
+  emit<K extends ServerEventType>(event: K, data: ServerPayload<K>, requestId?: string): void {
+    this.dispatch({ v: PROTOCOL_VERSION, type: event, payload: data, requestId } as ServerMessage<K>);
+  }
+
+  /**
+   * Hand a whole server message to its handlers
+   */
+  dispatch<K extends ServerEventType>(message: ServerMessage<K>): void {
+    const handlers = this.handlers.get(message.type);
     if (handlers) {
       for (const handler of handlers) {
         try {
-          handler(data);
+          handler(message.payload, message);
         } catch (error) {
-          console.error(`Error in event handler for ${event}:`, error);
+          console.error(`Error in event handler for ${message.type}:`, error);
         }
       }
     }
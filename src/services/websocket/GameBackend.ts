@@ -0,0 +1,37 @@
+import { ConnectionStatus } from './types';
+import { ClientRequest, ServerEventHandlers, ServerEventType } from './protocol';
+import { SupabaseService } from './SupabaseService';
+import { WebSocketService } from './WebSocketService';
+import { MemoryService } from './MemoryService';
+
+/**
+ * Whatever the app plays through: it takes client requests and answers with
+ * server events. Every backend speaks the same protocol.
+ */
+export interface GameBackend {
+  // Open the connection; changes arrive as connection_status events
+  connect(): Promise<void>;
+
+  // Send a request. Returns its id, which replies and errors to it carry as requestId.
+  sendEvent(request: ClientRequest): string;
+
+  on<K extends ServerEventType>(event: K, callback: ServerEventHandlers[K]): () => void;
+  onAll(handlers: ServerEventHandlers): () => void;
+
+  getStatus(): ConnectionStatus;
+}
+
+// Chosen with VITE_GAME_BACKEND: supabase (the default), websocket for the
+// game server in server/, or memory to run that server in the browser's tabs
+const createGameBackend = (): GameBackend => {
+  switch (import.meta.env.VITE_GAME_BACKEND) {
+    case 'websocket':
+      return new WebSocketService();
+    case 'memory':
+      return new MemoryService();
+    default:
+      return new SupabaseService();
+  }
+};
+
+export const gameBackend = createGameBackend();
@@ -0,0 +1,767 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AbsenceSettings, GameAction, GameEvent, GameHistory, GameState, Match, RoomRules, TurnClock, TurnTimerSettings } from '@/types/game';
+import { ChatMessage, PresenceStatus, Room, RoomBot, RoomData, TakeBack } from './types';
+import {
+  ClientMessage,
+  PROTOCOL_VERSION,
+  ServerEventType,
+  ServerMessage,
+  ServerPayload,
+  parseClientMessage
+} from './protocol';
+import { applyAction } from '@/utils/gameEngine';
+import { getAbsenceAction, getDefaultGameSettings, getDefaultRoomRules, getDrawPileSize, getTimeoutAction } from '@/utils/gameUtils';
+import { createMatch, recordRound, startMatchRound } from '@/utils/match';
+import { chooseBotAction } from '@/utils/bots';
+import { getPlayerEvents, getPlayerView } from '@/utils/playerView';
+import { appendHistory, createHistory, isAutomaticAction, isUndoable, replayHistory } from '@/utils/history';
+import { randomInt } from '@/utils/random';
+import { advanceTurnClock, getTurnClockView, getTurnDeadline, restartTurnClock, startTurnClock } from '@/utils/turnClock';
+
+const MAX_PLAYERS = 4;
+// Chat messages kept per room, as many as a client loads on joining
+const MESSAGE_LIMIT = 100;
+
+export interface ServerGame {
+  id: string;
+  version: number; // Goes up by one with every move and take-back change
+  state: GameState;
+  match: Match;
+  takeBack: TakeBack | null;
+  history: GameHistory;
+  clock: TurnClock | null;
+}
+
+export interface ServerRoom {
+  code: string;
+  hostId: string;
+  isPrivate: boolean;
+  started: boolean;
+  players: { id: string; nickname: string }[]; // People, in the order they joined
+  bots: RoomBot[];
+  absence: AbsenceSettings;
+  turnTimer: TurnTimerSettings;
+  rules: RoomRules;
+  messages: ChatMessage[];
+  game: ServerGame | null;
+}
+
+// One open socket. The same player may have several (one per tab).
+interface Client {
+  playerId: string;
+  send: (message: ServerMessage) => void;
+  present: Set<string>; // Rooms this socket is tracked as present in
+}
+
+export interface Connection {
+  receive: (data: string) => void;
+  disconnect: () => void;
+}
+
+// Rooms and games as plain data, to carry them over to another GameServer
+export interface GameServerSnapshot {
+  rooms: ServerRoom[];
+  histories: Record<string, GameHistory>;
+}
+
+/**
+ * Rooms and games held in memory, speaking the same protocol as the Supabase
+ * backend. Runs in the Node server and, for the memory backend, in a browser tab.
+ * Everything is lost when it stops, unless it is restored from a snapshot.
+ */
+export class GameServer {
+  private rooms: Map<string, ServerRoom> = new Map();
+  private clients: Set<Client> = new Set();
+  // Every game dealt since the server started, for the replay viewer
+  private histories: Map<string, GameHistory> = new Map();
+  // Fires when the running turn's time is up, by room
+  private turnTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  // Gets the play-by-play: every request, rooms opening and closing, timeouts
+  private debug: (...args: unknown[]) => void;
+
+  constructor(snapshot?: GameServerSnapshot, debug: (...args: unknown[]) => void = () => {}) {
+    this.debug = debug;
+    if (snapshot) {
+      // Rooms saved by an older server may lack rules it didn't have yet
+      this.rooms = new Map(snapshot.rooms.map(room => [room.code, { ...room, rules: { ...getDefaultRoomRules(), ...room.rules } }]));
+      this.histories = new Map(Object.entries(snapshot.histories));
+      this.rooms.forEach(room => this.scheduleTurnTimeout(room));
+    }
+  }
+
+  /**
+   * Everything but the connected clients, which have to connect again
+   */
+  snapshot(): GameServerSnapshot {
+    return {
+      rooms: Array.from(this.rooms.values()),
+      histories: Object.fromEntries(this.histories)
+    };
+  }
+
+  /**
+   * A player opened a socket; send is how to reach it
+   */
+  connect(playerId: string, send: (message: ServerMessage) => void): Connection {
+    const client: Client = { playerId, send, present: new Set() };
+    this.clients.add(client);
+
+    return {
+      receive: data => this.receive(client, data),
+      disconnect: () => {
+        this.clients.delete(client);
+        for (const roomCode of client.present) {
+          const room = this.rooms.get(roomCode);
+          if (room) this.sendPresence(room);
+        }
+      }
+    };
+  }
+
+  private receive(client: Client, data: string): void {
+    let message: ClientMessage;
+    let requestId: string | undefined;
+    try {
+      const json = JSON.parse(data);
+      requestId = typeof json?.id === 'string' ? json.id : undefined;
+      message = parseClientMessage(json);
+    } catch (error) {
+      const text = error instanceof SyntaxError ? 'Mensagem inválida.' : (error as Error).message;
+      this.send(client, 'error', { message: text }, requestId);
+      return;
+    }
+
+    try {
+      this.handle(client, message);
+    } catch (error) {
+      console.error(`Error processing ${message.type} event:`, error);
+      this.send(client, 'error', { message: error instanceof Error ? error.message : 'Ocorreu um erro ao processar sua solicitação.' }, message.id);
+    }
+  }
+
+  private handle(client: Client, message: ClientMessage): void {
+    const { id, type, payload } = message;
+    this.debug(`Received ${type} from ${client.playerId}`);
+    switch (type) {
+      case 'room_list':
+        this.send(client, 'room_list', {
+          rooms: Array.from(this.rooms.values()).filter(room => this.isListed(room)).map(room => this.toRoom(room))
+        }, id);
+        break;
+
+      case 'create_room':
+        this.createRoom(client, payload.nickname, payload.isPrivate, id);
+        break;
+
+      case 'join_room':
+        this.joinRoom(client, payload.roomCode, payload.nickname, id);
+        break;
+
+      case 'leave_room':
+        this.removePlayer(this.getRoom(payload.roomCode), client.playerId);
+        break;
+
+      case 'kick_player': {
+        const room = this.getRoom(payload.roomCode);
+        if (room.hostId !== client.playerId) {
+          throw new Error('Apenas o anfitrião pode remover jogadores.');
+        }
+        this.sendToPlayer(payload.targetPlayerId, 'player_kicked', {
+          roomCode: room.code,
+          reason: 'Você saiu da sala ou foi removido pelo anfitrião.'
+        });
+        this.removePlayer(room, payload.targetPlayerId);
+        break;
+      }
+
+      case 'add_bot': {
+        const room = this.getHostedRoom(client, payload.roomCode);
+        if (room.players.length + room.bots.length >= MAX_PLAYERS) {
+          throw new Error('A sala está cheia.');
+        }
+        room.bots.push({ id: uuidv4(), name: `Bot ${room.bots.length + 1}`, difficulty: payload.difficulty });
+        this.sendToRoom(room, 'room_bots', { roomCode: room.code, bots: room.bots });
+        this.updateLobby(room);
+        break;
+      }
+
+      case 'remove_bot': {
+        const room = this.getHostedRoom(client, payload.roomCode);
+        room.bots = room.bots.filter(bot => bot.id !== payload.botId);
+        this.sendToRoom(room, 'room_bots', { roomCode: room.code, bots: room.bots });
+        this.updateLobby(room);
+        break;
+      }
+
+      case 'set_absence': {
+        const room = this.getHostedRoom(client, payload.roomCode);
+        room.absence = payload.absence;
+        this.sendToRoom(room, 'room_absence', { roomCode: room.code, absence: room.absence });
+        break;
+      }
+
+      case 'set_turn_timer': {
+        const room = this.getHostedRoom(client, payload.roomCode);
+        room.turnTimer = payload.turnTimer;
+        this.sendToRoom(room, 'room_turn_timer', { roomCode: room.code, turnTimer: room.turnTimer });
+        break;
+      }
+
+      case 'set_rules': {
+        const room = this.getHostedRoom(client, payload.roomCode);
+        room.rules = payload.rules;
+        this.sendToRoom(room, 'room_rules', { roomCode: room.code, rules: room.rules });
+        break;
+      }
+
+      case 'track_presence': {
+        const room = this.rooms.get(payload.roomCode);
+        if (room && this.isMember(room, client.playerId)) {
+          client.present.add(room.code);
+          this.sendPresence(room);
+        }
+        break;
+      }
+
+      case 'untrack_presence': {
+        client.present.delete(payload.roomCode);
+        const room = this.rooms.get(payload.roomCode);
+        if (room) this.sendPresence(room);
+        break;
+      }
+
+      case 'start_game':
+        this.startGame(client, this.getRoom(payload.roomCode));
+        break;
+
+      case 'chat_message': {
+        const room = this.getMemberRoom(client, payload.roomCode);
+        const message: ChatMessage = {
+          id: uuidv4(),
+          playerId: client.playerId,
+          playerName: room.players.find(player => player.id === client.playerId)!.nickname,
+          content: payload.message,
+          timestamp: new Date().toISOString()
+        };
+        room.messages = [...room.messages, message].slice(-MESSAGE_LIMIT);
+        this.sendToRoom(room, 'chat_message', { message });
+        break;
+      }
+
+      case 'resync': {
+        // Anything may have happened while the client was away: send the room, then the table
+        const room = this.getMemberRoom(client, payload.roomCode);
+        this.send(client, 'room_joined', { room: this.toRoomData(room) }, id);
+        if (room.game) this.sendGame(client, room, [], id);
+        break;
+      }
+
+      case 'sync_game': {
+        const room = this.getMemberRoom(client, payload.roomCode);
+        if (room.game) this.sendGame(client, room, [], id);
+        break;
+      }
+
+      case 'play_card':
+        this.performAction(client, payload.roomCode, playerId => ({
+          type: 'play', playerId, cardId: payload.cardId, wishedSuit: payload.wishedSuit
+        }), payload.seq);
+        break;
+
+      case 'bluff_card':
+        this.performAction(client, payload.roomCode, playerId => ({
+          type: 'bluff', playerId, cardId: payload.cardId, claimed: payload.claimed
+        }), payload.seq);
+        break;
+
+      case 'challenge_bluff':
+        this.performAction(client, payload.roomCode, playerId => ({ type: 'challenge', playerId }));
+        break;
+
+      case 'draw_card':
+        this.performAction(client, payload.roomCode, playerId => ({ type: 'draw', playerId }));
+        break;
+
+      case 'pass_turn':
+        this.performAction(client, payload.roomCode, playerId => ({ type: 'pass', playerId }));
+        break;
+
+      case 'say_mau_mau':
+        this.performAction(client, payload.roomCode, playerId => ({ type: 'say_mau_mau', playerId }));
+        break;
+
+      case 'catch_mau_mau':
+        this.performAction(client, payload.roomCode, playerId => ({
+          type: 'catch_mau_mau', playerId, targetId: payload.targetId
+        }));
+        break;
+
+      case 'close_mau_mau_window':
+        this.performAction(client, payload.roomCode, playerId => ({ type: 'close_mau_mau_window', playerId }));
+        break;
+
+      // As with Supabase, the host's browser drives the bots and decides about absent players
+      case 'bot_turn':
+        this.performAction(client, payload.roomCode, (playerId, room, game) => {
+          if (room.hostId !== playerId) {
+            throw new Error('Apenas o anfitrião controla os bots.');
+          }
+          return chooseBotAction(game.state, payload.botId);
+        });
+        break;
+
+      case 'resolve_absence':
+        this.performAction(client, payload.roomCode, (playerId, room, game) => {
+          if (room.hostId !== playerId) {
+            throw new Error('Apenas o anfitrião decide sobre jogadores ausentes.');
+          }
+          return getAbsenceAction(game.state, payload.playerId);
+        });
+        break;
+
+      case 'reclaim_seat':
+        this.performAction(client, payload.roomCode, (playerId, room, game) => {
+          const seat = game.state.players.find(player => player.id === playerId);
+          const isPerson = game.match.players.some(player => player.id === playerId && !player.bot);
+          return seat?.bot && isPerson ? { type: 'take_over_seat', playerId, bot: null } : null;
+        });
+        break;
+
+      // We time turns ourselves; a client noticing first changes nothing
+      case 'turn_timeout':
+        this.expireTurn(this.getMemberRoom(client, payload.roomCode));
+        break;
+
+      case 'request_take_back': {
+        const { room, game } = this.getGame(client, payload.roomCode);
+        if (!game.takeBack || game.takeBack.playerId !== client.playerId) {
+          throw new Error('Não há jogada sua para desfazer.');
+        }
+        game.takeBack = { ...game.takeBack, requested: true, approvals: [] };
+        game.version++;
+        this.sendGameToRoom(room, []);
+        break;
+      }
+
+      case 'answer_take_back':
+        this.answerTakeBack(client, payload.roomCode, payload.approve);
+        break;
+
+      case 'load_history':
+        this.send(client, 'game_history', {
+          gameId: payload.gameId,
+          history: this.getHistory(client, payload.gameId)
+        }, id);
+        break;
+
+      default: {
+        // A request type without a case here fails to compile
+        const unhandled: never = type;
+        console.warn('Unhandled event type:', unhandled);
+      }
+    }
+  }
+
+  private createRoom(client: Client, nickname: string, isPrivate: boolean, requestId: string): void {
+    const room: ServerRoom = {
+      code: this.generateRoomCode(),
+      hostId: client.playerId,
+      isPrivate,
+      started: false,
+      players: [{ id: client.playerId, nickname }],
+      bots: [],
+      absence: getDefaultGameSettings().absence,
+      turnTimer: getDefaultGameSettings().turnTimer,
+      rules: getDefaultRoomRules(),
+      messages: [],
+      game: null
+    };
+    this.rooms.set(room.code, room);
+    this.debug('Room', room.code, 'created by', nickname);
+
+    this.send(client, 'room_created', { room: this.toRoom(room) }, requestId);
+    this.send(client, 'room_joined', { room: this.toRoomData(room) }, requestId);
+    this.updateLobby(room);
+  }
+
+  private joinRoom(client: Client, roomCode: string, nickname: string, requestId: string): void {
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      throw new Error(`Sala com o código ${roomCode} não foi encontrada.`);
+    }
+
+    // Coming back to a room we are still in (another tab, a reload) just loads it
+    if (!this.isMember(room, client.playerId)) {
+      if (room.started) {
+        throw new Error('Esta sala já iniciou o jogo e não aceita novos jogadores.');
+      }
+      if (room.players.length + room.bots.length >= MAX_PLAYERS) {
+        throw new Error('Esta sala está cheia.');
+      }
+
+      const player = { id: client.playerId, nickname };
+      this.sendToRoom(room, 'player_joined', { roomCode, player: { ...player, isCreator: false } });
+      room.players.push(player);
+      this.updateLobby(room);
+    }
+
+    this.send(client, 'room_joined', { room: this.toRoomData(room) }, requestId);
+  }
+
+  /**
+   * Take a person out of a room. The room closes with its last person;
+   * a departing host hands the room to whoever joined first.
+   */
+  private removePlayer(room: ServerRoom, playerId: string): void {
+    const player = room.players.find(other => other.id === playerId);
+    if (!player) return;
+
+    room.players = room.players.filter(other => other.id !== playerId);
+    for (const client of this.clients) {
+      if (client.playerId === playerId) client.present.delete(room.code);
+    }
+
+    if (room.players.length === 0) {
+      this.debug('Room', room.code, 'is empty, closing it');
+      this.rooms.delete(room.code);
+      this.scheduleTurnTimeout(room);
+      this.updateLobby(room);
+      return;
+    }
+
+    this.sendToRoom(room, 'player_left', { roomCode: room.code, playerId, playerName: player.nickname });
+    if (room.hostId === playerId) {
+      room.hostId = room.players[0].id;
+      // Nothing else announces a new host; send everyone the room again
+      this.sendToRoom(room, 'room_joined', { room: this.toRoomData(room) });
+    }
+    this.sendPresence(room);
+    this.updateLobby(room);
+  }
+
+  /**
+   * Deal the next round of the room's match, or a new match if the table changed
+   */
+  private startGame(client: Client, room: ServerRoom): void {
+    if (room.hostId !== client.playerId) {
+      throw new Error('Apenas o anfitrião pode iniciar o jogo.');
+    }
+    // Dealing again would throw away the hands in play
+    if (room.game && !room.game.state.gameEnded) {
+      throw new Error('A rodada atual ainda não terminou.');
+    }
+
+    const players = [
+      ...room.players.map(player => ({ id: player.id, name: player.nickname })),
+      ...room.bots.map(bot => ({ id: bot.id, name: bot.name, bot: bot.difficulty }))
+    ];
+    if (players.length < 2) {
+      throw new Error('São necessários pelo menos 2 jogadores para iniciar.');
+    }
+
+    const previous = room.game?.match;
+    const samePlayers = previous && !previous.winnerId &&
+      previous.players.length === players.length &&
+      previous.players.every(player => players.some(other => other.id === player.id));
+    const match = samePlayers
+      ? previous
+      : createMatch(players, { ...getDefaultGameSettings(), ...room.rules, absence: room.absence, turnTimer: room.turnTimer });
+    if (getDrawPileSize(match.settings.deck, players.length) <= 0) {
+      throw new Error('O baralho é pequeno demais para tantos jogadores.');
+    }
+
+    const state = startMatchRound(match);
+    room.game = {
+      id: uuidv4(),
+      version: 0,
+      state,
+      match,
+      takeBack: null,
+      history: createHistory(state),
+      clock: startTurnClock(state, Date.now())
+    };
+    this.histories.set(room.game.id, room.game.history);
+    this.scheduleTurnTimeout(room);
+
+    if (!room.started) {
+      room.started = true;
+      this.sendToRoom(room, 'game_started', { roomCode: room.code });
+      this.updateLobby(room);
+    }
+    this.sendGameToRoom(room, []);
+  }
+
+  /**
+   * Run a player's action through the rules engine and send everyone the new table.
+   * seq, when given, is the version the move expects to create.
+   */
+  private performAction(
+    client: Client,
+    roomCode: string,
+    buildAction: (playerId: string, room: ServerRoom, game: ServerGame) => GameAction | null,
+    seq?: number
+  ): void {
+    const { room, game } = this.getGame(client, roomCode);
+    if (seq !== undefined && seq !== game.version + 1) {
+      throw new Error('A mesa mudou antes da sua jogada.');
+    }
+    const action = buildAction(client.playerId, room, game);
+    if (action) {
+      this.applyGameAction(room, game, action);
+    }
+  }
+
+  private applyGameAction(room: ServerRoom, game: ServerGame, action: GameAction): void {
+    const { state, events } = applyAction(game.state, action);
+
+    // The round that just ended goes on the match scoreboard
+    if (state.gameEnded && !game.state.gameEnded) {
+      game.match = recordRound(game.match, state);
+    }
+
+    // A person's move can be taken back until the next move, unless it revealed something hidden
+    game.history = appendHistory(game.history, action, events);
+    const entry = game.history.entries[game.history.entries.length - 1];
+    const mover = state.players.find(player => player.id === action.playerId);
+    game.takeBack = mover && !mover.bot && !state.gameEnded && !isAutomaticAction(action) && isUndoable(entry)
+      ? { playerId: mover.id, seq: entry.seq, requested: false, approvals: [] }
+      : null;
+
+    game.clock = advanceTurnClock(game.clock, game.state, state, events, Date.now());
+    game.state = state;
+    game.version++;
+    this.histories.set(game.id, game.history);
+    this.scheduleTurnTimeout(room);
+    this.sendGameToRoom(room, events);
+  }
+
+  /**
+   * The turn's time and its player's bank are used up: the room's timeout policy moves for them
+   */
+  private expireTurn(room: ServerRoom): void {
+    const game = room.game;
+    if (!game?.clock || Date.now() < getTurnDeadline(game.clock)) return;
+    this.debug('Turn of', game.clock.playerId, 'timed out in room', room.code);
+    this.applyGameAction(room, game, getTimeoutAction(game.state));
+  }
+
+  // Keep one timer per room, for the running turn's deadline
+  private scheduleTurnTimeout(room: ServerRoom): void {
+    clearTimeout(this.turnTimeouts.get(room.code));
+    this.turnTimeouts.delete(room.code);
+
+    const clock = room.game?.clock;
+    if (!clock || !this.rooms.has(room.code)) return;
+
+    this.turnTimeouts.set(room.code, setTimeout(() => {
+      this.turnTimeouts.delete(room.code);
+      try {
+        this.expireTurn(room);
+      } catch (error) {
+        console.error('Error expiring turn in room', room.code, error);
+      }
+    }, Math.max(0, getTurnDeadline(clock) - Date.now())));
+  }
+
+  /**
+   * Approve or decline a take-back. The host's approval is enough; otherwise
+   * every other person at the table has to agree. One refusal ends the request.
+   */
+  private answerTakeBack(client: Client, roomCode: string, approve: boolean): void {
+    const { room, game } = this.getGame(client, roomCode);
+    const takeBack = game.takeBack;
+    if (!takeBack?.requested) {
+      throw new Error('Não há pedido para desfazer.');
+    }
+
+    const voters = game.state.players
+      .filter(player => !player.bot && player.id !== takeBack.playerId)
+      .map(player => player.id);
+    const isHost = room.hostId === client.playerId && client.playerId !== takeBack.playerId;
+    if (!isHost && !voters.includes(client.playerId)) {
+      throw new Error('Você não pode responder a este pedido.');
+    }
+
+    if (!approve) {
+      game.takeBack = null;
+      game.version++;
+      this.sendGameToRoom(room, []);
+      return;
+    }
+
+    const approvals = Array.from(new Set([...takeBack.approvals, client.playerId]));
+    if (!isHost && !voters.every(voter => approvals.includes(voter))) {
+      game.takeBack = { ...takeBack, approvals };
+      game.version++;
+      this.sendGameToRoom(room, []);
+      return;
+    }
+
+    const lastMove = game.history.entries[game.history.entries.length - 1];
+    if (!lastMove || lastMove.seq !== takeBack.seq) {
+      throw new Error('Esta jogada já não pode ser desfeita.');
+    }
+
+    game.history = { ...game.history, entries: game.history.entries.slice(0, -1) };
+    const states = replayHistory(game.history);
+    game.state = states[states.length - 1];
+    game.takeBack = null;
+    game.clock = game.clock && restartTurnClock(game.clock, game.state, Date.now());
+    game.version++;
+    this.histories.set(game.id, game.history);
+    this.scheduleTurnTimeout(room);
+    this.sendGameToRoom(room, [{ type: 'move_taken_back', playerId: takeBack.playerId }]);
+  }
+
+  private getRoom(roomCode: string): ServerRoom {
+    const room = this.rooms.get(roomCode);
+    if (!room) {
+      throw new Error(`Sala com o código ${roomCode} não foi encontrada.`);
+    }
+    return room;
+  }
+
+  private getMemberRoom(client: Client, roomCode: string): ServerRoom {
+    const room = this.getRoom(roomCode);
+    if (!this.isMember(room, client.playerId)) {
+      throw new Error('Você não está nesta sala.');
+    }
+    return room;
+  }
+
+  private getHostedRoom(client: Client, roomCode: string): ServerRoom {
+    const room = this.getRoom(roomCode);
+    if (room.hostId !== client.playerId) {
+      throw new Error('Apenas o anfitrião pode alterar a sala.');
+    }
+    return room;
+  }
+
+  private getGame(client: Client, roomCode: string): { room: ServerRoom; game: ServerGame } {
+    const room = this.getMemberRoom(client, roomCode);
+    if (!room.game) {
+      throw new Error('Nenhum jogo em andamento nesta sala.');
+    }
+    return { room, game: room.game };
+  }
+
+  // The deal names every hand and the deck, so a history is only for the game's
+  // own players, and only once the round is over
+  private getHistory(client: Client, gameId: string): GameHistory {
+    const history = this.histories.get(gameId);
+    if (!history) {
+      throw new Error('Este jogo não tem histórico salvo');
+    }
+    if (!history.initialState.players.some(player => player.id === client.playerId)) {
+      throw new Error('Você não jogou esta partida.');
+    }
+    const inPlay = Array.from(this.rooms.values()).some(room => room.game?.id === gameId && !room.game.state.gameEnded);
+    if (inPlay) {
+      throw new Error('O histórico fica disponível quando a rodada termina.');
+    }
+    return history;
+  }
+
+  private isMember(room: ServerRoom, playerId: string): boolean {
+    return room.players.some(player => player.id === playerId);
+  }
+
+  // Public rooms show in the lobby until their game starts
+  private isListed(room: ServerRoom): boolean {
+    return !room.isPrivate && !room.started && this.rooms.has(room.code);
+  }
+
+  private updateLobby(room: ServerRoom): void {
+    if (room.isPrivate) return;
+    for (const client of this.clients) {
+      if (this.isListed(room)) {
+        this.send(client, 'lobby_room_added', { room: this.toRoom(room) });
+      } else {
+        this.send(client, 'lobby_room_removed', { roomCode: room.code });
+      }
+    }
+  }
+
+  private sendPresence(room: ServerRoom): void {
+    const players: Record<string, PresenceStatus> = {};
+    for (const client of this.clients) {
+      if (client.present.has(room.code)) players[client.playerId] = 'online';
+    }
+    this.sendToRoom(room, 'presence', { roomCode: room.code, players });
+  }
+
+  // The table as one player may see it: their own hand and everyone's hand size
+  private sendGame(client: Client, room: ServerRoom, events: GameEvent[], requestId?: string): void {
+    const game = room.game!;
+    this.send(client, 'game_state', {
+      roomCode: room.code,
+      gameId: game.id,
+      seq: game.version,
+      view: getPlayerView(game.state, client.playerId),
+      events: getPlayerEvents(events, client.playerId),
+      match: game.match,
+      takeBack: game.takeBack,
+      clock: getTurnClockView(game.clock, Date.now())
+    }, requestId);
+  }
+
+  private sendGameToRoom(room: ServerRoom, events: GameEvent[]): void {
+    for (const client of this.clients) {
+      if (this.isMember(room, client.playerId)) this.sendGame(client, room, events);
+    }
+  }
+
+  private sendToRoom<K extends ServerEventType>(room: ServerRoom, type: K, payload: ServerPayload<K>): void {
+    for (const client of this.clients) {
+      if (this.isMember(room, client.playerId)) this.send(client, type, payload);
+    }
+  }
+
+  private sendToPlayer<K extends ServerEventType>(playerId: string, type: K, payload: ServerPayload<K>): void {
+    for (const client of this.clients) {
+      if (client.playerId === playerId) this.send(client, type, payload);
+    }
+  }
+
+  private send<K extends ServerEventType>(client: Client, type: K, payload: ServerPayload<K>, requestId?: string): void {
+    client.send({ v: PROTOCOL_VERSION, type, payload, requestId } as ServerMessage);
+  }
+
+  private toRoom(room: ServerRoom): Room {
+    return {
+      code: room.code,
+      name: `Sala ${room.code}`,
+      playerCount: room.players.length + room.bots.length,
+      maxPlayers: MAX_PLAYERS,
+      isPrivate: room.isPrivate,
+      creatorNickname: room.players.find(player => player.id === room.hostId)?.nickname
+    };
+  }
+
+  private toRoomData(room: ServerRoom): RoomData {
+    return {
+      code: room.code,
+      name: `Sala ${room.code}`,
+      players: [
+        ...room.players.map(player => ({ ...player, isCreator: player.id === room.hostId })),
+        ...room.bots.map(bot => ({ id: bot.id, nickname: bot.name, isCreator: false, bot: bot.difficulty }))
+      ],
+      messages: room.messages,
+      gameStarted: room.started,
+      creatorId: room.hostId,
+      isPrivate: room.isPrivate,
+      absence: room.absence,
+      turnTimer: room.turnTimer,
+      rules: room.rules
+    };
+  }
+
+  private generateRoomCode(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    let code = '';
+    for (let i = 0; i < 6; i++) {
+      code += chars.charAt(randomInt(chars.length));
+    }
+    return this.rooms.has(code) ? this.generateRoomCode() : code;
+  }
+}
@@ -1,54 +1,136 @@
-
+import { FunctionsHttpError, RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { EventEmitter } from './EventEmitter';
+import { fromCardRow } from './cardRows';
+import { ClientMessage, ServerPayload, parseServerMessage } from './protocol';
+
+// What goes over the room channel: the public view only. Each client adds its own hand.
+type GameBroadcast = ServerPayload<'game_state'>;
 
+/**
+ * Games are played by the game edge function (supabase/functions/game), which
+ * holds the deck and every hand. We send it our requests, follow the tables it
+ * broadcasts and read our own cards, the only ones we are allowed to see.
+ */
 class GameService {
   private eventEmitter: EventEmitter;
+  private channels: Map<string, RealtimeChannel> = new Map();
 
   constructor(eventEmitter: EventEmitter) {
     this.eventEmitter = eventEmitter;
   }
 
   /**
-   * Play a card
+   * Hand a game request to the edge function and pass its replies on
    */
-  async playCard(roomCode: string, cardId: string): Promise<void> {
+  async send(message: ClientMessage): Promise<void> {
     try {
-      console.log('Playing card in room', roomCode);
-      // Game logic will be implemented here
-      throw new Error('Game functionality not implemented yet');
+      const { data, error } = await supabase.functions.invoke('game', { body: message });
+
+      if (error) {
+        // The function answers refusals with the reason, as the other backends do
+        const reason = error instanceof FunctionsHttpError
+          ? await error.context.json().then(body => body?.message, () => null)
+          : null;
+        throw reason ? new Error(reason) : error;
+      }
+
+      for (const reply of data?.replies ?? []) {
+        const serverMessage = parseServerMessage(reply);
+        if (serverMessage) {
+          this.eventEmitter.dispatch(serverMessage);
+        }
+      }
     } catch (error) {
-      console.error('Error in playCard:', error);
+      console.error(`Error in ${message.type}:`, error);
       throw error;
     }
   }
 
   /**
-   * Draw a card
+   * Subscribe to a room's game broadcasts and fetch the current table, if any
    */
-  async drawCard(roomCode: string): Promise<void> {
-    try {
-      console.log('Drawing card in room', roomCode);
-      // Game logic will be implemented here
-      throw new Error('Game functionality not implemented yet');
-    } catch (error) {
-      console.error('Error in drawCard:', error);
-      throw error;
+  async syncGame(message: ClientMessage<'sync_game'>): Promise<void> {
+    this.getChannel(message.payload.roomCode);
+    await this.send(message);
+  }
+
+  /**
+   * Subscribe again to every room's broadcasts once the connection is back
+   */
+  resubscribe(): void {
+    for (const roomCode of Array.from(this.channels.keys())) {
+      supabase.removeChannel(this.channels.get(roomCode)!);
+      this.channels.delete(roomCode);
+      this.getChannel(roomCode);
     }
   }
 
   /**
-   * Say Mau Mau
+   * Stop listening to a room's game broadcasts
    */
-  async sayMauMau(roomCode: string): Promise<void> {
-    try {
-      console.log('Saying Mau Mau in room', roomCode);
-      // Game logic will be implemented here
-      throw new Error('Game functionality not implemented yet');
-    } catch (error) {
-      console.error('Error in sayMauMau:', error);
-      throw error;
+  leaveGame(roomCode: string): void {
+    const channel = this.channels.get(roomCode);
+    if (channel) {
+      channel.unsubscribe();
+      this.channels.delete(roomCode);
+    }
+  }
+
+  /**
+   * Fill a broadcast view with the current user's hand, read from the cards table
+   */
+  private async addOwnHand(message: GameBroadcast): Promise<GameBroadcast> {
+    const userId = await this.getUserId();
+    if (!message.view.players.some(player => player.id === userId)) {
+      return message;
+    }
+
+    const { data: cardRows, error } = await supabase
+      .from('cards')
+      .select('id, game_id, suit, value, owner_id, is_on_table, position')
+      .eq('game_id', message.gameId)
+      .eq('owner_id', userId)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+
+    return {
+      ...message,
+      view: { ...message.view, viewerId: userId, hand: (cardRows || []).map(fromCardRow) }
+    };
+  }
+
+  /**
+   * Get (or open) the broadcast channel for a room's game
+   */
+  private getChannel(roomCode: string): RealtimeChannel {
+    let channel = this.channels.get(roomCode);
+    if (!channel) {
+      // Private: only people in the room may listen, and only the game function may send
+      channel = supabase
+        .channel(`game:${roomCode}`, { config: { private: true } })
+        .on('broadcast', { event: 'game_state' }, ({ payload }) => {
+          const broadcast = parseServerMessage(payload);
+          if (broadcast?.type !== 'game_state') return;
+
+          this.addOwnHand(broadcast.payload).then(
+            message => this.eventEmitter.emit('game_state', message),
+            error => console.error('Error loading hand:', error)
+          );
+        });
+      channel.subscribe();
+      this.channels.set(roomCode, channel);
+    }
+    return channel;
+  }
+
+  private async getUserId(): Promise<string> {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session.session) {
+      throw new Error('Usuário não está autenticado.');
     }
+    return session.session.user.id;
   }
 }
 
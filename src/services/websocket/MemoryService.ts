@@ -0,0 +1,229 @@
+import { v4 as uuidv4 } from 'uuid';
+import { playerService } from '@/services/playerService';
+import { ConnectionStatus } from './types';
+import { EventEmitter } from './EventEmitter';
+import { Connection, GameServer, GameServerSnapshot } from './GameServer';
+import type { GameBackend } from './GameBackend';
+import {
+  ClientRequest,
+  ServerEventHandlers,
+  ServerEventType,
+  createClientMessage,
+  parseServerMessage
+} from './protocol';
+
+// The tabs of this site talk to each other here
+const CHANNEL_NAME = 'mau-mau-memory';
+// Held by the tab running the game server; when that tab closes, the next one takes over
+const SERVER_LOCK = 'mau-mau-memory-server';
+// The server's rooms and games, saved so whoever takes over carries on from there
+const SNAPSHOT_KEY = 'mauMauMemoryServer';
+// Older snapshots are from an earlier session and start the server empty
+const SNAPSHOT_MAX_AGE = 60 * 60 * 1000;
+
+// What tabs send each other. Requests and events travel as JSON, as they would over a socket.
+type TabMessage =
+  | { kind: 'hello'; tabId: string } // A new tab asking who runs the server
+  | { kind: 'server'; tabId: string } // The tab that runs the server
+  | { kind: 'connect'; tabId: string; playerId: string }
+  | { kind: 'disconnect'; tabId: string }
+  | { kind: 'request'; tabId: string; data: string }
+  | { kind: 'event'; tabId: string; data: string }; // tabId is who the event is for
+
+/**
+ * A backend that lives in the browser: one tab runs the same GameServer as
+ * `npm run server` and the others reach it over a BroadcastChannel, so two
+ * windows can play each other with no server at all.
+ */
+class MemoryService implements GameBackend {
+  private status: ConnectionStatus = 'disconnected';
+  private events = new EventEmitter();
+  private tabId = uuidv4();
+  private channel: BroadcastChannel | null = null;
+  private connecting: Promise<void> | null = null;
+  private resolveConnecting: (() => void) | null = null;
+  private serverTabId: string | null = null;
+  // Rooms we are present in, to announce again to a new server
+  private trackedRooms = new Set<string>();
+
+  // Only in the tab that runs the server: the server and every tab's connection to it
+  private server: GameServer | null = null;
+  private connections = new Map<string, Connection>();
+
+  // Join the other tabs, and run the server if no one else does
+  connect(): Promise<void> {
+    if (this.status === 'connected') {
+      return Promise.resolve();
+    }
+    if (!this.connecting) {
+      this.status = 'connecting';
+      this.connecting = new Promise(resolve => {
+        this.resolveConnecting = resolve;
+      });
+
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = event => this.handleTabMessage(event.data);
+      window.addEventListener('pagehide', () => this.toServer({ kind: 'disconnect', tabId: this.tabId }));
+
+      // Granted to one tab at a time and held until it closes
+      navigator.locks.request(SERVER_LOCK, () => {
+        this.startServer();
+        return new Promise<void>(() => {});
+      });
+      this.post({ kind: 'hello', tabId: this.tabId });
+    }
+    return this.connecting;
+  }
+
+  // Hand a request to the server; returns the id its replies carry as requestId
+  sendEvent(request: ClientRequest, id: string = uuidv4()): string {
+    if (this.status !== 'connected') {
+      this.connect().then(() => this.sendEvent(request, id));
+      return id;
+    }
+
+    if (request.type === 'track_presence') this.trackedRooms.add(request.payload.roomCode);
+    if (request.type === 'untrack_presence') this.trackedRooms.delete(request.payload.roomCode);
+
+    const message = createClientMessage(request, id);
+    console.log('Sending event:', message);
+    this.toServer({ kind: 'request', tabId: this.tabId, data: JSON.stringify(message) });
+    return id;
+  }
+
+  on<K extends ServerEventType>(event: K, callback: ServerEventHandlers[K]): () => void {
+    return this.events.on(event, callback);
+  }
+
+  onAll(handlers: ServerEventHandlers): () => void {
+    return this.events.onAll(handlers);
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  private handleTabMessage(message: TabMessage): void {
+    switch (message.kind) {
+      case 'server':
+        this.attach(message.tabId);
+        break;
+
+      case 'event':
+        if (message.tabId === this.tabId) this.receive(message.data);
+        break;
+
+      default:
+        // Everything else is for the server
+        if (this.server) this.serve(message);
+    }
+  }
+
+  /**
+   * Some tab, maybe this one, runs the server now: connect to it. If that tab
+   * replaced another, anything may have happened in between.
+   */
+  private attach(serverTabId: string): void {
+    if (serverTabId === this.serverTabId) return;
+    const reconnected = this.serverTabId !== null;
+    this.serverTabId = serverTabId;
+
+    this.toServer({ kind: 'connect', tabId: this.tabId, playerId: playerService.getOrCreatePlayerId() });
+    this.status = 'connected';
+    console.log('Connected to the in-memory game server');
+    this.events.emit('connection_status', { status: this.status });
+
+    if (reconnected) {
+      for (const roomCode of this.trackedRooms) {
+        this.sendEvent({ type: 'track_presence', payload: { roomCode } });
+      }
+      this.events.emit('reconnected', {});
+    }
+    this.resolveConnecting?.();
+    this.resolveConnecting = null;
+  }
+
+  // Answers arrive like socket messages would: later, and as text to be checked
+  private receive(data: string): void {
+    const message = parseServerMessage(JSON.parse(data));
+    if (message) {
+      this.events.dispatch(message);
+    }
+  }
+
+  private startServer(): void {
+    this.server = new GameServer(this.loadSnapshot());
+    console.log('This tab now runs the in-memory game server');
+    this.post({ kind: 'server', tabId: this.tabId });
+    this.attach(this.tabId);
+  }
+
+  // The server's side of the channel
+  private serve(message: Exclude<TabMessage, { kind: 'server' | 'event' }>): void {
+    switch (message.kind) {
+      case 'hello':
+        this.post({ kind: 'server', tabId: this.tabId });
+        break;
+
+      case 'connect': {
+        const { tabId, playerId } = message;
+        this.connections.get(tabId)?.disconnect();
+        this.connections.set(tabId, this.server!.connect(playerId, event => this.toTab(tabId, JSON.stringify(event))));
+        break;
+      }
+
+      case 'disconnect':
+        this.connections.get(message.tabId)?.disconnect();
+        this.connections.delete(message.tabId);
+        break;
+
+      case 'request':
+        this.connections.get(message.tabId)?.receive(message.data);
+        this.saveSnapshot();
+        break;
+    }
+  }
+
+  private toServer(message: Exclude<TabMessage, { kind: 'server' | 'event' }>): void {
+    if (this.server) {
+      this.serve(message);
+    } else {
+      this.post(message);
+    }
+  }
+
+  private toTab(tabId: string, data: string): void {
+    if (tabId === this.tabId) {
+      setTimeout(() => this.receive(data), 0);
+    } else {
+      this.post({ kind: 'event', tabId, data });
+    }
+  }
+
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private loadSnapshot(): GameServerSnapshot | undefined {
+    try {
+      const saved = JSON.parse(localStorage.getItem(SNAPSHOT_KEY) ?? 'null');
+      if (saved && Date.now() - saved.savedAt < SNAPSHOT_MAX_AGE) {
+        return saved.snapshot;
+      }
+    } catch (error) {
+      console.error('Error loading the in-memory game server:', error);
+    }
+    return undefined;
+  }
+
+  private saveSnapshot(): void {
+    try {
+      localStorage.setItem(SNAPSHOT_KEY, JSON.stringify({ savedAt: Date.now(), snapshot: this.server!.snapshot() }));
+    } catch (error) {
+      // Full storage only costs us the hand-over to another tab
+      console.error('Error saving the in-memory game server:', error);
+    }
+  }
+}
+
+export { MemoryService };
@@ -0,0 +1,108 @@
+import { RealtimeChannel, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { EventEmitter } from './EventEmitter';
+import { PresenceStatus } from './types';
+
+// What each open tab shares on a room's presence channel
+interface PresenceMeta {
+  away: boolean;
+}
+
+/**
+ * Who is connected to each room, via Supabase Realtime presence
+ */
+class PresenceService {
+  private eventEmitter: EventEmitter;
+  private channels: Map<string, RealtimeChannel> = new Map();
+
+  constructor(eventEmitter: EventEmitter) {
+    this.eventEmitter = eventEmitter;
+
+    // A hidden tab is still connected, but its player shows as away
+    document.addEventListener('visibilitychange', () => {
+      for (const channel of this.channels.values()) {
+        this.trackState(channel);
+      }
+    });
+  }
+
+  /**
+   * Join a room's presence channel and emit the room's presence on every change
+   */
+  async track(roomCode: string): Promise<void> {
+    try {
+      if (this.channels.has(roomCode)) return;
+      console.log('Tracking presence in room', roomCode);
+      const userId = await this.getUserId();
+      if (this.channels.has(roomCode)) return;
+
+      const channel = supabase.channel(`presence:${roomCode}`, {
+        config: { presence: { key: userId } }
+      });
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          this.eventEmitter.emit('presence', {
+            roomCode,
+            players: this.toPresence(channel.presenceState<PresenceMeta>())
+          });
+        })
+        .subscribe(status => {
+          if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+            this.trackState(channel);
+          }
+        });
+      this.channels.set(roomCode, channel);
+    } catch (error) {
+      console.error('Error in track:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a room's presence channel; everyone else sees us go offline
+   */
+  async untrack(roomCode: string): Promise<void> {
+    const channel = this.channels.get(roomCode);
+    if (!channel) return;
+
+    this.channels.delete(roomCode);
+    await channel.untrack();
+    await supabase.removeChannel(channel);
+  }
+
+  /**
+   * Join every room's presence channel again once the connection is back
+   */
+  resubscribe(): void {
+    for (const roomCode of Array.from(this.channels.keys())) {
+      supabase.removeChannel(this.channels.get(roomCode)!);
+      this.channels.delete(roomCode);
+      this.track(roomCode).catch(error => console.error('Error tracking presence again:', error));
+    }
+  }
+
+  private trackState(channel: RealtimeChannel): void {
+    if (channel.state !== 'joined') return;
+
+    const meta: PresenceMeta = { away: document.visibilityState === 'hidden' };
+    channel.track(meta).catch(error => console.error('Error updating presence:', error));
+  }
+
+  // Several tabs of the same person count as online if any of them is in front
+  private toPresence(state: Record<string, PresenceMeta[]>): Record<string, PresenceStatus> {
+    return Object.fromEntries(Object.entries(state).map(([userId, metas]) => [
+      userId,
+      metas.some(meta => !meta.away) ? 'online' : 'away'
+    ]));
+  }
+
+  private async getUserId(): Promise<string> {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session.session) {
+      throw new Error('Usuário não está autenticado.');
+    }
+    return session.session.user.id;
+  }
+}
+
+export { PresenceService };
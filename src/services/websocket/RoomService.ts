@@ -1,10 +1,17 @@
 
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '@/integrations/supabase/client';
-import { Room } from './types';
+import type { Json } from '@/integrations/supabase/types';
+import { AbsenceSettings, BotDifficulty, RoomRules, TurnTimerSettings } from '@/types/game';
+import { getDefaultGameSettings, getDefaultRoomRules } from '@/utils/gameUtils';
+import { Room, RoomBot } from './types';
+import { parseRoomRules } from './protocol';
 import { EventEmitter } from './EventEmitter';
+import { randomInt } from '@/utils/random';
 
 class RoomService {
   private eventEmitter: EventEmitter;
+  private MESSAGE_LIMIT = 100; // Chat history sent to someone joining a room
 
   constructor(eventEmitter: EventEmitter) {
     this.eventEmitter = eventEmitter;
@@ -16,9 +23,10 @@ class RoomService {
   async getPublicRooms(): Promise<Room[]> {
     try {
       console.log('Fetching public rooms');
+      // Player counts and host nicknames come along in the same query
       const { data: rooms, error } = await supabase
         .from('rooms')
-        .select('id, code, host_id, max_players, is_private')
+        .select('code, max_players, is_private, host:users!rooms_host_id_fkey(nickname), room_players(count)')
         .eq('is_private', false)
         .is('started_at', null);
 
@@ -27,31 +35,7 @@ class RoomService {
         throw error;
       }
 
-      // Get player counts and creator nicknames for each room
-      const roomsWithCounts = await Promise.all(
-        (rooms || []).map(async (room) => {
-          const { count } = await supabase
-            .from('room_players')
-            .select('*', { count: 'exact', head: true })
-            .eq('room_id', room.id);
-            
-          // Get creator nickname
-          const { data: creator } = await supabase
-            .from('users')
-            .select('nickname')
-            .eq('id', room.host_id)
-            .single();
-
-          return {
-            code: room.code,
-            name: `Sala ${room.code}`,
-            playerCount: count || 0,
-            maxPlayers: room.max_players,
-            isPrivate: room.is_private,
-            creatorNickname: creator?.nickname || 'Unknown'
-          };
-        })
-      );
+      const roomsWithCounts: Room[] = (rooms || []).map(room => this.toLobbyRoom(room));
 
       console.log('Emitting room list with', roomsWithCounts.length, 'rooms');
       return roomsWithCounts;
@@ -61,6 +45,29 @@ class RoomService {
     }
   }
 
+  /**
+   * One room as the lobby lists it, with its current player count; null unless
+   * it is public and its game hasn't started
+   */
+  async getPublicRoom(roomId: string): Promise<Room | null> {
+    try {
+      const { data: room, error } = await supabase
+        .from('rooms')
+        .select('code, max_players, is_private, host:users!rooms_host_id_fkey(nickname), room_players(count)')
+        .eq('id', roomId)
+        .eq('is_private', false)
+        .is('started_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return room ? this.toLobbyRoom(room) : null;
+    } catch (error) {
+      console.error('Error in getPublicRoom:', error);
+      throw error;
+    }
+  }
+
   /**
    * Creates a new room
    */
@@ -372,30 +379,14 @@ class RoomService {
   }
 
   /**
-   * Start a game
+   * Fill an empty seat with a bot
    */
-  async startGame(roomCode: string): Promise<void> {
+  async addBot(roomCode: string, difficulty: BotDifficulty): Promise<void> {
     try {
-      console.log('Starting game in room', roomCode);
-      
-      // Find the room
-      const { data: roomData, error: roomError } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('code', roomCode)
-        .single();
-
-      if (roomError) throw roomError;
+      console.log('Adding', difficulty, 'bot to room', roomCode);
+      const roomData = await this.getHostedRoom(roomCode);
+      const bots = this.getBots(roomData.bots);
 
-      // Check if the current user is the host
-      const { data: session } = await supabase.auth.getSession();
-      
-      if (!session.session || session.session.user.id !== roomData.host_id) {
-        console.log('Not room host, cannot start game');
-        throw new Error('Apenas o anfitrião pode iniciar o jogo.');
-      }
-
-      // Check if there are enough players (at least 2)
       const { count, error: countError } = await supabase
         .from('room_players')
         .select('*', { count: 'exact', head: true })
@@ -403,22 +394,98 @@ class RoomService {
 
       if (countError) throw countError;
 
-      if (count && count < 2) {
-        console.log('Not enough players to start game');
-        throw new Error('São necessários pelo menos 2 jogadores para iniciar.');
+      if ((count ?? 0) + bots.length >= (roomData.max_players ?? 4)) {
+        throw new Error('A sala está cheia.');
       }
 
-      // Update room to started
-      const { error: startError } = await supabase
+      const bot: RoomBot = { id: uuidv4(), name: `Bot ${bots.length + 1}`, difficulty };
+      await this.saveBots(roomData.id, [...bots, bot]);
+      
+      console.log('Bot added successfully');
+    } catch (error) {
+      console.error('Error in addBot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a bot out of the room
+   */
+  async removeBot(roomCode: string, botId: string): Promise<void> {
+    try {
+      console.log('Removing bot', botId, 'from room', roomCode);
+      const roomData = await this.getHostedRoom(roomCode);
+      await this.saveBots(roomData.id, this.getBots(roomData.bots).filter(bot => bot.id !== botId));
+      
+      console.log('Bot removed successfully');
+    } catch (error) {
+      console.error('Error in removeBot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Choose what happens to players who drop out once the game is running
+   */
+  async setAbsence(roomCode: string, absence: AbsenceSettings): Promise<void> {
+    try {
+      console.log('Setting absence policy in room', roomCode, absence);
+      const roomData = await this.getHostedRoom(roomCode);
+
+      const { error } = await supabase
         .from('rooms')
-        .update({ started_at: new Date().toISOString() })
+        .update({ absence: absence as unknown as Json })
         .eq('id', roomData.id);
 
-      if (startError) throw startError;
-      
-      console.log('Game started successfully');
+      if (error) throw error;
+
+      console.log('Absence policy saved successfully');
+    } catch (error) {
+      console.error('Error in setAbsence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Choose how long turns may take and what happens when one runs out
+   */
+  async setTurnTimer(roomCode: string, turnTimer: TurnTimerSettings): Promise<void> {
+    try {
+      console.log('Setting turn timer in room', roomCode, turnTimer);
+      const roomData = await this.getHostedRoom(roomCode);
+
+      const { error } = await supabase
+        .from('rooms')
+        .update({ turn_timer: turnTimer as unknown as Json })
+        .eq('id', roomData.id);
+
+      if (error) throw error;
+
+      console.log('Turn timer saved successfully');
+    } catch (error) {
+      console.error('Error in setTurnTimer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Choose the rules the room's games are dealt with
+   */
+  async setRules(roomCode: string, rules: RoomRules): Promise<void> {
+    try {
+      console.log('Setting rules in room', roomCode, rules);
+      const roomData = await this.getHostedRoom(roomCode);
+
+      const { error } = await supabase
+        .from('rooms')
+        .update({ rules: parseRoomRules(rules) as unknown as Json })
+        .eq('id', roomData.id);
+
+      if (error) throw error;
+
+      console.log('Rules saved successfully');
     } catch (error) {
-      console.error('Error in startGame:', error);
+      console.error('Error in setRules:', error);
       throw error;
     }
   }
@@ -430,11 +497,18 @@ class RoomService {
     try {
       console.log('Fetching data for room', roomCode);
       
-      // Get the room information
+      // The room, its players and its latest messages, with nicknames, in one query
       const { data: roomData, error: roomError } = await supabase
         .from('rooms')
-        .select('*')
+        .select(`
+          *,
+          room_players(user_id, joined_at, users(nickname)),
+          messages(id, user_id, content, created_at, users(nickname))
+        `)
         .eq('code', roomCode)
+        .order('joined_at', { referencedTable: 'room_players', ascending: true })
+        .order('created_at', { referencedTable: 'messages', ascending: false })
+        .limit(this.MESSAGE_LIMIT, { referencedTable: 'messages' })
         .single();
 
       if (roomError) {
@@ -442,75 +516,30 @@ class RoomService {
         throw roomError;
       }
 
-      // Get all players with their nicknames
-      const { data: roomPlayers, error: roomPlayersError } = await supabase
-        .from('room_players')
-        .select('user_id')
-        .eq('room_id', roomData.id);
-        
-      if (roomPlayersError) {
-        console.error('Error getting room players:', roomPlayersError);
-        throw roomPlayersError;
-      }
-          
-      // Get nicknames for each player
-      const players = [];
-      if (roomPlayers) {
-        for (const player of roomPlayers) {
-          const { data: userData, error: userDataError } = await supabase
-            .from('users')
-            .select('nickname')
-            .eq('id', player.user_id)
-            .single();
-
-          if (userDataError) {
-            console.error('Error getting user nickname:', userDataError);
-            continue;
-          }
-              
-          players.push({
-            id: player.user_id,
-            nickname: userData?.nickname || 'Unknown',
-            isCreator: player.user_id === roomData.host_id
-          });
-        }
-      }
-
-      // Get messages for the room
-      const { data: roomMessages, error: messagesError } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('room_id', roomData.id)
-        .order('created_at', { ascending: true });
-        
-      if (messagesError) {
-        console.error('Error getting room messages:', messagesError);
-        throw messagesError;
-      }
-          
-      // Get sender nickname for each message
-      const messages = [];
-      if (roomMessages) {
-        for (const message of roomMessages) {
-          const { data: userData, error: userDataError } = await supabase
-            .from('users')
-            .select('nickname')
-            .eq('id', message.user_id)
-            .single();
-
-          if (userDataError) {
-            console.error('Error getting message sender:', userDataError);
-            continue;
-          }
-              
-          messages.push({
-            id: message.id,
-            playerId: message.user_id,
-            playerName: userData?.nickname || 'Unknown',
-            content: message.content,
-            timestamp: message.created_at
-          });
-        }
+      const players: { id: string; nickname: string; isCreator: boolean; bot?: BotDifficulty }[] =
+        roomData.room_players.map(player => ({
+          id: player.user_id,
+          nickname: player.users?.nickname || 'Unknown',
+          isCreator: player.user_id === roomData.host_id
+        }));
+
+      // Fetched newest first so the limit keeps the latest; shown oldest first
+      const messages = roomData.messages.slice().reverse().map(message => ({
+        id: message.id,
+        playerId: message.user_id,
+        playerName: message.users?.nickname || 'Unknown',
+        content: message.content,
+        timestamp: message.created_at
+      }));
+
+      // Bots sit after the people
+      for (const bot of this.getBots(roomData.bots)) {
+        players.push({
+          id: bot.id,
+          nickname: bot.name,
+          isCreator: false,
+          bot: bot.difficulty
+        });
       }
 
       // Format the room data for the client
@@ -520,6 +549,9 @@ class RoomService {
         messages: messages || [],
         gameStarted: !!roomData.started_at,
         creatorId: roomData.host_id,
+        absence: this.getAbsence(roomData.absence),
+        turnTimer: this.getTurnTimer(roomData.turn_timer),
+        rules: this.getRules(roomData.rules),
         isPrivate: roomData.is_private
       };
     } catch (error) {
@@ -528,6 +560,82 @@ class RoomService {
     }
   }
 
+  /**
+   * Bot seats as stored on the room row
+   */
+  getBots(bots: Json | undefined): RoomBot[] {
+    return Array.isArray(bots) ? bots as unknown as RoomBot[] : [];
+  }
+
+  /**
+   * Absence policy as stored on the room row, or the default if none was chosen
+   */
+  getAbsence(absence: Json | null | undefined): AbsenceSettings {
+    return (absence as unknown as AbsenceSettings | null) ?? getDefaultGameSettings().absence;
+  }
+
+  /**
+   * Turn timer as stored on the room row, or the default if none was chosen
+   */
+  getTurnTimer(turnTimer: Json | null | undefined): TurnTimerSettings {
+    return (turnTimer as unknown as TurnTimerSettings | null) ?? getDefaultGameSettings().turnTimer;
+  }
+
+  /**
+   * Rules as stored on the room row, with defaults for whatever wasn't chosen
+   */
+  getRules(rules: Json | null | undefined): RoomRules {
+    return { ...getDefaultRoomRules(), ...(rules as unknown as Partial<RoomRules> | null) };
+  }
+
+  /**
+   * Load a room, making sure the current user hosts it
+   */
+  private async getHostedRoom(roomCode: string) {
+    const { data: roomData, error: roomError } = await supabase
+      .from('rooms')
+      .select('*')
+      .eq('code', roomCode)
+      .single();
+
+    if (roomError) throw roomError;
+
+    const { data: session } = await supabase.auth.getSession();
+    if (!session.session || session.session.user.id !== roomData.host_id) {
+      throw new Error('Apenas o anfitrião pode alterar a sala.');
+    }
+    return roomData;
+  }
+
+  private async saveBots(roomId: string, bots: RoomBot[]): Promise<void> {
+    const { error } = await supabase
+      .from('rooms')
+      .update({ bots: bots as unknown as Json })
+      .eq('id', roomId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * A rooms row, with its host's nickname and player count, as the lobby lists it
+   */
+  private toLobbyRoom(room: {
+    code: string;
+    max_players: number;
+    is_private: boolean;
+    host: { nickname: string } | null;
+    room_players: { count: number }[];
+  }): Room {
+    return {
+      code: room.code,
+      name: `Sala ${room.code}`,
+      playerCount: room.room_players[0]?.count || 0,
+      maxPlayers: room.max_players,
+      isPrivate: room.is_private,
+      creatorNickname: room.host?.nickname || 'Unknown'
+    };
+  }
+
   /**
    * Generate a random room code
    */
@@ -535,7 +643,7 @@ class RoomService {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
     let code = '';
     for (let i = 0; i < 6; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
+      code += chars.charAt(randomInt(chars.length));
     }
     return code;
   }
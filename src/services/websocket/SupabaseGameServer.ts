@@ -0,0 +1,891 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import type { Database, Json } from '@/integrations/supabase/types';
+import {
+  AbsenceSettings,
+  Card,
+  GameAction,
+  GameEvent,
+  GameHistory,
+  GameState,
+  Match,
+  Player,
+  Suit,
+  TurnClock,
+  TurnTimerSettings
+} from '@/types/game';
+import { getAbsenceAction, getDefaultGameSettings, getDrawPileSize, getTimeoutAction } from '@/utils/gameUtils';
+import { applyAction } from '@/utils/gameEngine';
+import { createMatch, recordRound, startMatchRound } from '@/utils/match';
+import { chooseBotAction } from '@/utils/bots';
+import { getPlayerEvents, getPlayerView } from '@/utils/playerView';
+import { isAutomaticAction, isUndoable, replayHistory } from '@/utils/history';
+import { advanceTurnClock, getTurnClockView, getTurnDeadline, restartTurnClock, startTurnClock } from '@/utils/turnClock';
+import { CardRow, fromCardRow, toCardRows } from './cardRows';
+import { ClientMessage, parseRoomRules, PROTOCOL_VERSION, ServerEventType, ServerMessage, ServerPayload } from './protocol';
+import { RoomBot, TakeBack } from './types';
+
+// Everything except the cards themselves is stored on games.state;
+// the cards table is the source of truth for hands, deck and discard pile.
+type StoredGameState = Omit<GameState, 'players' | 'deck' | 'discardPile'> & {
+  players: Omit<Player, 'cards'>[];
+};
+
+interface LoadedGame {
+  gameId: string;
+  roomId: string;
+  hostId: string | null;
+  version: number;
+  state: GameState;
+  match: Match | null;
+  takeBack: TakeBack | null;
+  clock: TurnClock | null;
+  cardRows: Map<string, CardRow>;
+  playerRowIds: Map<string, string>;
+}
+
+/**
+ * The game server of the Supabase backend, run by the game edge function with
+ * the service role. It deals, runs every move through the rules engine and
+ * writes the result; players only ever get to read their own cards.
+ */
+class SupabaseGameServer {
+  private db: SupabaseClient<Database>;
+  private userId: string;
+
+  // userId is whoever sent the request, as their auth token says
+  constructor(db: SupabaseClient<Database>, userId: string) {
+    this.db = db;
+    this.userId = userId;
+  }
+
+  /**
+   * Run one of the current user's game requests. Replies meant for them come
+   * back; everyone in the room hears about the table on its broadcast channel.
+   */
+  async handle(message: ClientMessage): Promise<ServerMessage[]> {
+    const { id, type, payload } = message;
+    switch (type) {
+      case 'start_game':
+        await this.startGame(payload.roomCode);
+        break;
+
+      case 'play_card':
+        await this.playCard(payload.roomCode, payload.cardId, payload.wishedSuit, payload.seq);
+        break;
+
+      case 'bluff_card':
+        await this.bluffCard(payload.roomCode, payload.cardId, payload.claimed, payload.seq);
+        break;
+
+      case 'challenge_bluff':
+        await this.challengeBluff(payload.roomCode);
+        break;
+
+      case 'draw_card':
+        await this.drawCard(payload.roomCode);
+        break;
+
+      case 'pass_turn':
+        await this.passTurn(payload.roomCode);
+        break;
+
+      case 'say_mau_mau':
+        await this.sayMauMau(payload.roomCode);
+        break;
+
+      case 'catch_mau_mau':
+        await this.catchMauMau(payload.roomCode, payload.targetId);
+        break;
+
+      case 'close_mau_mau_window':
+        await this.closeMauMauWindow(payload.roomCode);
+        break;
+
+      case 'bot_turn':
+        await this.playBotTurn(payload.roomCode, payload.botId);
+        break;
+
+      case 'resolve_absence':
+        await this.resolveAbsence(payload.roomCode, payload.playerId);
+        break;
+
+      case 'turn_timeout':
+        await this.expireTurn(payload.roomCode);
+        break;
+
+      case 'reclaim_seat':
+        await this.reclaimSeat(payload.roomCode);
+        break;
+
+      case 'request_take_back':
+        await this.requestTakeBack(payload.roomCode);
+        break;
+
+      case 'answer_take_back':
+        await this.answerTakeBack(payload.roomCode, payload.approve);
+        break;
+
+      case 'sync_game': {
+        const game = await this.syncGame(payload.roomCode);
+        return game ? [this.reply('game_state', game, id)] : [];
+      }
+
+      case 'load_history':
+        return [this.reply('game_history', await this.loadHistory(payload.gameId), id)];
+
+      default:
+        // Rooms, chat and presence go straight to their tables
+        throw new Error('Este pedido não é tratado pelo servidor de jogo.');
+    }
+    return [];
+  }
+
+  /**
+   * Create a game for the room, deal the next round of the match (which marks the
+   * room started) and broadcast the table
+   */
+  async startGame(roomCode: string): Promise<void> {
+    try {
+      console.log('Dealing new game in room', roomCode);
+
+      const { data: roomData, error: roomError } = await this.db
+        .from('rooms')
+        .select('id, host_id, bots, absence, turn_timer, rules')
+        .eq('code', roomCode)
+        .single();
+
+      if (roomError) throw roomError;
+
+      if (roomData.host_id !== this.userId) {
+        throw new Error('Apenas o anfitrião pode iniciar o jogo.');
+      }
+
+      // Dealing again would throw away the hands in play
+      const { data: currentGame, error: currentError } = await this.db
+        .from('games')
+        .select('finished_at')
+        .eq('room_id', roomData.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (currentError) throw currentError;
+
+      if (currentGame && !currentGame.finished_at) {
+        throw new Error('A rodada atual ainda não terminou.');
+      }
+
+      const { data: roomPlayers, error: playersError } = await this.db
+        .from('room_players')
+        .select('user_id, users(nickname)')
+        .eq('room_id', roomData.id)
+        .order('joined_at', { ascending: true });
+
+      if (playersError) throw playersError;
+
+      const bots = Array.isArray(roomData.bots) ? roomData.bots as unknown as RoomBot[] : [];
+      const players = [
+        ...(roomPlayers || []).map(player => ({
+          id: player.user_id,
+          name: player.users?.nickname || 'Unknown'
+        })),
+        ...bots.map(bot => ({ id: bot.id, name: bot.name, bot: bot.difficulty }))
+      ];
+
+      if (players.length < 2) {
+        throw new Error('São necessários pelo menos 2 jogadores para iniciar.');
+      }
+
+      const settings = {
+        ...getDefaultGameSettings(),
+        ...parseRoomRules(roomData.rules),
+        absence: (roomData.absence as unknown as AbsenceSettings | null) ?? getDefaultGameSettings().absence,
+        turnTimer: (roomData.turn_timer as unknown as TurnTimerSettings | null) ?? getDefaultGameSettings().turnTimer
+      };
+      const match = await this.continueMatch(roomData.id, players.map(player => player.id))
+        ?? createMatch(players, settings);
+      if (getDrawPileSize(match.settings.deck, players.length) <= 0) {
+        throw new Error('O baralho é pequeno demais para tantos jogadores.');
+      }
+
+      // Card ids are derived from the game id, so the stored seed replays to the same database ids
+      const gameId = uuidv4();
+      const state = startMatchRound(match, {
+        cardId: card => uuidv5(card.id, gameId)
+      });
+      const now = await this.getNow();
+      const clock = startTurnClock(state, now);
+
+      // Seats are only recorded for people; bots exist on the room and in the state
+      const { error } = await this.db.rpc('deal_game', {
+        p_game: {
+          id: gameId,
+          room_id: roomData.id,
+          started_by: this.userId,
+          state: this.toStoredState(state),
+          initial_state: state as unknown as Json,
+          match: match as unknown as Json,
+          turn_clock: clock as unknown as Json
+        },
+        p_seats: state.players.flatMap((player, index) => player.bot ? [] : [{
+          game_id: gameId,
+          room_id: roomData.id,
+          user_id: player.id,
+          position: index,
+          score: player.score,
+          is_turn: index === state.currentPlayerIndex
+        }]),
+        p_cards: toCardRows(gameId, state) as unknown as Json,
+        p_move: this.toMoveRow(gameId, this.userId, 0, 'deal', null)
+      });
+
+      if (error) throw error;
+
+      await this.broadcastState(roomCode, gameId, 0, state, [], match, null, clock, now);
+
+      console.log('Game dealt successfully');
+    } catch (error) {
+      console.error('Error in startGame:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Play a card
+   */
+  async playCard(roomCode: string, cardId: string, wishedSuit?: Suit, seq?: number): Promise<void> {
+    try {
+      console.log('Playing card in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'play', playerId, cardId, wishedSuit }), seq);
+    } catch (error) {
+      console.error('Error in playCard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Play a card face down, claiming it is another one (bluff rule)
+   */
+  async bluffCard(roomCode: string, cardId: string, claimed: Pick<Card, 'suit' | 'rank'>, seq?: number): Promise<void> {
+    try {
+      console.log('Bluffing card in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'bluff', playerId, cardId, claimed }), seq);
+    } catch (error) {
+      console.error('Error in bluffCard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Challenge the face-down card played by the previous player
+   */
+  async challengeBluff(roomCode: string): Promise<void> {
+    try {
+      console.log('Challenging bluff in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'challenge', playerId }));
+    } catch (error) {
+      console.error('Error in challengeBluff:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Draw a card
+   */
+  async drawCard(roomCode: string): Promise<void> {
+    try {
+      console.log('Drawing card in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'draw', playerId }));
+    } catch (error) {
+      console.error('Error in drawCard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pass the turn after drawing
+   */
+  async passTurn(roomCode: string): Promise<void> {
+    try {
+      console.log('Passing turn in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'pass', playerId }));
+    } catch (error) {
+      console.error('Error in passTurn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Say Mau Mau
+   */
+  async sayMauMau(roomCode: string): Promise<void> {
+    try {
+      console.log('Saying Mau Mau in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'say_mau_mau', playerId }));
+    } catch (error) {
+      console.error('Error in sayMauMau:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Catch an opponent who dropped to one card without saying Mau Mau
+   */
+  async catchMauMau(roomCode: string, targetId: string): Promise<void> {
+    try {
+      console.log('Catching missing Mau Mau in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'catch_mau_mau', playerId, targetId }));
+    } catch (error) {
+      console.error('Error in catchMauMau:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * End the window for catching a missing Mau Mau
+   */
+  async closeMauMauWindow(roomCode: string): Promise<void> {
+    try {
+      console.log('Closing Mau Mau window in room', roomCode);
+      await this.performAction(roomCode, playerId => ({ type: 'close_mau_mau_window', playerId }));
+    } catch (error) {
+      console.error('Error in closeMauMauWindow:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Play a bot's next move; the host's browser drives the room's bots
+   */
+  async playBotTurn(roomCode: string, botId: string): Promise<void> {
+    try {
+      console.log('Playing bot turn in room', roomCode);
+      await this.performAction(roomCode, (playerId, game) => {
+        if (game.hostId !== playerId) {
+          throw new Error('Apenas o anfitrião controla os bots.');
+        }
+        return chooseBotAction(game.state, botId);
+      });
+    } catch (error) {
+      console.error('Error in playBotTurn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the room's absence policy to a player who has been offline past the
+   * grace period; like bots, this is the host's job
+   */
+  async resolveAbsence(roomCode: string, absentId: string): Promise<void> {
+    try {
+      console.log('Resolving absence of', absentId, 'in room', roomCode);
+      await this.performAction(roomCode, (playerId, game) => {
+        if (game.hostId !== playerId) {
+          throw new Error('Apenas o anfitrião decide sobre jogadores ausentes.');
+        }
+        return getAbsenceAction(game.state, absentId);
+      });
+    } catch (error) {
+      console.error('Error in resolveAbsence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The player on turn ran out of time and their bank: the room's timeout policy
+   * moves for them. Anyone at the table may call it, as does the database's expiry
+   * job, but only once the stored deadline has passed by the database's clock.
+   */
+  async expireTurn(roomCode: string): Promise<void> {
+    try {
+      console.log('Expiring turn in room', roomCode);
+      await this.performAction(roomCode, (_playerId, game, now) =>
+        game.clock && now >= getTurnDeadline(game.clock) ? getTimeoutAction(game.state) : null
+      );
+    } catch (error) {
+      console.error('Error in expireTurn:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Back at the table: take the current user's seat back from the bot playing it
+   */
+  async reclaimSeat(roomCode: string): Promise<void> {
+    try {
+      console.log('Reclaiming seat in room', roomCode);
+      await this.performAction(roomCode, (playerId, game) => {
+        const seat = game.state.players.find(player => player.id === playerId);
+        const isPerson = game.match?.players.some(player => player.id === playerId && !player.bot);
+        return seat?.bot && isPerson ? { type: 'take_over_seat', playerId, bot: null } : null;
+      });
+    } catch (error) {
+      console.error('Error in reclaimSeat:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The current table of a room as the current user sees it, if a game was dealt
+   */
+  async syncGame(roomCode: string): Promise<ServerPayload<'game_state'> | null> {
+    try {
+      const [game, now] = await Promise.all([this.loadGame(roomCode, false), this.getNow()]);
+      if (!game) {
+        return null;
+      }
+      return {
+        roomCode,
+        gameId: game.gameId,
+        seq: game.version,
+        view: getPlayerView(game.state, this.userId),
+        events: [],
+        match: game.match,
+        takeBack: game.takeBack,
+        clock: getTurnClockView(game.clock, now)
+      };
+    } catch (error) {
+      console.error('Error in syncGame:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A game's deal and every move since, for the replay viewer. The deal names every
+   * hand and the deck, so only the game's own players get it, once the round is over.
+   */
+  async loadHistory(gameId: string): Promise<ServerPayload<'game_history'>> {
+    try {
+      console.log('Loading history for game', gameId);
+      const { data: gameData, error } = await this.db
+        .from('games')
+        .select('finished_at')
+        .eq('id', gameId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!gameData) {
+        throw new Error('Este jogo não tem histórico salvo');
+      }
+
+      const history = await this.fetchHistory(gameId);
+      if (!history.initialState.players.some(player => player.id === this.userId)) {
+        throw new Error('Você não jogou esta partida.');
+      }
+      if (!gameData.finished_at) {
+        throw new Error('O histórico fica disponível quando a rodada termina.');
+      }
+      return { gameId, history };
+    } catch (error) {
+      console.error('Error in loadHistory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the table to let the current user take back their last move
+   */
+  async requestTakeBack(roomCode: string): Promise<void> {
+    try {
+      console.log('Requesting take-back in room', roomCode);
+      const game = await this.loadGame(roomCode);
+      if (!game.takeBack || game.takeBack.playerId !== this.userId) {
+        throw new Error('Não há jogada sua para desfazer.');
+      }
+
+      await this.updateTakeBack(roomCode, game, { ...game.takeBack, requested: true, approvals: [] });
+    } catch (error) {
+      console.error('Error in requestTakeBack:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or decline a take-back. The host's approval is enough; otherwise
+   * every other person at the table has to agree. One refusal ends the request.
+   */
+  async answerTakeBack(roomCode: string, approve: boolean): Promise<void> {
+    try {
+      console.log('Answering take-back in room', roomCode);
+      const game = await this.loadGame(roomCode);
+      const takeBack = game.takeBack;
+      if (!takeBack?.requested) {
+        throw new Error('Não há pedido para desfazer.');
+      }
+
+      const voters = game.state.players
+        .filter(player => !player.bot && player.id !== takeBack.playerId)
+        .map(player => player.id);
+      const isHost = game.hostId === this.userId && this.userId !== takeBack.playerId;
+      if (!isHost && !voters.includes(this.userId)) {
+        throw new Error('Você não pode responder a este pedido.');
+      }
+
+      if (!approve) {
+        await this.updateTakeBack(roomCode, game, null);
+        return;
+      }
+
+      const approvals = Array.from(new Set([...takeBack.approvals, this.userId]));
+      if (!isHost && !voters.every(voter => approvals.includes(voter))) {
+        await this.updateTakeBack(roomCode, game, { ...takeBack, approvals });
+        return;
+      }
+
+      await this.takeBackMove(roomCode, game, takeBack);
+    } catch (error) {
+      console.error('Error in answerTakeBack:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The match of the room's previous game, if it is still being played by the same people
+   */
+  private async continueMatch(roomId: string, playerIds: string[]): Promise<Match | null> {
+    const { data: previousGame, error } = await this.db
+      .from('games')
+      .select('match')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const match = previousGame?.match as unknown as Match | null;
+    if (!match || match.winnerId) {
+      return null;
+    }
+
+    const samePlayers = match.players.length === playerIds.length &&
+      match.players.every(player => playerIds.includes(player.id));
+    return samePlayers ? match : null;
+  }
+
+  /**
+   * Load the latest game of a room and rebuild its state from the cards table
+   */
+  private async loadGame(roomCode: string, required?: true): Promise<LoadedGame>;
+  private async loadGame(roomCode: string, required: false): Promise<LoadedGame | null>;
+  private async loadGame(roomCode: string, required: boolean = true): Promise<LoadedGame | null> {
+    const { data: roomData, error: roomError } = await this.db
+      .from('rooms')
+      .select('id, host_id')
+      .eq('code', roomCode)
+      .single();
+
+    if (roomError) throw roomError;
+
+    const { data: gameData, error: gameError } = await this.db
+      .from('games')
+      .select('id, state, version, match, take_back, turn_clock')
+      .eq('room_id', roomData.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (gameError) throw gameError;
+
+    if (!gameData || !gameData.state) {
+      if (required) {
+        throw new Error('Nenhum jogo em andamento nesta sala.');
+      }
+      return null;
+    }
+
+    const [{ data: cardRows, error: cardsError }, { data: seatRows, error: seatsError }] = await Promise.all([
+      this.db
+        .from('cards')
+        .select('id, game_id, suit, value, owner_id, is_on_table, position')
+        .eq('game_id', gameData.id),
+      this.db
+        .from('players_game')
+        .select('id, user_id')
+        .eq('game_id', gameData.id)
+    ]);
+
+    if (cardsError) throw cardsError;
+    if (seatsError) throw seatsError;
+
+    const stored = gameData.state as unknown as StoredGameState;
+    const byPosition = (a: CardRow, b: CardRow) => (a.position ?? 0) - (b.position ?? 0);
+    const rows = (cardRows || []).slice().sort(byPosition);
+
+    const state: GameState = {
+      ...stored,
+      players: stored.players.map(player => ({
+        ...player,
+        cards: rows.filter(row => row.owner_id === player.id).map(row => fromCardRow(row))
+      })),
+      deck: rows.filter(row => !row.owner_id && !row.is_on_table).map(row => fromCardRow(row)),
+      discardPile: rows.filter(row => !row.owner_id && row.is_on_table).map(row => fromCardRow(row))
+    };
+
+    return {
+      gameId: gameData.id,
+      roomId: roomData.id,
+      hostId: roomData.host_id,
+      version: gameData.version,
+      state,
+      match: gameData.match as unknown as Match | null,
+      takeBack: gameData.take_back as unknown as TakeBack | null,
+      clock: gameData.turn_clock as unknown as TurnClock | null,
+      cardRows: new Map(rows.map(row => [row.id, row])),
+      playerRowIds: new Map((seatRows || []).map(seat => [seat.user_id, seat.id]))
+    };
+  }
+
+  /**
+   * Run the current user's action through the rules engine and persist the result.
+   * seq, when given, is the version the move expects to create.
+   */
+  private async performAction(
+    roomCode: string,
+    buildAction: (playerId: string, game: LoadedGame, now: number) => GameAction | null,
+    seq?: number
+  ): Promise<void> {
+    const [game, now] = await Promise.all([this.loadGame(roomCode), this.getNow()]);
+    if (seq !== undefined && seq !== game.version + 1) {
+      throw new Error('A mesa mudou antes da sua jogada.');
+    }
+    const action = buildAction(this.userId, game, now);
+    if (!action) return;
+
+    const { state, events } = applyAction(game.state, action);
+
+    const playedCard = events.find(event => event.type === 'card_played');
+    const cardId = playedCard && playedCard.type === 'card_played' ? playedCard.card.id : null;
+
+    await this.saveGame(roomCode, game, state, events, this.userId, action, cardId, now);
+  }
+
+  /**
+   * Persist a new state and the move that led to it, then broadcast it
+   */
+  private async saveGame(
+    roomCode: string,
+    game: LoadedGame,
+    nextState: GameState,
+    events: GameEvent[],
+    userId: string,
+    action: GameAction,
+    cardId: string | null,
+    now: number
+  ): Promise<void> {
+    // The round that just ended goes on the match scoreboard
+    const match = game.match && nextState.gameEnded && !game.state.gameEnded
+      ? recordRound(game.match, nextState)
+      : game.match;
+
+    // A person's move can be taken back until the next move, unless it revealed something hidden
+    const seq = game.version + 1;
+    const mover = nextState.players.find(player => player.id === action.playerId);
+    const takeBack: TakeBack | null =
+      mover && !mover.bot && !nextState.gameEnded && !isAutomaticAction(action) &&
+      isUndoable({ seq, action, events, at: '' })
+        ? { playerId: mover.id, seq, requested: false, approvals: [] }
+        : null;
+    const clock = advanceTurnClock(game.clock, game.state, nextState, events, now);
+
+    await this.writeState(game, nextState, match, takeBack, clock, {
+      move: this.toMoveRow(game.gameId, userId, seq, action.type, cardId, action, events)
+    });
+    await this.broadcastState(roomCode, game.gameId, seq, nextState, events, match, takeBack, clock, now);
+  }
+
+  /**
+   * Write a state in one transaction: the game row (only if nobody saved since we
+   * loaded), moved cards, turn flags and scores, and the move recorded or dropped
+   */
+  private async writeState(
+    game: LoadedGame,
+    nextState: GameState,
+    match: Match | null,
+    takeBack: TakeBack | null,
+    clock: TurnClock | null,
+    moves: { move?: Json; dropMoveSeq?: number } = {}
+  ): Promise<void> {
+    const changedCards = toCardRows(game.gameId, nextState).filter(row => {
+      const previous = game.cardRows.get(row.id);
+      return !previous ||
+        previous.owner_id !== row.owner_id ||
+        !!previous.is_on_table !== row.is_on_table ||
+        previous.position !== row.position;
+    });
+
+    // First write wins: a move computed from an older state writes nothing
+    const { error } = await this.db.rpc('save_game_state', {
+      p_game_id: game.gameId,
+      p_version: game.version,
+      p_state: this.toStoredState(nextState),
+      p_match: match as unknown as Json,
+      p_take_back: takeBack as unknown as Json,
+      p_turn_clock: clock as unknown as Json,
+      p_finished: nextState.gameEnded,
+      p_cards: changedCards as unknown as Json,
+      p_seats: nextState.players.flatMap((player, index) => !game.playerRowIds.has(player.id) ? [] : [{
+        id: game.playerRowIds.get(player.id),
+        position: index,
+        score: player.score,
+        is_turn: !nextState.gameEnded && index === nextState.currentPlayerIndex
+      }]),
+      p_move: moves.move,
+      p_drop_move_seq: moves.dropMoveSeq
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Save a changed take-back request; the table itself stays as it is
+   */
+  private async updateTakeBack(roomCode: string, game: LoadedGame, takeBack: TakeBack | null): Promise<void> {
+    await this.writeState(game, game.state, game.match, takeBack, game.clock);
+    await this.broadcastState(
+      roomCode, game.gameId, game.version + 1, game.state, [], game.match, takeBack, game.clock, await this.getNow()
+    );
+  }
+
+  /**
+   * Undo the last move: replay the game without it, write that state and drop the move
+   */
+  private async takeBackMove(roomCode: string, game: LoadedGame, takeBack: TakeBack): Promise<void> {
+    const history = await this.fetchHistory(game.gameId);
+    const lastMove = history.entries[history.entries.length - 1];
+    if (!lastMove || lastMove.seq !== takeBack.seq) {
+      throw new Error('Esta jogada já não pode ser desfeita.');
+    }
+
+    const states = replayHistory({ ...history, entries: history.entries.slice(0, -1) });
+    const previousState = states[states.length - 1];
+    const now = await this.getNow();
+    const clock = game.clock && restartTurnClock(game.clock, previousState, now);
+
+    await this.writeState(game, previousState, game.match, null, clock, { dropMoveSeq: takeBack.seq });
+
+    const events: GameEvent[] = [{ type: 'move_taken_back', playerId: takeBack.playerId }];
+    await this.broadcastState(roomCode, game.gameId, game.version + 1, previousState, events, game.match, null, clock, now);
+  }
+
+  /**
+   * A game's deal and its moves in order
+   */
+  private async fetchHistory(gameId: string): Promise<GameHistory> {
+    const { data: gameData, error: gameError } = await this.db
+      .from('games')
+      .select('initial_state')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError) throw gameError;
+    if (!gameData.initial_state) {
+      throw new Error('Este jogo não tem histórico salvo');
+    }
+
+    const { data: moveRows, error: movesError } = await this.db
+      .from('moves')
+      .select('seq, action, events, created_at')
+      .eq('game_id', gameId)
+      .gt('seq', 0)
+      .order('seq', { ascending: true });
+
+    if (movesError) throw movesError;
+
+    return {
+      initialState: gameData.initial_state as unknown as GameState,
+      entries: (moveRows || []).map(row => ({
+        seq: row.seq!,
+        action: row.action as unknown as GameAction,
+        events: row.events as unknown as GameEvent[],
+        at: row.created_at ?? ''
+      }))
+    };
+  }
+
+  /**
+   * A row for the moves table. seq is the game version the move created
+   * (0 for the deal), so moves replay in order.
+   */
+  private toMoveRow(
+    gameId: string,
+    userId: string,
+    seq: number,
+    moveType: string,
+    cardId: string | null,
+    action: GameAction | null = null,
+    events: GameEvent[] = []
+  ): Json {
+    return {
+      game_id: gameId,
+      user_id: userId,
+      seq,
+      move_type: moveType,
+      card_id: cardId,
+      action: action as unknown as Json,
+      events: events as unknown as Json
+    };
+  }
+
+  /**
+   * Send the public view to everyone in the room; each client adds its own hand.
+   * The channel is private: only the service role may send on it.
+   */
+  private async broadcastState(
+    roomCode: string,
+    gameId: string,
+    seq: number,
+    state: GameState,
+    events: GameEvent[],
+    match: Match | null,
+    takeBack: TakeBack | null,
+    clock: TurnClock | null,
+    now: number
+  ): Promise<void> {
+    const payload: ServerPayload<'game_state'> = {
+      roomCode,
+      gameId,
+      seq,
+      view: getPlayerView(state, null),
+      events: getPlayerEvents(events, null),
+      match,
+      takeBack,
+      clock: getTurnClockView(clock, now)
+    };
+    const message: ServerMessage<'game_state'> = { v: PROTOCOL_VERSION, type: 'game_state', payload };
+    // Not subscribed, so this goes out over HTTP
+    const channel = this.db.channel(`game:${roomCode}`, { config: { private: true } });
+    await channel.send({
+      type: 'broadcast',
+      event: 'game_state',
+      payload: message
+    });
+    await this.db.removeChannel(channel);
+  }
+
+  /**
+   * The database's time, in epoch milliseconds. Turn clocks are stamped and checked
+   * with it, so no one machine's clock decides when a turn runs out.
+   */
+  private async getNow(): Promise<number> {
+    const { data, error } = await this.db.rpc('clock_now');
+    if (error) throw error;
+    return data;
+  }
+
+  private reply<K extends ServerEventType>(type: K, payload: ServerPayload<K>, requestId: string): ServerMessage {
+    return { v: PROTOCOL_VERSION, type, payload, requestId } as ServerMessage;
+  }
+
+  private toStoredState(state: GameState): Json {
+    const { deck, discardPile, players, ...rest } = state;
+    const stored: StoredGameState = {
+      ...rest,
+      players: players.map(({ cards, ...player }) => player)
+    };
+    return stored as unknown as Json;
+  }
+}
+
+export { SupabaseGameServer };
@@ -1,10 +1,16 @@
 
+import { RealtimeChannel, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { EventEmitter } from './EventEmitter';
 import { ConnectionStatus } from './types';
 import { RoomService } from './RoomService';
 import { ChatService } from './ChatService';
 
+type RoomRow = Database['public']['Tables']['rooms']['Row'];
+type RoomPlayerRow = Database['public']['Tables']['room_players']['Row'];
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+
 /**
  * Service to handle real-time updates via Supabase
  */
@@ -12,13 +18,25 @@ class SupabaseRealTimeService {
   private eventEmitter: EventEmitter;
   private roomService: RoomService;
   private chatService: ChatService;
-  private channels: Map<string, any> = new Map();
+  private channels: Map<string, RealtimeChannel> = new Map();
+  private rooms: Map<string, string> = new Map(); // Code -> id of the rooms we follow
   private status: ConnectionStatus = 'disconnected';
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 8;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
 
   constructor(eventEmitter: EventEmitter, roomService: RoomService, chatService: ChatService) {
     this.eventEmitter = eventEmitter;
     this.roomService = roomService;
     this.chatService = chatService;
+
+    // A phone waking up or a network coming back: check the subscriptions right away
+    window.addEventListener('online', () => this.checkConnection());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        this.checkConnection();
+      }
+    });
   }
 
   /**
@@ -38,9 +56,9 @@ class SupabaseRealTimeService {
       
       if (data.session) {
         console.log('Connected to Supabase with session:', data.session.user.id);
+        this.setupRealTimeSubscriptions();
         this.setStatus('connected');
         this.eventEmitter.emit('connection_status', { status: 'connected' });
-        this.setupRealTimeSubscriptions();
       } else {
         console.log('No active session found');
         this.setStatus('disconnected');
@@ -57,136 +75,253 @@ class SupabaseRealTimeService {
    * Disconnects from Supabase real-time services
    */
   disconnect(): void {
+    this.cancelReconnect();
+    this.removeChannels();
+    
+    this.setStatus('disconnected');
+    this.eventEmitter.emit('connection_status', { status: 'disconnected' });
+  }
+  
+  /**
+   * Reconnect if the socket or any subscription has dropped
+   */
+  checkConnection(): void {
+    if (this.status !== 'connected') return;
+    
+    const dropped = !supabase.realtime.isConnected() ||
+      Array.from(this.channels.values()).some(channel => channel.state !== 'joined' && channel.state !== 'joining');
+    if (dropped) {
+      this.scheduleReconnect();
+    }
+  }
+  
+  /**
+   * Try again with exponential backoff (1s, 2s, 4s... up to 30s) until the
+   * subscriptions are back or the attempts run out
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimeout || this.status === 'disconnected') return;
+    
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.error('Giving up reconnecting after', this.reconnectAttempts, 'attempts');
+      this.disconnect();
+      return;
+    }
+    
+    this.setStatus('reconnecting');
+    this.eventEmitter.emit('connection_status', { status: 'reconnecting' });
+    
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, 30000);
+    this.reconnectAttempts++;
+    console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.reconnect();
+    }, delay);
+  }
+  
+  private async reconnect(): Promise<void> {
+    this.removeChannels();
+    
+    const { data, error } = await supabase.auth.getSession();
+    if (error || !data.session) {
+      console.error('Error getting session while reconnecting:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    
+    if (!supabase.realtime.isConnected()) {
+      supabase.realtime.connect();
+    }
+    this.setupRealTimeSubscriptions();
+  }
+  
+  private cancelReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+  }
+  
+  private removeChannels(): void {
     for (const [key, channel] of this.channels.entries()) {
-      channel.unsubscribe();
+      supabase.removeChannel(channel);
       this.channels.delete(key);
     }
+  }
+  
+  /**
+   * Follow a subscription: a failure starts the reconnect loop, and once every
+   * channel is back the rest of the app is told to fetch a fresh snapshot
+   */
+  private handleSubscribeStatus(status: REALTIME_SUBSCRIBE_STATES): void {
+    if (status === REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR || status === REALTIME_SUBSCRIBE_STATES.TIMED_OUT) {
+      this.scheduleReconnect();
+      return;
+    }
     
-    this.setStatus('disconnected');
-    this.eventEmitter.emit('connection_status', { status: 'disconnected' });
+    const allJoined = Array.from(this.channels.values()).every(channel => channel.state === 'joined');
+    if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED && this.status === 'reconnecting' && allJoined) {
+      console.log('Reconnected to Supabase real-time');
+      this.cancelReconnect();
+      this.setStatus('connected');
+      this.eventEmitter.emit('connection_status', { status: 'connected' });
+      this.eventEmitter.emit('reconnected', {});
+    }
   }
   
   /**
-   * Set up real-time subscriptions to Supabase tables
+   * Follow a room's own rows: the room itself, who is in it and its chat.
+   * Resolves once the room is found; the channel is restored on reconnect.
+   */
+  async subscribeToRoom(roomCode: string): Promise<void> {
+    if (this.rooms.has(roomCode)) return;
+    
+    const { data: roomData, error } = await supabase
+      .from('rooms')
+      .select('id')
+      .eq('code', roomCode)
+      .single();
+    
+    if (error) throw error;
+    
+    this.rooms.set(roomCode, roomData.id);
+    if (this.status !== 'disconnected') {
+      this.setupRoomChannel(roomCode, roomData.id);
+    }
+  }
+  
+  /**
+   * Stop following a room we left
+   */
+  unsubscribeFromRoom(roomCode: string): void {
+    this.rooms.delete(roomCode);
+    const channel = this.channels.get(`room:${roomCode}`);
+    if (channel) {
+      supabase.removeChannel(channel);
+      this.channels.delete(`room:${roomCode}`);
+    }
+  }
+  
+  /**
+   * Set up the lobby feed and a channel for every room we are in
    */
   private setupRealTimeSubscriptions(): void {
-    // Subscribe to room changes
-    const roomsChannel = supabase
-      .channel('public:rooms')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'rooms' }, 
+    // Public rooms opening, filling up and closing, for the room list
+    const lobbyChannel = supabase
+      .channel('lobby')
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'rooms', filter: 'is_private=eq.false' },
+        (payload) => this.updateLobbyRoom(payload.new.id))
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'room_players' },
+        (payload) => this.updateLobbyRoom(payload.new.room_id))
+      .on('postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'room_players' },
+        (payload) => this.updateLobbyRoom(payload.old.room_id))
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'rooms', filter: 'is_private=eq.false' },
         (payload) => {
-          console.log('Room change detected:', payload);
-          if (payload.eventType === 'INSERT') {
-            this.handleNewRoom(payload.new);
-          } else if (payload.eventType === 'UPDATE') {
-            this.handleRoomUpdate(payload.new);
-          } else if (payload.eventType === 'DELETE') {
-            this.handleRoomDelete(payload.old);
+          if (payload.new.started_at) {
+            this.eventEmitter.emit('lobby_room_removed', { roomCode: payload.new.code });
           }
         })
-      .subscribe();
+      .on('postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'rooms' },
+        (payload) => this.eventEmitter.emit('lobby_room_removed', { roomCode: payload.old.code }))
+      .subscribe(status => this.handleSubscribeStatus(status));
     
-    this.channels.set('rooms', roomsChannel);
-
-    // Subscribe to room_players changes
-    const playersChannel = supabase
-      .channel('public:room_players')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'room_players' }, 
+    this.channels.set('lobby', lobbyChannel);
+    
+    for (const [roomCode, roomId] of this.rooms.entries()) {
+      this.setupRoomChannel(roomCode, roomId);
+    }
+  }
+  
+  /**
+   * Changes to one room's rows only. Deletes can't be filtered by the server,
+   * so those are checked against the room id here.
+   */
+  private setupRoomChannel(roomCode: string, roomId: string): void {
+    const channel = supabase
+      .channel(`room:${roomCode}`)
+      .on<RoomRow>('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'rooms', filter: `id=eq.${roomId}` },
+        (payload) => this.handleRoomUpdate(roomCode, payload.new))
+      .on<RoomRow>('postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'rooms', filter: `id=eq.${roomId}` },
         (payload) => {
-          console.log('Room player change detected:', payload);
-          if (payload.eventType === 'INSERT') {
-            this.handlePlayerJoin(payload.new);
-          } else if (payload.eventType === 'DELETE') {
-            this.handlePlayerLeave(payload.old);
+          if (payload.old.id === roomId) {
+            this.handleRoomDelete(roomCode);
           }
         })
-      .subscribe();
-    
-    this.channels.set('room_players', playersChannel);
-
-    // Subscribe to messages
-    const messagesChannel = supabase
-      .channel('public:messages')
-      .on('postgres_changes', 
-        { event: 'INSERT', schema: 'public', table: 'messages' }, 
+      .on<RoomPlayerRow>('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'room_players', filter: `room_id=eq.${roomId}` },
+        (payload) => this.handlePlayerJoin(roomCode, payload.new))
+      .on<RoomPlayerRow>('postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'room_players', filter: `room_id=eq.${roomId}` },
         (payload) => {
-          console.log('New message detected:', payload);
-          this.handleNewMessage(payload.new);
+          if (payload.old.room_id === roomId) {
+            this.handlePlayerLeave(roomCode, payload.old);
+          }
         })
-      .subscribe();
+      .on<MessageRow>('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `room_id=eq.${roomId}` },
+        (payload) => this.handleNewMessage(payload.new))
+      .subscribe(status => this.handleSubscribeStatus(status));
     
-    this.channels.set('messages', messagesChannel);
+    this.channels.set(`room:${roomCode}`, channel);
   }
   
   /**
    * Handle room updates
    */
-  private async handleRoomUpdate(room: any): Promise<void> {
+  private handleRoomUpdate(roomCode: string, room: RoomRow): void {
     console.log('Room updated:', room);
+    this.eventEmitter.emit('room_bots', { roomCode, bots: this.roomService.getBots(room.bots) });
+    this.eventEmitter.emit('room_absence', { roomCode, absence: this.roomService.getAbsence(room.absence) });
+    this.eventEmitter.emit('room_turn_timer', { roomCode, turnTimer: this.roomService.getTurnTimer(room.turn_timer) });
+    this.eventEmitter.emit('room_rules', { roomCode, rules: this.roomService.getRules(room.rules) });
     if (room.started_at) {
-      this.eventEmitter.emit('game_started', { roomCode: room.code });
+      this.eventEmitter.emit('game_started', { roomCode });
     }
   }
   
   /**
-   * Handle new room creation
+   * A room was opened or someone joined or left one: list it again with its
+   * current player count. Private and started rooms aren't listed.
    */
-  private async handleNewRoom(room: any): Promise<void> {
-    console.log('New room created:', room);
+  private async updateLobbyRoom(roomId: string): Promise<void> {
     try {
-      // Get creator data
-      const { data: creatorData } = await supabase
-        .from('users')
-        .select('nickname')
-        .eq('id', room.host_id)
-        .single();
-
-      const roomData = {
-        code: room.code,
-        name: `Sala ${room.code}`,
-        playerCount: 1,
-        maxPlayers: room.max_players,
-        isPrivate: room.is_private,
-        creatorNickname: creatorData?.nickname || 'Unknown'
-      };
-
-      // Check if this is the user's created room
-      const { data: session } = await supabase.auth.getSession();
-      if (session.session && session.session.user.id === room.host_id) {
-        console.log('This is my room, emitting room_created event', roomData);
-        this.eventEmitter.emit('room_created', { room: roomData });
+      const room = await this.roomService.getPublicRoom(roomId);
+      if (room) {
+        this.eventEmitter.emit('lobby_room_added', { room });
       }
     } catch (error) {
-      console.error('Error in handleNewRoom:', error);
+      console.error('Error in updateLobbyRoom:', error);
     }
   }
   
   /**
    * Handle room deletion
    */
-  private handleRoomDelete(room: any): void {
-    console.log('Room deleted:', room);
+  private handleRoomDelete(roomCode: string): void {
+    console.log('Room deleted:', roomCode);
     // Notify any subscribers that room has been deleted
-    this.eventEmitter.emit('room_deleted', { roomCode: room.code });
+    this.eventEmitter.emit('room_deleted', { roomCode });
   }
   
   /**
-   * Handle player joining a room
+   * Handle player joining the room. Our own joins are announced by whoever
+   * joined us, with the full room data.
    */
-  private async handlePlayerJoin(playerData: any): Promise<void> {
+  private async handlePlayerJoin(roomCode: string, playerData: RoomPlayerRow): Promise<void> {
     try {
-      console.log('Player joined a room:', playerData);
-      // Get the room information
-      const { data: roomData, error: roomError } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('id', playerData.room_id)
-        .single();
-
-      if (roomError || !roomData) {
-        console.error('Error getting room data:', roomError);
+      console.log('Player joined the room:', playerData);
+      const { data: session } = await supabase.auth.getSession();
+      if (session.session && session.session.user.id === playerData.user_id) {
         return;
       }
 
@@ -202,55 +337,36 @@ class SupabaseRealTimeService {
         return;
       }
 
-      // Check if this is the current user joining a room
-      const { data: session } = await supabase.auth.getSession();
-      if (session.session && session.session.user.id === playerData.user_id) {
-        console.log('This is me joining a room:', roomData.code);
-        
-        // Get room data with players and messages
-        const roomWithData = await this.roomService.getRoomData(roomData.code);
-        
-        console.log('Emitting room_joined event with data:', roomWithData);
-        this.eventEmitter.emit('room_joined', { room: roomWithData });
-      } else {
-        // Notify about player joining if room is being viewed
-        console.log('Another player joined the room:', userData?.nickname);
-        this.eventEmitter.emit('player_joined', { 
-          roomCode: roomData.code,
-          player: {
-            id: playerData.user_id,
-            nickname: userData?.nickname || 'Unknown',
-            isCreator: playerData.user_id === roomData.host_id
-          }
-        });
-      }
+      // Whoever joins an existing room can't be its host
+      console.log('Another player joined the room:', userData?.nickname);
+      this.eventEmitter.emit('player_joined', { 
+        roomCode,
+        player: {
+          id: playerData.user_id,
+          nickname: userData?.nickname || 'Unknown',
+          isCreator: false
+        }
+      });
     } catch (error) {
       console.error('Error in handlePlayerJoin:', error);
     }
   }
   
   /**
-   * Handle player leaving a room
+   * Handle player leaving the room. Deleted rows come typed as partial, though
+   * with full replica identity every column is there.
    */
-  private async handlePlayerLeave(playerData: any): Promise<void> {
+  private async handlePlayerLeave(roomCode: string, playerData: Partial<RoomPlayerRow>): Promise<void> {
     try {
-      console.log('Player left a room:', playerData);
+      console.log('Player left the room:', playerData);
       // Get the current user's session
       const { data: session } = await supabase.auth.getSession();
       
-      // Get room information to have the code
-      const { data: roomData } = await supabase
-        .from('rooms')
-        .select('code')
-        .eq('id', playerData.room_id)
-        .single();
-      
-      const roomCode = roomData?.code || '';
-      
       // If it's the current user, emit player_kicked event
       if (session.session && session.session.user.id === playerData.user_id) {
         console.log('I was removed from the room');
         this.eventEmitter.emit('player_kicked', { 
+          roomCode,
           reason: 'Você saiu da sala ou foi removido pelo anfitrião.'
         });
       } else {
@@ -264,7 +380,7 @@ class SupabaseRealTimeService {
         // Notify about player leaving
         console.log('Another player left the room:', userData?.nickname);
         this.eventEmitter.emit('player_left', { 
-          roomCode: roomCode,
+          roomCode,
           playerId: playerData.user_id,
           playerName: userData?.nickname || 'Unknown'
         });
@@ -277,7 +393,7 @@ class SupabaseRealTimeService {
   /**
    * Handle new messages
    */
-  private async handleNewMessage(message: any): Promise<void> {
+  private async handleNewMessage(message: MessageRow): Promise<void> {
     try {
       // Get sender information
       const { data: userData } = await supabase
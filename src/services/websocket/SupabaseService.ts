@@ -3,19 +3,34 @@ import { EventEmitter } from './EventEmitter';
 import { RoomService } from './RoomService';
 import { ChatService } from './ChatService';
 import { GameService } from './GameService';
+import { PresenceService } from './PresenceService';
 import { SupabaseRealTimeService } from './SupabaseRealTimeService';
-import { WebSocketEvent, ConnectionStatus } from './types';
+import { ConnectionStatus } from './types';
+import type { GameBackend } from './GameBackend';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ClientMessage,
+  ClientRequest,
+  ServerEventHandlers,
+  ServerEventType,
+  createClientMessage,
+  parseClientMessage
+} from './protocol';
 
 /**
  * Main service for managing Supabase interactions
  */
-class SupabaseService {
+class SupabaseService implements GameBackend {
   private eventEmitter: EventEmitter;
   private roomService: RoomService;
   private chatService: ChatService;
   private gameService: GameService;
+  private presenceService: PresenceService;
   private realtimeService: SupabaseRealTimeService;
   private status: ConnectionStatus = 'disconnected';
+  // Requests are handled one after another, as a socket delivers them. A move made
+  // ahead of the table's reply is checked against the state the one before it left.
+  private pending: Promise<void> = Promise.resolve();
 
   constructor() {
     // Initialize the event emitter
@@ -25,10 +40,21 @@ class SupabaseService {
     this.roomService = new RoomService(this.eventEmitter);
     this.chatService = new ChatService(this.eventEmitter);
     this.gameService = new GameService(this.eventEmitter);
+    this.presenceService = new PresenceService(this.eventEmitter);
     this.realtimeService = new SupabaseRealTimeService(this.eventEmitter, this.roomService, this.chatService);
     
-    // Set initial status
-    this.setStatus('disconnected');
+    // Game and presence channels are ours to restore; the real-time service restores its own
+    this.eventEmitter.on('reconnected', () => {
+      this.gameService.resubscribe();
+      this.presenceService.resubscribe();
+    });
+    
+    // Removed from a room, or the room is gone: stop following it
+    this.eventEmitter.on('player_kicked', ({ roomCode }) => this.exitRoom(roomCode));
+    this.eventEmitter.on('room_deleted', ({ roomCode }) => this.exitRoom(roomCode));
+    
+    // The real-time service reports how the connection is doing
+    this.eventEmitter.on('connection_status', ({ status }) => this.setStatus(status));
   }
 
   /**
@@ -47,94 +73,198 @@ class SupabaseService {
   /**
    * Register an event handler
    */
-  on<T>(event: string, callback: (data: T) => void): () => void {
-    return this.eventEmitter.on<T>(event, callback);
+  on<K extends ServerEventType>(event: K, callback: ServerEventHandlers[K]): () => void {
+    return this.eventEmitter.on(event, callback);
   }
 
   /**
-   * Send an event to the Supabase backend
+   * Register a handler for every server event
    */
-  async sendEvent(event: WebSocketEvent): Promise<void> {
-    const { type, payload } = event;
-    
+  onAll(handlers: ServerEventHandlers): () => void {
+    return this.eventEmitter.onAll(handlers);
+  }
+
+  /**
+   * Send a request to the Supabase backend. Returns the id that replies and
+   * errors to it carry as requestId.
+   */
+  sendEvent(request: ClientRequest): string {
+    const id = uuidv4();
+    let message: ClientMessage;
     try {
-      console.log(`Sending ${type} event with payload:`, payload);
-      switch (type) {
-        case 'create_room':
-          const roomCode = await this.roomService.createRoom(
-            payload.nickname,
-            payload.playerId,
-            payload.isPrivate
-          );
-          // Room created event will be emitted by the real-time subscription
-          break;
-          
-        case 'join_room':
-          await this.roomService.joinRoom(
-            payload.roomCode,
-            payload.nickname,
-            payload.playerId
-          );
-          // Room joined event will be emitted by the real-time subscription
-          break;
-          
-        case 'leave_room':
-          await this.roomService.leaveRoom(
-            payload.roomCode,
-            payload.playerId
-          );
-          // Player left event will be emitted by the real-time subscription
-          break;
-          
-        case 'kick_player':
-          await this.roomService.kickPlayer(
-            payload.roomCode,
-            payload.targetPlayerId
-          );
-          // Player kicked event will be emitted by the real-time subscription
-          break;
-          
-        case 'start_game':
-          await this.roomService.startGame(payload.roomCode);
-          // Game started event will be emitted by the real-time subscription
-          break;
-          
-        case 'chat_message':
-          await this.chatService.sendMessage(
-            payload.roomCode,
-            payload.playerId,
-            payload.message
-          );
-          // Chat message event will be emitted by the real-time subscription
-          break;
-          
-        case 'play_card':
-          await this.gameService.playCard(
-            payload.roomCode,
-            payload.cardId
-          );
-          break;
-          
-        case 'draw_card':
-          await this.gameService.drawCard(payload.roomCode);
-          break;
-          
-        case 'say_mau_mau':
-          await this.gameService.sayMauMau(payload.roomCode);
-          break;
-          
-        case 'room_list':
-          const rooms = await this.roomService.getPublicRooms();
-          this.eventEmitter.emit('room_list', { rooms });
-          break;
-          
-        default:
-          console.warn('Unhandled event type:', type);
-      }
+      message = parseClientMessage(createClientMessage(request, id));
     } catch (error) {
-      console.error(`Error processing ${type} event:`, error);
-      this.eventEmitter.emit('error', { message: error instanceof Error ? error.message : 'Ocorreu um erro ao processar sua solicitação.' });
+      this.eventEmitter.emit('error', { message: (error as Error).message }, id);
+      return id;
     }
+
+    this.pending = this.pending.then(() => this.handleMessage(message)).catch(error => {
+      console.error(`Error processing ${message.type} event:`, error);
+      this.eventEmitter.emit('error', { message: error instanceof Error ? error.message : 'Ocorreu um erro ao processar sua solicitação.' }, id);
+    });
+    return id;
+  }
+
+  /**
+   * Get current connection status
+   */
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  private async handleMessage(message: ClientMessage): Promise<void> {
+    const { id, type, payload } = message;
+    switch (type) {
+      case 'create_room': {
+        const roomCode = await this.roomService.createRoom(
+          payload.nickname,
+          payload.playerId,
+          payload.isPrivate
+        );
+        this.eventEmitter.emit('room_created', {
+          room: {
+            code: roomCode,
+            name: `Sala ${roomCode}`,
+            playerCount: 1,
+            maxPlayers: 4,
+            isPrivate: payload.isPrivate,
+            creatorNickname: payload.nickname
+          }
+        }, id);
+        await this.enterRoom(roomCode, id);
+        break;
+      }
+        
+      case 'join_room':
+        await this.roomService.joinRoom(
+          payload.roomCode,
+          payload.nickname,
+          payload.playerId
+        );
+        await this.enterRoom(payload.roomCode, id);
+        break;
+        
+      case 'leave_room':
+        // Stop listening first, or our own leaving would look like being kicked
+        this.exitRoom(payload.roomCode);
+        await this.roomService.leaveRoom(
+          payload.roomCode,
+          payload.playerId
+        );
+        // Player left event will be emitted by the room's channel
+        break;
+        
+      case 'kick_player':
+        await this.roomService.kickPlayer(
+          payload.roomCode,
+          payload.targetPlayerId
+        );
+        // Player kicked event will be emitted by the real-time subscription
+        break;
+        
+      case 'add_bot':
+        await this.roomService.addBot(payload.roomCode, payload.difficulty);
+        // The room update carries the new seat to everyone
+        break;
+        
+      case 'remove_bot':
+        await this.roomService.removeBot(payload.roomCode, payload.botId);
+        break;
+        
+      case 'set_absence':
+        await this.roomService.setAbsence(payload.roomCode, payload.absence);
+        break;
+        
+      case 'set_turn_timer':
+        await this.roomService.setTurnTimer(payload.roomCode, payload.turnTimer);
+        break;
+        
+      case 'set_rules':
+        await this.roomService.setRules(payload.roomCode, payload.rules);
+        break;
+        
+      case 'track_presence':
+        await this.presenceService.track(payload.roomCode);
+        break;
+        
+      case 'untrack_presence':
+        await this.presenceService.untrack(payload.roomCode);
+        break;
+        
+      case 'start_game':
+        // The function deals and marks the room started in one transaction;
+        // game started event will be emitted by the real-time subscription
+        await this.gameService.send(message);
+        break;
+        
+      case 'chat_message':
+        await this.chatService.sendMessage(
+          payload.roomCode,
+          payload.playerId,
+          payload.message
+        );
+        // Chat message event will be emitted by the real-time subscription
+        break;
+        
+      // The game edge function plays these, holding the cards we may not see
+      case 'play_card':
+      case 'bluff_card':
+      case 'challenge_bluff':
+      case 'draw_card':
+      case 'pass_turn':
+      case 'say_mau_mau':
+      case 'catch_mau_mau':
+      case 'close_mau_mau_window':
+      case 'bot_turn':
+      case 'resolve_absence':
+      case 'turn_timeout':
+      case 'reclaim_seat':
+      case 'request_take_back':
+      case 'answer_take_back':
+      case 'load_history':
+        await this.gameService.send(message);
+        break;
+        
+      case 'resync': {
+        // Anything may have happened while we were away: reload the room, then the table
+        const room = await this.enterRoom(payload.roomCode, id);
+        if (room.gameStarted) {
+          await this.gameService.syncGame(createClientMessage({ type: 'sync_game', payload: { roomCode: payload.roomCode } }, id));
+        }
+        break;
+      }
+        
+      case 'sync_game':
+        await this.gameService.syncGame(message);
+        break;
+        
+      case 'room_list': {
+        const rooms = await this.roomService.getPublicRooms();
+        this.eventEmitter.emit('room_list', { rooms }, id);
+        break;
+      }
+        
+      default: {
+        // A request type without a case here fails to compile
+        const unhandled: never = type;
+        console.warn('Unhandled event type:', unhandled);
+      }
+    }
+  }
+
+  /**
+   * Follow a room's channel, then hand its full data to the app
+   */
+  private async enterRoom(roomCode: string, requestId?: string) {
+    await this.realtimeService.subscribeToRoom(roomCode);
+    const room = await this.roomService.getRoomData(roomCode);
+    this.eventEmitter.emit('room_joined', { room }, requestId);
+    return room;
+  }
+  
+  private exitRoom(roomCode: string): void {
+    this.gameService.leaveGame(roomCode);
+    this.realtimeService.unsubscribeFromRoom(roomCode);
   }
 
   /**
@@ -145,5 +275,4 @@ class SupabaseService {
   }
 }
 
-// Create singleton instance
-export const supabaseService = new SupabaseService();
+export { SupabaseService };
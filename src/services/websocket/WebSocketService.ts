@@ -1,147 +1,177 @@
+import { v4 as uuidv4 } from 'uuid';
+import { playerService } from '@/services/playerService';
+import { ConnectionStatus } from './types';
+import { EventEmitter } from './EventEmitter';
+import type { GameBackend } from './GameBackend';
+import {
+  ClientRequest,
+  ServerEventHandlers,
+  ServerEventType,
+  ServerPayload,
+  createClientMessage,
+  parseServerMessage
+} from './protocol';
 
-import { ConnectionStatus, WebSocketEvent, ActiveRoom, initializeGlobalRoomStorage } from './types';
-import { MockHandlers } from './mock-handlers';
+// The game server; `npm run server` listens on port 8787 by default
+const SERVER_URL = import.meta.env.VITE_GAME_SERVER_URL || 'ws://localhost:8787';
 
-class WebSocketService {
+class WebSocketService implements GameBackend {
   private socket: WebSocket | null = null;
   private status: ConnectionStatus = 'disconnected';
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
-  private eventListeners: Map<string, Function[]> = new Map();
-  private serverUrl: string;
-  private activeRoomsMap: Map<string, ActiveRoom>;
-  private mockHandlers: MockHandlers;
-  
-  constructor() {
-    // In a real app, this would come from environment variables
-    this.serverUrl = 'wss://mau-mau-server.example.com';
-    
-    // Initialize the global room storage
-    initializeGlobalRoomStorage();
-    
-    // Use the shared global room storage
-    this.activeRoomsMap = window.activeRoomsMap;
-    
-    // Create mock handlers
-    this.mockHandlers = new MockHandlers(
-      this.activeRoomsMap,
-      this.emit.bind(this)
-    );
-    
-    // For this demo, we'll use a mock WebSocket
-    // In a real app, replace with actual WebSocket connection
-    this.setupMockWebSocket();
-  }
-  
-  // Mock WebSocket setup
-  private setupMockWebSocket(): void {
-    console.log('Setting up mock WebSocket');
-    // This method doesn't need to do anything special
-    // It's just a placeholder for real WebSocket initialization
-  }
-  
+  private connecting: Promise<void> | null = null;
+  private events = new EventEmitter();
+
   // Connect to WebSocket server
   connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.socket && this.status === 'connected') {
-        resolve();
-        return;
-      }
-      
-      this.status = 'connecting';
-      
-      // In a real implementation:
-      // this.socket = new WebSocket(this.serverUrl);
-      
-      this.socket = {
-        send: this.mockSend.bind(this),
-        close: this.mockClose.bind(this),
-        readyState: 1, // OPEN
-      } as unknown as WebSocket;
-      
-      setTimeout(() => {
-        this.status = 'connected';
-        this.reconnectAttempts = 0;
-        console.log('WebSocket connected');
-        this.emit('connection_status', { status: this.status });
-        resolve();
-      }, 500);
-    });
+    if (this.socket && this.status === 'connected') {
+      return Promise.resolve();
+    }
+    if (!this.connecting) {
+      this.status = this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting';
+      this.connecting = this.openSocket().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
   }
-  
-  // Send an event through WebSocket
-  sendEvent<T extends WebSocketEvent>(event: T): void {
+
+  // Send a request through WebSocket; returns the id its replies carry as requestId
+  sendEvent(request: ClientRequest, id: string = uuidv4()): string {
     if (!this.socket || this.status !== 'connected') {
       console.error('Cannot send event: WebSocket not connected');
-      this.connect().then(() => this.sendEvent(event));
-      return;
+      this.connect().then(
+        () => this.sendEvent(request, id),
+        () => this.emit('error', { message: 'Sem conexão com o servidor de jogo.' }, id)
+      );
+      return id;
     }
-    
-    console.log('Sending event:', event);
-    this.socket.send(JSON.stringify(event));
-    
-    // Mock response for demo purposes
-    this.mockHandlers.handleMockResponse(event);
+
+    const message = createClientMessage(request, id);
+    console.log('Sending event:', message);
+    this.socket.send(JSON.stringify(message));
+    return id;
   }
-  
+
   // Add event listener
-  on<T>(eventName: string, callback: (data: T) => void): () => void {
-    if (!this.eventListeners.has(eventName)) {
-      this.eventListeners.set(eventName, []);
-    }
-    
-    const listeners = this.eventListeners.get(eventName) || [];
-    listeners.push(callback);
-    this.eventListeners.set(eventName, listeners);
-    
-    // Return function to remove listener
-    return () => {
-      const updatedListeners = (this.eventListeners.get(eventName) || [])
-        .filter(listener => listener !== callback);
-      
-      this.eventListeners.set(eventName, updatedListeners);
-    };
+  on<K extends ServerEventType>(event: K, callback: ServerEventHandlers[K]): () => void {
+    return this.events.on(event, callback);
+  }
+
+  // Add a listener for every server event
+  onAll(handlers: ServerEventHandlers): () => void {
+    return this.events.onAll(handlers);
   }
-  
+
   // Emit event to all listeners
-  private emit(eventName: string, data: any): void {
-    const listeners = this.eventListeners.get(eventName) || [];
-    listeners.forEach(callback => callback(data));
+  private emit<K extends ServerEventType>(event: K, data: ServerPayload<K>, requestId?: string): void {
+    this.events.emit(event, data, requestId);
   }
-  
+
   // Close WebSocket connection
   disconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
     if (this.socket) {
-      this.socket.close();
+      // Cleared first so the close isn't mistaken for a dropped connection
+      const socket = this.socket;
       this.socket = null;
+      socket.close();
       this.status = 'disconnected';
       this.emit('connection_status', { status: this.status });
-      
-      if (this.reconnectTimeout) {
-        clearTimeout(this.reconnectTimeout);
-        this.reconnectTimeout = null;
-      }
     }
   }
-  
+
   // Get current connection status
   getStatus(): ConnectionStatus {
     return this.status;
   }
-  
-  // For demo: mock WebSocket methods
-  private mockSend(data: string): void {
-    // In real implementation, this would be handled by the WebSocket
-    console.log('Mock WebSocket send:', data);
+
+  // Open a socket to the game server; the player id in the URL tells the server who we are
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(SERVER_URL);
+      url.searchParams.set('playerId', playerService.getOrCreatePlayerId());
+      const socket = new WebSocket(url);
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        this.socket = socket;
+        this.handleOpen();
+        resolve();
+      };
+
+      socket.onmessage = event => {
+        let data: unknown;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          console.error('Unreadable message from game server:', event.data);
+          return;
+        }
+        const message = parseServerMessage(data);
+        if (message) {
+          this.events.dispatch(message);
+        }
+      };
+
+      socket.onerror = error => console.error('WebSocket error:', error);
+
+      socket.onclose = () => {
+        if (!opened) {
+          // A failed reconnect is retried by scheduleReconnect; a failed first connect is final
+          if (this.reconnectAttempts === 0) {
+            this.status = 'disconnected';
+            this.emit('connection_status', { status: this.status });
+          }
+          reject(new Error('Não foi possível conectar ao servidor de jogo.'));
+        } else if (this.socket === socket) {
+          console.log('WebSocket closed unexpectedly');
+          this.scheduleReconnect();
+        }
+      };
+    });
+  }
+
+  private handleOpen(): void {
+    const reconnected = this.reconnectAttempts > 0;
+    this.status = 'connected';
+    this.reconnectAttempts = 0;
+    console.log('WebSocket connected');
+    this.emit('connection_status', { status: this.status });
+    // Whatever happened while we were away has to be fetched again
+    if (reconnected) {
+      this.emit('reconnected', {});
+    }
   }
-  
-  private mockClose(): void {
-    console.log('Mock WebSocket closed');
-    this.status = 'disconnected';
+
+  // Dropped connection: try again with exponential backoff until the attempts run out
+  private scheduleReconnect(): void {
+    if (this.reconnectTimeout) return;
+
+    this.socket = null;
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.status = 'disconnected';
+      this.reconnectAttempts = 0;
+      this.emit('connection_status', { status: this.status });
+      return;
+    }
+
+    this.status = 'reconnecting';
     this.emit('connection_status', { status: this.status });
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, 30000);
+    this.reconnectAttempts++;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect().catch(() => this.scheduleReconnect());
+    }, delay);
   }
 }
 
-// Create singleton instance
-export const websocketService = new WebSocketService();
+export { WebSocketService };
@@ -0,0 +1,47 @@
+import { Card, GameState, Rank, Suit } from '@/types/game';
+
+// A card as stored in the cards table: in someone's hand (owner_id), on the
+// discard pile (is_on_table) or in the deck (neither)
+export interface CardRow {
+  id: string;
+  game_id: string;
+  suit: string;
+  value: string;
+  owner_id: string | null;
+  is_on_table: boolean | null;
+  position: number | null;
+}
+
+export const toCardRows = (gameId: string, state: GameState): CardRow[] => {
+  const rows: CardRow[] = [];
+  const push = (card: Card, ownerId: string | null, isOnTable: boolean, position: number) => {
+    rows.push({
+      id: card.id,
+      game_id: gameId,
+      // Jokers keep their colour in the suit column
+      suit: card.rank === 'joker' ? `joker-${card.isRed ? 'red' : 'black'}` : card.suit,
+      value: card.rank,
+      owner_id: ownerId,
+      is_on_table: isOnTable,
+      position
+    });
+  };
+
+  state.players.forEach(player => player.cards.forEach((card, i) => push(card, player.id, false, i)));
+  state.deck.forEach((card, i) => push(card, null, false, i));
+  state.discardPile.forEach((card, i) => push(card, null, true, i));
+  return rows;
+};
+
+export const fromCardRow = (row: CardRow): Card => {
+  if (row.suit.startsWith('joker')) {
+    return { id: row.id, suit: 'joker', rank: 'joker', isRed: row.suit === 'joker-red' };
+  }
+  const suit = row.suit as Suit;
+  return {
+    id: row.id,
+    suit,
+    rank: row.value as Rank,
+    isRed: suit === 'hearts' || suit === 'diamonds'
+  };
+};
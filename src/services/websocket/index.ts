@@ -1,4 +1,5 @@
 
 export * from './types';
+export * from './protocol';
 export * from './EventEmitter';
-export * from './SupabaseService';
+export * from './GameBackend';
@@ -0,0 +1,482 @@
+import { z } from 'zod';
+import type { AbsenceSettings, BotDifficulty, Card, GameEvent, GameHistory, Match, PlayerView, RoomRules, Suit, TurnClockView, TurnTimerSettings } from '@/types/game';
+import {
+  getDefaultGameSettings,
+  getDefaultRoomRules,
+  MAX_DECK_COUNT,
+  MAX_EFFECT_COUNT,
+  MAX_INITIAL_SCORE,
+  MAX_JOKERS,
+  MAX_MATCH_ROUNDS,
+  MIN_INITIAL_SCORE
+} from '@/utils/gameUtils';
+import type { ChatMessage, ConnectionStatus, PresenceStatus, Room, RoomBot, RoomData, TakeBack } from './types';
+
+// Bumped whenever a message changes shape; both ends must agree
+export const PROTOCOL_VERSION = 3;
+
+/**
+ * Everything a client may ask of the server, by message type
+ */
+interface ClientRequests {
+  // Rooms
+  room_list: Record<string, never>;
+  create_room: { nickname: string; playerId: string; isPrivate: boolean };
+  join_room: { roomCode: string; nickname: string; playerId: string };
+  leave_room: { roomCode: string; playerId: string };
+  kick_player: { roomCode: string; targetPlayerId: string };
+  add_bot: { roomCode: string; difficulty: BotDifficulty };
+  remove_bot: { roomCode: string; botId: string };
+  set_absence: { roomCode: string; absence: AbsenceSettings };
+  set_turn_timer: { roomCode: string; turnTimer: TurnTimerSettings };
+  set_rules: { roomCode: string; rules: RoomRules };
+  track_presence: { roomCode: string };
+  untrack_presence: { roomCode: string };
+  start_game: { roomCode: string };
+  chat_message: { roomCode: string; playerId: string; message: string };
+  resync: { roomCode: string };
+
+  // Game
+  sync_game: { roomCode: string };
+  // seq: the game version the move was predicted to create; a move made on an older table is refused
+  play_card: { roomCode: string; cardId: string; wishedSuit?: Suit; seq?: number };
+  bluff_card: { roomCode: string; cardId: string; claimed: Pick<Card, 'suit' | 'rank'>; seq?: number };
+  challenge_bluff: { roomCode: string };
+  draw_card: { roomCode: string };
+  pass_turn: { roomCode: string };
+  say_mau_mau: { roomCode: string };
+  catch_mau_mau: { roomCode: string; targetId: string };
+  close_mau_mau_window: { roomCode: string };
+  bot_turn: { roomCode: string; botId: string };
+  resolve_absence: { roomCode: string; playerId: string };
+  reclaim_seat: { roomCode: string };
+  turn_timeout: { roomCode: string }; // The turn's deadline passed; refused if it hasn't
+  request_take_back: { roomCode: string };
+  answer_take_back: { roomCode: string; approve: boolean };
+  load_history: { gameId: string };
+}
+
+export type ClientRequestType = keyof ClientRequests;
+
+export type ClientRequest<K extends ClientRequestType = ClientRequestType> = {
+  [T in K]: { type: T; payload: ClientRequests[T] };
+}[K];
+
+// What goes over the wire: the request plus the protocol version and an id
+// that the server's replies and errors carry back as requestId
+export type ClientMessage<K extends ClientRequestType = ClientRequestType> = ClientRequest<K> & {
+  v: number;
+  id: string;
+};
+
+/**
+ * Everything the server may tell a client, by message type
+ */
+interface ServerEvents {
+  // Connection
+  connection_status: { status: ConnectionStatus };
+  reconnected: Record<string, never>;
+  error: { message: string };
+
+  // Lobby
+  room_list: { rooms: Room[] };
+  lobby_room_added: { room: Room };
+  lobby_room_removed: { roomCode: string };
+
+  // Rooms
+  room_created: { room: Room };
+  room_joined: { room: RoomData };
+  room_deleted: { roomCode: string };
+  room_bots: { roomCode: string; bots: RoomBot[] };
+  room_absence: { roomCode: string; absence: AbsenceSettings };
+  room_turn_timer: { roomCode: string; turnTimer: TurnTimerSettings };
+  room_rules: { roomCode: string; rules: RoomRules };
+  player_joined: { roomCode: string; player: { id: string; nickname: string; isCreator: boolean } };
+  player_left: { roomCode: string; playerId: string; playerName: string };
+  player_kicked: { roomCode: string; reason: string };
+  presence: { roomCode: string; players: Record<string, PresenceStatus> };
+  chat_message: { message: ChatMessage };
+  game_started: { roomCode: string };
+
+  // Game
+  game_state: {
+    roomCode: string;
+    gameId: string;
+    seq: number; // Game version: goes up by one with every move and take-back change
+    view: PlayerView;
+    events: GameEvent[];
+    match: Match | null;
+    takeBack: TakeBack | null;
+    clock: TurnClockView | null; // Null when turns have no time limit
+  };
+  game_history: { gameId: string; history: GameHistory };
+}
+
+export type ServerEventType = keyof ServerEvents;
+export type ServerPayload<K extends ServerEventType> = ServerEvents[K];
+
+// A server event on the wire; requestId is set on replies to a client message
+export type ServerMessage<K extends ServerEventType = ServerEventType> = {
+  [T in K]: { v: number; type: T; payload: ServerEvents[T]; requestId?: string };
+}[K];
+
+// One handler for every event the server can send, so a new event fails to
+// compile until each listener deals with it
+export type ServerEventHandlers = {
+  [K in ServerEventType]: (payload: ServerEvents[K], message: ServerMessage<K>) => void;
+};
+
+// Without strictNullChecks zod infers every key as optional, so a schema is
+// compared with its type once both have every key required, in both directions
+type Settled<T> = T extends (infer U)[] ? Settled<U>[] : T extends object ? { [K in keyof T]-?: Settled<T[K]> } : T;
+type Matching<S extends z.ZodTypeAny, T> =
+  [Settled<z.output<S>>] extends [Settled<T>] ? [Settled<T>] extends [Settled<z.output<S>>] ? S : never : never;
+
+// A schema for every message type, each matching its payload type; a missing
+// or mismatched one fails to compile
+const payloadSchemas = <Payloads>() =>
+  <S extends { [K in keyof Payloads]: z.ZodTypeAny }>(schemas: S & { [K in keyof Payloads]: Matching<S[K], Payloads[K]> }): S =>
+    schemas;
+
+const roomCode = z.string().min(1);
+const suit = z.enum(['hearts', 'diamonds', 'clubs', 'spades', 'joker']);
+const rank = z.enum(['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', 'joker']);
+const botDifficulty = z.enum(['easy', 'medium', 'hard']);
+const timeoutPolicy = z.enum(['draw', 'pass', 'play_first']);
+const absence = z.object({
+  policy: z.enum(['auto_draw', 'bot', 'forfeit']),
+  graceSeconds: z.number().int().min(5).max(600)
+});
+const turnTimer = z.object({
+  seconds: z.number().int().min(0).max(600),
+  bankSeconds: z.number().int().min(0).max(1800),
+  onExpiry: timeoutPolicy
+});
+const claimed = z.object({ suit, rank });
+const effectCount = z.number().int().min(1).max(MAX_EFFECT_COUNT);
+const specialEffect = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('draw'), count: effectCount, stackable: z.boolean() }),
+  z.object({ type: z.literal('skip') }),
+  z.object({ type: z.literal('reverse') }),
+  z.object({ type: z.literal('previous_draws'), count: effectCount }),
+  z.object({ type: z.literal('play_again') }),
+  z.object({ type: z.literal('wish_suit') })
+]);
+const deck = z.object({
+  ranks: z.array(rank).min(1),
+  deckCount: z.number().int().min(1).max(MAX_DECK_COUNT),
+  jokerCount: z.number().int().min(0).max(MAX_JOKERS)
+});
+const rules = z.object({
+  initialScore: z.number().int().min(MIN_INITIAL_SCORE).max(MAX_INITIAL_SCORE),
+  matchEnd: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('last_standing') }),
+    z.object({ type: z.literal('rounds'), rounds: z.number().int().min(1).max(MAX_MATCH_ROUNDS) }),
+    z.object({ type: z.literal('score'), threshold: z.number().int().min(0) })
+  ]),
+  specialCards: z.record(rank, specialEffect),
+  deck,
+  enableBluffing: z.boolean(),
+  enableMauMauRule: z.boolean(),
+  autoCheckMauMau: z.boolean()
+}).refine(rules => rules.matchEnd.type !== 'score' || rules.matchEnd.threshold < rules.initialScore);
+
+const clientPayloads = payloadSchemas<ClientRequests>()({
+  room_list: z.object({}),
+  create_room: z.object({ nickname: z.string().min(1), playerId: z.string(), isPrivate: z.boolean() }),
+  join_room: z.object({ roomCode, nickname: z.string().min(1), playerId: z.string() }),
+  leave_room: z.object({ roomCode, playerId: z.string() }),
+  kick_player: z.object({ roomCode, targetPlayerId: z.string() }),
+  add_bot: z.object({ roomCode, difficulty: botDifficulty }),
+  remove_bot: z.object({ roomCode, botId: z.string() }),
+  set_absence: z.object({ roomCode, absence }),
+  set_turn_timer: z.object({ roomCode, turnTimer }),
+  set_rules: z.object({ roomCode, rules }),
+  track_presence: z.object({ roomCode }),
+  untrack_presence: z.object({ roomCode }),
+  start_game: z.object({ roomCode }),
+  chat_message: z.object({ roomCode, playerId: z.string(), message: z.string().min(1).max(500) }),
+  resync: z.object({ roomCode }),
+  sync_game: z.object({ roomCode }),
+  play_card: z.object({ roomCode, cardId: z.string(), wishedSuit: suit.optional(), seq: z.number().int().optional() }),
+  bluff_card: z.object({ roomCode, cardId: z.string(), claimed, seq: z.number().int().optional() }),
+  challenge_bluff: z.object({ roomCode }),
+  draw_card: z.object({ roomCode }),
+  pass_turn: z.object({ roomCode }),
+  say_mau_mau: z.object({ roomCode }),
+  catch_mau_mau: z.object({ roomCode, targetId: z.string() }),
+  close_mau_mau_window: z.object({ roomCode }),
+  bot_turn: z.object({ roomCode, botId: z.string() }),
+  resolve_absence: z.object({ roomCode, playerId: z.string() }),
+  reclaim_seat: z.object({ roomCode }),
+  turn_timeout: z.object({ roomCode }),
+  request_take_back: z.object({ roomCode }),
+  answer_take_back: z.object({ roomCode, approve: z.boolean() }),
+  load_history: z.object({ gameId: z.string() }),
+});
+
+const room = z.object({
+  code: z.string(),
+  name: z.string().optional(),
+  playerCount: z.number(),
+  maxPlayers: z.number(),
+  isPrivate: z.boolean(),
+  creatorNickname: z.string().optional()
+});
+const chatMessage = z.object({
+  id: z.string(),
+  playerId: z.string(),
+  playerName: z.string(),
+  content: z.string(),
+  timestamp: z.string()
+});
+
+const roomData = z.object({
+  code: z.string(),
+  name: z.string().optional(),
+  players: z.array(z.object({ id: z.string(), nickname: z.string(), isCreator: z.boolean(), bot: botDifficulty.optional() })),
+  messages: z.array(chatMessage),
+  gameStarted: z.boolean(),
+  creatorId: z.string(),
+  isPrivate: z.boolean().optional(),
+  absence,
+  turnTimer,
+  rules
+});
+
+// The rules engine's types: cards, settings, tables, actions and events
+const card = z.object({ id: z.string(), suit, rank, isRed: z.boolean() });
+const direction = z.enum(['clockwise', 'counterclockwise']);
+const gameSettings = z.object({
+  initialScore: z.number(),
+  matchEnd: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('last_standing') }),
+    z.object({ type: z.literal('rounds'), rounds: z.number().int() }),
+    z.object({ type: z.literal('score'), threshold: z.number() })
+  ]),
+  specialCards: z.record(rank, specialEffect),
+  deck,
+  enableBluffing: z.boolean(),
+  enableMauMauRule: z.boolean(),
+  autoCheckMauMau: z.boolean(),
+  // Rounds saved before these settings existed have neither
+  absence: absence.default(() => getDefaultGameSettings().absence),
+  turnTimer: turnTimer.default(() => getDefaultGameSettings().turnTimer)
+});
+const bluffClaim = z.object({ playerId: z.string(), cardId: z.string(), suit, rank, challengeable: z.boolean() });
+const seat = {
+  id: z.string(),
+  name: z.string(),
+  score: z.number(),
+  saidMauMau: z.boolean(),
+  isEliminated: z.boolean(),
+  bot: botDifficulty.nullish()
+};
+// What a seat's view and the full state have in common
+const table = {
+  currentPlayerIndex: z.number().int(),
+  direction,
+  gameStarted: z.boolean(),
+  gameEnded: z.boolean(),
+  winner: z.string().nullable(),
+  lastAction: z.string(),
+  settings: gameSettings,
+  hasDrawnThisTurn: z.boolean(),
+  pendingDraw: z.number().int(),
+  wishedSuit: suit.nullable(),
+  mauMauWindow: z.string().nullable()
+};
+const playerView = z.object({
+  ...table,
+  viewerId: z.string().nullable(),
+  hand: z.array(card),
+  players: z.array(z.object({ ...seat, cardCount: z.number().int() })),
+  topCard: card.nullable(),
+  deckCount: z.number().int(),
+  claim: bluffClaim.omit({ cardId: true }).nullable()
+});
+const gameState = z.object({
+  ...table,
+  players: z.array(z.object({ ...seat, cards: z.array(card) })),
+  deck: z.array(card),
+  discardPile: z.array(card),
+  claim: bluffClaim.nullable(),
+  seed: z.number(),
+  rngState: z.number()
+});
+
+// An action or event of the given type about one player
+const byPlayer = <T extends string>(type: T) => z.object({ type: z.literal(type), playerId: z.string() });
+
+const gameAction = z.discriminatedUnion('type', [
+  byPlayer('play').extend({ cardId: z.string(), wishedSuit: suit.optional() }),
+  byPlayer('bluff').extend({ cardId: z.string(), claimed }),
+  byPlayer('challenge'),
+  byPlayer('draw'),
+  byPlayer('pass'),
+  byPlayer('say_mau_mau'),
+  byPlayer('catch_mau_mau').extend({ targetId: z.string() }),
+  byPlayer('close_mau_mau_window'),
+  byPlayer('timeout').extend({ policy: timeoutPolicy.optional() }),
+  byPlayer('take_over_seat').extend({ bot: botDifficulty.nullable() }),
+  byPlayer('forfeit')
+]);
+const gameEvent = z.discriminatedUnion('type', [
+  byPlayer('card_played').extend({ card }),
+  byPlayer('cards_drawn').extend({
+    cards: z.array(card),
+    count: z.number().int(),
+    reason: z.enum(['draw', 'penalty', 'special', 'stack'])
+  }),
+  z.object({ type: z.literal('deck_reshuffled') }),
+  byPlayer('player_skipped'),
+  z.object({ type: z.literal('direction_changed'), direction }),
+  byPlayer('draw_stacked').extend({ total: z.number().int() }),
+  byPlayer('suit_wished').extend({ suit }),
+  byPlayer('card_bluffed').extend({ claimed }),
+  byPlayer('claim_challenged').extend({ targetId: z.string(), card, bluffed: z.boolean() }),
+  byPlayer('extra_turn'),
+  byPlayer('mau_mau_said'),
+  byPlayer('mau_mau_penalty'),
+  byPlayer('mau_mau_caught').extend({ targetId: z.string() }),
+  byPlayer('false_catch').extend({ targetId: z.string() }),
+  byPlayer('turn_passed'),
+  byPlayer('turn_timed_out'),
+  byPlayer('round_won'),
+  byPlayer('seat_taken_over').extend({ bot: botDifficulty.nullable() }),
+  byPlayer('player_forfeited'),
+  byPlayer('move_taken_back')
+]);
+
+const match = z.object({
+  players: z.array(z.object({ id: z.string(), name: z.string(), bot: botDifficulty.nullish() })),
+  settings: gameSettings,
+  rounds: z.array(z.object({
+    round: z.number().int(),
+    winnerId: z.string(),
+    firstPlayerId: z.string(),
+    pointsLost: z.record(z.number()),
+    scores: z.record(z.number())
+  })),
+  scores: z.record(z.number()),
+  winnerId: z.string().nullable()
+});
+const takeBack = z.object({
+  playerId: z.string(),
+  seq: z.number().int(),
+  requested: z.boolean(),
+  approvals: z.array(z.string())
+});
+const history = z.object({
+  initialState: gameState,
+  entries: z.array(z.object({
+    seq: z.number().int(),
+    action: gameAction,
+    events: z.array(gameEvent),
+    at: z.string()
+  }))
+});
+
+const serverPayloads = payloadSchemas<ServerEvents>()({
+  connection_status: z.object({ status: z.enum(['connecting', 'connected', 'reconnecting', 'disconnected']) }),
+  reconnected: z.object({}),
+  error: z.object({ message: z.string() }),
+  room_list: z.object({ rooms: z.array(room) }),
+  lobby_room_added: z.object({ room }),
+  lobby_room_removed: z.object({ roomCode }),
+  room_created: z.object({ room }),
+  room_joined: z.object({ room: roomData }),
+  room_deleted: z.object({ roomCode }),
+  room_bots: z.object({ roomCode, bots: z.array(z.object({ id: z.string(), name: z.string(), difficulty: botDifficulty })) }),
+  room_absence: z.object({ roomCode, absence }),
+  room_turn_timer: z.object({ roomCode, turnTimer }),
+  room_rules: z.object({ roomCode, rules }),
+  player_joined: z.object({ roomCode, player: z.object({ id: z.string(), nickname: z.string(), isCreator: z.boolean() }) }),
+  player_left: z.object({ roomCode, playerId: z.string(), playerName: z.string() }),
+  player_kicked: z.object({ roomCode, reason: z.string() }),
+  presence: z.object({ roomCode, players: z.record(z.enum(['online', 'away'])) }),
+  chat_message: z.object({ message: chatMessage }),
+  game_started: z.object({ roomCode }),
+  game_state: z.object({
+    roomCode,
+    gameId: z.string(),
+    seq: z.number().int(),
+    view: playerView,
+    events: z.array(gameEvent),
+    match: match.nullable(),
+    takeBack: takeBack.nullable(),
+    clock: z.object({ playerId: z.string(), turnMs: z.number(), banks: z.record(z.number()) }).nullable()
+  }),
+  game_history: z.object({ gameId: z.string(), history }),
+});
+
+const clientEnvelope = z.object({ v: z.number(), id: z.string(), type: z.string(), payload: z.unknown() });
+const serverEnvelope = z.object({
+  v: z.number(),
+  type: z.string(),
+  payload: z.unknown(),
+  requestId: z.string().optional()
+});
+
+const isClientRequestType = (type: string): type is ClientRequestType =>
+  Object.prototype.hasOwnProperty.call(clientPayloads, type);
+
+const isServerEventType = (type: string): type is ServerEventType =>
+  Object.prototype.hasOwnProperty.call(serverPayloads, type);
+
+/**
+ * Check a message from a client. Throws with a message fit for the player.
+ */
+export const parseClientMessage = (data: unknown): ClientMessage => {
+  const envelope = clientEnvelope.safeParse(data);
+  if (!envelope.success || !isClientRequestType(envelope.data.type)) {
+    throw new Error('Mensagem inválida.');
+  }
+  if (envelope.data.v !== PROTOCOL_VERSION) {
+    throw new Error('Versão do jogo desatualizada. Recarregue a página.');
+  }
+
+  const payload = clientPayloads[envelope.data.type].safeParse(envelope.data.payload);
+  if (!payload.success) {
+    console.error('Invalid', envelope.data.type, 'payload:', payload.error.issues);
+    throw new Error('Mensagem inválida.');
+  }
+  return { ...envelope.data, payload: payload.data } as ClientMessage;
+};
+
+/**
+ * Check a message from the server; null if it can't be understood
+ */
+export const parseServerMessage = (data: unknown): ServerMessage | null => {
+  const envelope = serverEnvelope.safeParse(data);
+  if (!envelope.success || envelope.data.v !== PROTOCOL_VERSION || !isServerEventType(envelope.data.type)) {
+    console.error('Invalid server message:', data);
+    return null;
+  }
+
+  const payload = serverPayloads[envelope.data.type].safeParse(envelope.data.payload);
+  if (!payload.success) {
+    console.error('Invalid', envelope.data.type, 'payload:', payload.error.issues);
+    return null;
+  }
+  return { ...envelope.data, payload: payload.data } as ServerMessage;
+};
+
+/**
+ * Check rules stored on a room, filling in defaults for whatever wasn't chosen.
+ * Throws with a message fit for the player.
+ */
+export const parseRoomRules = (data: unknown): RoomRules => {
+  const parsed = rules.safeParse({ ...getDefaultRoomRules(), ...(data as object | null) });
+  if (!parsed.success) {
+    console.error('Invalid room rules:', parsed.error.issues);
+    throw new Error('As regras da sala são inválidas.');
+  }
+  return parsed.data as RoomRules;
+};
+
+/**
+ * Wrap a request for sending
+ */
+export const createClientMessage = <K extends ClientRequestType>(request: ClientRequest<K>, id: string): ClientMessage<K> =>
+  ({ ...request, v: PROTOCOL_VERSION, id }) as ClientMessage<K>;
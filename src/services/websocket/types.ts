@@ -1,5 +1,9 @@
+import { AbsenceSettings, BotDifficulty, RoomRules, TurnTimerSettings } from '@/types/game';
 
-export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// How a person in a room is doing; anyone missing from the presence list is offline
+export type PresenceStatus = 'online' | 'away';
 
 export interface Room {
   code: string;
@@ -10,6 +14,22 @@ export interface Room {
   creatorNickname?: string;
 }
 
+// Computer-controlled seat, stored on rooms.bots
+export interface RoomBot {
+  id: string;
+  name: string;
+  difficulty: BotDifficulty;
+}
+
+// The last move of an online game while its player may still ask to take it back,
+// stored on games.take_back. The host, or every other person at the table, can approve.
+export interface TakeBack {
+  playerId: string;
+  seq: number;          // The move that would be undone
+  requested: boolean;
+  approvals: string[];  // Player ids that agreed so far
+}
+
 export interface ChatMessage {
   id: string;
   playerId: string;
@@ -18,41 +38,21 @@ export interface ChatMessage {
   timestamp: string;
 }
 
-export interface WebSocketEvent {
-  type: string;
-  payload: any;
-}
-
-export interface EventData<T = any> {
-  type: string;
-  data: T;
-}
-
-// Adicionando a interface ActiveRoom para compatibilidade com mock-handlers.ts
-export interface ActiveRoom {
+// A room as the people in it see it
+export interface RoomData {
   code: string;
   name?: string;
   players: {
     id: string;
     nickname: string;
     isCreator: boolean;
+    bot?: BotDifficulty;
   }[];
-  createdAt: number;
-  maxPlayers: number;
-  isPrivate: boolean;
+  messages: ChatMessage[];
+  gameStarted: boolean;
   creatorId: string;
-}
-
-// Função para inicializar o armazenamento global de salas
-export const initializeGlobalRoomStorage = (): void => {
-  if (typeof window !== 'undefined' && !window.activeRoomsMap) {
-    window.activeRoomsMap = new Map<string, ActiveRoom>();
-  }
-}
-
-// Extensão do tipo Window para incluir activeRoomsMap
-declare global {
-  interface Window {
-    activeRoomsMap: Map<string, ActiveRoom>;
-  }
+  isPrivate?: boolean;
+  absence: AbsenceSettings;
+  turnTimer: TurnTimerSettings;
+  rules: RoomRules;
 }
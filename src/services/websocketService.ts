@@ -1,3 +0,0 @@
-
-// Re-export from new modular structure
-export * from './websocket';
@@ -9,6 +9,9 @@ export interface Card {
   isRed: boolean;
 }
 
+// Computer opponents
+export type BotDifficulty = "easy" | "medium" | "hard";
+
 export interface Player {
   id: string;
   name: string;
@@ -16,18 +19,106 @@ export interface Player {
   score: number;
   saidMauMau: boolean;
   isEliminated: boolean;
+  bot?: BotDifficulty; // Set for computer-controlled seats
+}
+
+// What a special card does when played
+export type SpecialEffect =
+  | { type: "draw"; count: number; stackable: boolean } // Next player draws; stackable draws pile up, others also skip them
+  | { type: "skip" }                                     // Next player loses the turn
+  | { type: "reverse" }                                  // Direction of play flips
+  | { type: "previous_draws"; count: number }            // Previous player draws
+  | { type: "play_again" }                               // The same player goes again
+  | { type: "wish_suit" };                               // Wild; the player names the suit to follow
+
+export type SpecialEffectType = SpecialEffect["type"];
+
+// Rank -> effect; ranks that are missing are plain cards
+export type SpecialCardTable = Partial<Record<Rank, SpecialEffect>>;
+
+// Built-in tables: "house" is our original set (joker, A, Q, 9), "classic" is traditional German Mau Mau (7, 8, J)
+export type RulePreset = "house" | "classic";
+
+// Built-in decks: "full" is two 52-card decks, "skat" the traditional 32 cards (7 through A)
+export type DeckPreset = "full" | "skat";
+
+// Which cards make up the deck
+export interface DeckSettings {
+  ranks: Rank[];      // Ranks included in every suit (Skat deck: 7 through A)
+  deckCount: number;  // Copies of those suits and ranks
+  jokerCount: number; // Jokers added on top (0 for none)
+}
+
+// When a match is over
+export type MatchEnd =
+  | { type: "last_standing" }             // Until only one player has points left
+  | { type: "rounds"; rounds: number }    // After a fixed number of rounds
+  | { type: "score"; threshold: number }; // As soon as someone drops to the threshold or below
+
+// What happens when an online player is offline on their turn for longer than graceSeconds
+export type AbsencePolicy =
+  | "auto_draw" // Draw and pass, like a timed-out turn
+  | "bot"       // A medium bot plays the seat until they are back
+  | "forfeit";  // Out of the match; the hand goes under the deck
+
+export interface AbsenceSettings {
+  policy: AbsencePolicy;
+  graceSeconds: number;
+}
+
+// What a turn does for its player when their time runs out
+export type TimeoutPolicy =
+  | "draw"        // Draw (or take the stacked cards) and pass
+  | "pass"        // Pass without drawing; stacked cards are still taken
+  | "play_first"; // Play the first card in hand that fits, otherwise draw and pass
+
+export interface TurnTimerSettings {
+  seconds: number;     // Time for each turn; 0 for no limit
+  bankSeconds: number; // Chess-clock reserve each player spends once a turn's time is up, for the whole round; 0 for none
+  onExpiry: TimeoutPolicy;
+}
+
+// The running turn's clock; times are milliseconds since the epoch
+export interface TurnClock {
+  playerId: string;
+  turnEndsAt: number;            // When the turn's own time is up; the player's bank runs after that
+  banks: Record<string, number>; // Time bank left per player (ms), before the current turn
+}
+
+// The clock as sent to clients: time left as of sending, so their clocks needn't agree with the server's
+export interface TurnClockView {
+  playerId: string;
+  turnMs: number;                // Turn time left
+  banks: Record<string, number>; // Time bank left per player, the current player's as of sending
 }
 
 export interface GameSettings {
   initialScore: number;
-  enableJokers: boolean;
+  matchEnd: MatchEnd;
+  specialCards: SpecialCardTable;
+  deck: DeckSettings;
   enableBluffing: boolean;
   enableMauMauRule: boolean; // New setting to toggle Mau Mau rule
   autoCheckMauMau: boolean;  // New setting for auto-checking Mau Mau
+  absence: AbsenceSettings;  // Online only
+  turnTimer: TurnTimerSettings;
 }
 
+// What the host of an online room picks for its games in the waiting room
+// (absence and turnTimer are room settings of their own)
+export type RoomRules = Omit<GameSettings, "absence" | "turnTimer">;
+
 export type Direction = "clockwise" | "counterclockwise";
 
+// Card played face down under the bluff rule, and what its player said it was
+export interface BluffClaim {
+  playerId: string;
+  cardId: string;
+  suit: Suit;
+  rank: Rank;
+  challengeable: boolean; // Only the next player may challenge, and only before doing anything else
+}
+
 export interface GameState {
   players: Player[];
   currentPlayerIndex: number;
@@ -39,4 +130,115 @@ export interface GameState {
   winner: string | null;
   lastAction: string;
   settings: GameSettings;
+  hasDrawnThisTurn: boolean; // Current player already drew and may now pass
+  pendingDraw: number;       // Cards owed by the next player from stacked draw-twos
+  wishedSuit: Suit | null;   // Suit named with the last wild card
+  claim: BluffClaim | null;  // Set while the top of the discard pile is a face-down bluff card
+  mauMauWindow: string | null; // Player who dropped to one card without calling Mau Mau, while opponents can still catch them
+  seed: number;      // Seed the round was dealt with
+  rngState: number;  // Generator state after the last shuffle; reshuffles continue from here
+}
+
+// Public information about a seat: everything but the cards themselves
+export type PlayerSummary = Omit<Player, "cards"> & { cardCount: number };
+
+// The table as one seat may see it. Other hands, the deck order and the
+// generator seed stay in the full GameState.
+export interface PlayerView extends Pick<
+  GameState,
+  | "currentPlayerIndex"
+  | "direction"
+  | "gameStarted"
+  | "gameEnded"
+  | "winner"
+  | "lastAction"
+  | "settings"
+  | "hasDrawnThisTurn"
+  | "pendingDraw"
+  | "wishedSuit"
+  | "mauMauWindow"
+> {
+  viewerId: string | null; // Seat the view was made for; null for spectators
+  hand: Card[];            // The viewer's own cards
+  players: PlayerSummary[];
+  topCard: Card | null;    // A face-down card shows as what it was claimed to be
+  deckCount: number;
+  claim: Omit<BluffClaim, "cardId"> | null;
+}
+
+// Actions a player (or the turn timer) can take; every one is checked by the engine
+export type GameAction =
+  | { type: "play"; playerId: string; cardId: string; wishedSuit?: Suit }
+  | { type: "bluff"; playerId: string; cardId: string; claimed: Pick<Card, "suit" | "rank"> }
+  | { type: "challenge"; playerId: string }
+  | { type: "draw"; playerId: string }
+  | { type: "pass"; playerId: string }
+  | { type: "say_mau_mau"; playerId: string }
+  | { type: "catch_mau_mau"; playerId: string; targetId: string }
+  | { type: "close_mau_mau_window"; playerId: string }
+  | { type: "timeout"; playerId: string; policy?: TimeoutPolicy } // Without a policy the player draws
+  | { type: "take_over_seat"; playerId: string; bot: BotDifficulty | null } // null hands the seat back
+  | { type: "forfeit"; playerId: string };
+
+export type DrawReason = "draw" | "penalty" | "special" | "stack";
+
+// What happened as a result of an action, in order
+export type GameEvent =
+  | { type: "card_played"; playerId: string; card: Card }
+  | { type: "cards_drawn"; playerId: string; cards: Card[]; count: number; reason: DrawReason } // cards is empty in other seats' views
+  | { type: "deck_reshuffled" }
+  | { type: "player_skipped"; playerId: string }
+  | { type: "direction_changed"; direction: Direction }
+  | { type: "draw_stacked"; playerId: string; total: number }
+  | { type: "suit_wished"; playerId: string; suit: Suit }
+  | { type: "card_bluffed"; playerId: string; claimed: Pick<Card, "suit" | "rank"> }
+  | { type: "claim_challenged"; playerId: string; targetId: string; card: Card; bluffed: boolean }
+  | { type: "extra_turn"; playerId: string }
+  | { type: "mau_mau_said"; playerId: string }
+  | { type: "mau_mau_penalty"; playerId: string }
+  | { type: "mau_mau_caught"; playerId: string; targetId: string }
+  | { type: "false_catch"; playerId: string; targetId: string }
+  | { type: "turn_passed"; playerId: string }
+  | { type: "turn_timed_out"; playerId: string }
+  | { type: "round_won"; playerId: string }
+  | { type: "seat_taken_over"; playerId: string; bot: BotDifficulty | null }
+  | { type: "player_forfeited"; playerId: string }
+  | { type: "move_taken_back"; playerId: string }; // Undo; never produced by applyAction
+
+export interface ActionResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// One step of a round: the action and everything it caused
+export interface HistoryEntry {
+  seq: number;         // Order within the round
+  action: GameAction;
+  events: GameEvent[];
+  at: string;          // ISO timestamp
+}
+
+// A round from the deal onwards. The engine is deterministic, so applying the
+// actions to the initial state rebuilds the table at every step.
+export interface GameHistory {
+  initialState: GameState;
+  entries: HistoryEntry[];
+}
+
+// One finished round, as shown on the scoreboard
+export interface RoundResult {
+  round: number;                      // 1-based
+  winnerId: string;
+  firstPlayerId: string;
+  pointsLost: Record<string, number>; // By player id; players sitting out are missing
+  scores: Record<string, number>;     // Everyone's score after the round
+}
+
+// A series of rounds with the same players, settings and running scores
+export interface Match {
+  players: Pick<Player, "id" | "name" | "bot">[]; // Seat order at the start of the match
+  settings: GameSettings;
+  rounds: RoundResult[];
+  scores: Record<string, number>;
+  winnerId: string | null;                // Set once the match is over
 }
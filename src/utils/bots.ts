@@ -0,0 +1,222 @@
+import { BotDifficulty, Card, GameAction, GameState, Player, Suit } from "../types/game";
+import { createDeck, getCardEffect, getCardPoints, getNextPlayerIndex, getTopCard, isValidMove } from "./gameUtils";
+import { RandomSource, randomInt } from "./random";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "medium", "hard"];
+
+// How long a bot "thinks" before acting, and how long it gives a human to call Mau Mau
+export const BOT_DELAY_MS = 900;
+export const BOT_CATCH_DELAY_MS = 2500;
+
+const PLAIN_SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
+
+// The public part of the table that decides which bot acts next
+export type BotTable = Pick<GameState, "currentPlayerIndex" | "gameStarted" | "gameEnded" | "mauMauWindow"> & {
+  players: Pick<Player, "id" | "name" | "bot" | "isEliminated">[];
+};
+
+// The bot that has something to do right now, if any: calling its own Mau Mau,
+// catching a human who forgot theirs (hard bots only), or playing its turn
+export const getWaitingBot = (state: BotTable): Pick<Player, "id" | "name" | "bot"> | undefined => {
+  if (!state.gameStarted || state.gameEnded) {
+    return undefined;
+  }
+
+  const target = state.players.find(player => player.id === state.mauMauWindow);
+  if (target?.bot) {
+    return target;
+  }
+  if (target) {
+    const catcher = state.players.find(player => player.bot === "hard" && !player.isEliminated && player.id !== target.id);
+    if (catcher) {
+      return catcher;
+    }
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return currentPlayer.bot ? currentPlayer : undefined;
+};
+
+// Pick a bot's next action. Bots only see what a human in their seat would:
+// their own hand, the face-up discard pile and everyone's hand size.
+export const chooseBotAction = (
+  state: GameState,
+  botId: string,
+  random: RandomSource = Math.random,
+): GameAction | null => {
+  const bot = state.players.find(player => player.id === botId);
+  if (!bot?.bot || bot.isEliminated || !state.gameStarted || state.gameEnded) {
+    return null;
+  }
+
+  if (state.mauMauWindow === bot.id) {
+    return { type: "say_mau_mau", playerId: bot.id };
+  }
+  if (state.mauMauWindow && bot.bot === "hard") {
+    const target = state.players.find(player => player.id === state.mauMauWindow);
+    if (target && !target.bot) {
+      return { type: "catch_mau_mau", playerId: bot.id, targetId: target.id };
+    }
+  }
+
+  if (state.players[state.currentPlayerIndex].id !== bot.id) {
+    return null;
+  }
+
+  if (state.claim?.challengeable && shouldChallenge(state, bot, random)) {
+    return { type: "challenge", playerId: bot.id };
+  }
+
+  const topCard = getTopCard(state)!;
+  const playable = bot.cards.filter(card => isValidMove(card, topCard, state));
+
+  if (playable.length === 0) {
+    const bluff = bot.bot === "hard" ? chooseBluff(state, bot, random) : null;
+    if (bluff) {
+      return bluff;
+    }
+    return state.hasDrawnThisTurn
+      ? { type: "pass", playerId: bot.id }
+      : { type: "draw", playerId: bot.id };
+  }
+
+  // About to drop to one card (or going out on it): call Mau Mau first. Easy bots sometimes forget.
+  if (
+    state.settings.enableMauMauRule &&
+    !state.settings.autoCheckMauMau &&
+    !bot.saidMauMau &&
+    bot.cards.length <= 2 &&
+    (bot.bot !== "easy" || random() < 0.75)
+  ) {
+    return { type: "say_mau_mau", playerId: bot.id };
+  }
+
+  const card = bot.bot === "easy"
+    ? playable[randomInt(playable.length, random)]
+    : bestCard(state, bot, playable);
+
+  return {
+    type: "play",
+    playerId: bot.id,
+    cardId: card.id,
+    wishedSuit: getCardEffect(card, state.settings)?.type === "wish_suit" ? chooseSuit(bot, card) : undefined,
+  };
+};
+
+// Medium and hard: score every playable card and keep the best one
+const bestCard = (state: GameState, bot: Player, playable: Card[]): Card => {
+  const nextPlayer = getNextOpponent(state);
+  const unseen = bot.bot === "hard" ? getUnseenCards(state, bot) : [];
+
+  const score = (card: Card): number => {
+    const effect = getCardEffect(card, state.settings);
+    const rest = bot.cards.filter(handCard => handCard.id !== card.id);
+    // Dump expensive cards while there is time
+    let value = getCardPoints(card, state.settings.deck);
+
+    // Wild cards are worth more in hand until the end is near
+    if ((effect?.type === "wish_suit" || card.rank === "joker") && bot.cards.length > 2) {
+      value -= 15;
+    }
+    // Keep options open: stay on a suit the rest of the hand can follow
+    value += 2 * rest.filter(handCard => handCard.suit === card.suit).length;
+
+    if (bot.bot === "hard") {
+      // Attack whoever is closest to going out
+      if (effect && ["draw", "skip"].includes(effect.type) && nextPlayer.cards.length <= 2) {
+        value += 15;
+      }
+      // Leave a card the next player is unlikely to follow
+      value -= 20 * getFollowChance(card, unseen, nextPlayer.cards.length);
+    } else if (effect && ["draw", "skip"].includes(effect.type) && nextPlayer.cards.length <= 2) {
+      value += 10;
+    }
+
+    return value;
+  };
+
+  return playable.reduce((best, card) => (score(card) > score(best) ? card : best));
+};
+
+// Chance that someone holding handSize unknown cards can follow the card
+const getFollowChance = (card: Card, unseen: Card[], handSize: number): number => {
+  if (unseen.length === 0 || card.rank === "joker") {
+    return 0;
+  }
+  const followers = unseen.filter(other =>
+    other.rank === "joker" || other.suit === card.suit || other.rank === card.rank
+  ).length;
+  return 1 - Math.pow(1 - followers / unseen.length, handSize);
+};
+
+// Cards the bot has not seen: the whole deck minus its hand and the face-up discard pile
+const getUnseenCards = (state: GameState, bot: Player): Card[] => {
+  const seen = [
+    ...bot.cards,
+    ...state.discardPile.filter(card => card.id !== state.claim?.cardId),
+  ];
+  const unseen = createDeck(state.settings.deck);
+
+  for (const card of seen) {
+    const index = unseen.findIndex(other =>
+      other.rank === card.rank && (card.rank === "joker" ? other.isRed === card.isRed : other.suit === card.suit)
+    );
+    if (index >= 0) {
+      unseen.splice(index, 1);
+    }
+  }
+  return unseen;
+};
+
+const getNextOpponent = (state: GameState): Player =>
+  state.players[getNextPlayerIndex(state.currentPlayerIndex, state.direction, state.players)];
+
+// Ask for the suit the bot holds most of
+const chooseSuit = (bot: Player, played: Card): Suit => {
+  const rest = bot.cards.filter(card => card.id !== played.id);
+  return PLAIN_SUITS.reduce((best, suit) =>
+    rest.filter(card => card.suit === suit).length > rest.filter(card => card.suit === best).length ? suit : best
+  );
+};
+
+const shouldChallenge = (state: GameState, bot: Player, random: RandomSource): boolean => {
+  const claim = state.claim!;
+  switch (bot.bot) {
+    case "easy":
+      return random() < 0.1;
+    case "medium":
+      return random() < 0.25;
+    case "hard": {
+      // Every copy of the claimed card is already in sight: it must be a bluff
+      const unseen = getUnseenCards(state, bot);
+      if (!unseen.some(card => card.suit === claim.suit && card.rank === claim.rank)) {
+        return true;
+      }
+      const claimant = state.players.find(player => player.id === claim.playerId);
+      return random() < (claimant && claimant.cards.length <= 2 ? 0.5 : 0.2);
+    }
+    default:
+      return false;
+  }
+};
+
+// Hard bots sometimes get rid of their most expensive card face down instead of drawing
+const chooseBluff = (state: GameState, bot: Player, random: RandomSource): GameAction | null => {
+  if (!state.settings.enableBluffing || state.pendingDraw > 0 || bot.cards.length < 3 || random() >= 0.3) {
+    return null;
+  }
+
+  const topCard = getTopCard(state)!;
+  const claims: Card[] = state.settings.deck.ranks.flatMap(rank =>
+    PLAIN_SUITS.map(suit => ({ id: "claim", suit, rank, isRed: suit === "hearts" || suit === "diamonds" }))
+  );
+  const claim = claims.find(card => !getCardEffect(card, state.settings) && isValidMove(card, topCard, state));
+  if (!claim) {
+    return null;
+  }
+
+  const card = bot.cards.reduce((worst, handCard) =>
+    getCardPoints(handCard, state.settings.deck) > getCardPoints(worst, state.settings.deck) ? handCard : worst
+  );
+  return { type: "bluff", playerId: bot.id, cardId: card.id, claimed: { suit: claim.suit, rank: claim.rank } };
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { Card, GameSettings, GameState, Rank, Suit } from "../types/game";
+import { applyAction, getInitialGameState } from "./gameEngine";
+import { RULE_PRESETS, getDefaultGameSettings } from "./gameUtils";
+
+const card = (rank: Rank, suit: Suit, id = `${rank}-${suit}`): Card =>
+  ({ id, rank, suit, isRed: suit === "hearts" || suit === "diamonds" });
+
+// A round in play with the given hands, p0 on turn, and plenty left in the deck
+const table = (hands: Card[][], topCard: Card, settings: Partial<GameSettings> = {}): GameState => ({
+  ...getInitialGameState({ ...getDefaultGameSettings(), ...settings }),
+  players: hands.map((cards, index) => ({
+    id: `p${index}`,
+    name: `P${index}`,
+    cards,
+    score: 100,
+    saidMauMau: false,
+    isEliminated: false,
+  })),
+  deck: Array.from({ length: 20 }, (_, index) => card("3", "clubs", `deck-${index}`)),
+  discardPile: [topCard],
+  gameStarted: true,
+});
+
+// Filler so nobody gets down to one card
+const filler = (player: number): Card[] => [card("4", "spades", `f${player}a`), card("6", "spades", `f${player}b`)];
+
+describe("applyAction with the classic rules", () => {
+  const classic = { specialCards: RULE_PRESETS.classic };
+
+  it("stacks draw-twos until someone draws them all", () => {
+    let state = table([
+      [card("7", "hearts"), ...filler(0)],
+      [card("7", "spades"), ...filler(1)],
+      [card("5", "clubs"), ...filler(2)],
+    ], card("5", "hearts"), classic);
+
+    state = applyAction(state, { type: "play", playerId: "p0", cardId: "7-hearts" }).state;
+    expect(state.pendingDraw).toBe(2);
+    expect(state.currentPlayerIndex).toBe(1);
+
+    state = applyAction(state, { type: "play", playerId: "p1", cardId: "7-spades" }).state;
+    expect(state.pendingDraw).toBe(4);
+    expect(state.currentPlayerIndex).toBe(2);
+
+    const { state: drawn, events } = applyAction(state, { type: "draw", playerId: "p2" });
+    expect(drawn.players[2].cards).toHaveLength(7);
+    expect(drawn.pendingDraw).toBe(0);
+    expect(drawn.currentPlayerIndex).toBe(0);
+    expect(events).toContainEqual(expect.objectContaining({ type: "cards_drawn", playerId: "p2", count: 4, reason: "stack" }));
+  });
+
+  it("only lets another draw-two answer a pending one", () => {
+    const state = table([
+      [card("7", "hearts"), ...filler(0)],
+      [card("9", "hearts"), ...filler(1)],
+    ], card("5", "hearts"), classic);
+
+    const { state: stacked } = applyAction(state, { type: "play", playerId: "p0", cardId: "7-hearts" });
+    expect(() => applyAction(stacked, { type: "play", playerId: "p1", cardId: "9-hearts" }))
+      .toThrow("Esta carta não pode ser jogada agora.");
+  });
+
+  it("makes the next player follow the suit wished with a jack", () => {
+    const state = table([
+      [card("J", "hearts"), ...filler(0)],
+      [card("5", "hearts"), card("9", "spades"), ...filler(1)],
+    ], card("5", "clubs"), classic);
+
+    expect(() => applyAction(state, { type: "play", playerId: "p0", cardId: "J-hearts" }))
+      .toThrow("Escolha o naipe que deve ser seguido.");
+
+    const { state: wished } = applyAction(state, { type: "play", playerId: "p0", cardId: "J-hearts", wishedSuit: "spades" });
+    expect(wished.wishedSuit).toBe("spades");
+    expect(() => applyAction(wished, { type: "play", playerId: "p1", cardId: "5-hearts" }))
+      .toThrow("Esta carta não pode ser jogada agora.");
+    expect(applyAction(wished, { type: "play", playerId: "p1", cardId: "9-spades" }).state.wishedSuit).toBeNull();
+  });
+
+  it("skips the next player with an eight", () => {
+    const state = table([[card("8", "hearts"), ...filler(0)], filler(1), filler(2)], card("5", "hearts"), classic);
+
+    const { state: next, events } = applyAction(state, { type: "play", playerId: "p0", cardId: "8-hearts" });
+    expect(next.currentPlayerIndex).toBe(2);
+    expect(events).toContainEqual({ type: "player_skipped", playerId: "p1" });
+  });
+});
+
+describe("applyAction with the house rules", () => {
+  const house = { specialCards: RULE_PRESETS.house };
+
+  it("turns play around with a queen", () => {
+    const state = table([[card("Q", "hearts"), ...filler(0)], filler(1), filler(2)], card("5", "hearts"), house);
+
+    const { state: next } = applyAction(state, { type: "play", playerId: "p0", cardId: "Q-hearts" });
+    expect(next.direction).toBe("counterclockwise");
+    expect(next.currentPlayerIndex).toBe(2);
+  });
+
+  it("makes the next player draw five and lose the turn with a joker", () => {
+    const state = table([[card("joker", "joker"), ...filler(0)], filler(1), filler(2)], card("5", "hearts"), house);
+
+    const { state: next, events } = applyAction(state, { type: "play", playerId: "p0", cardId: "joker-joker" });
+    expect(next.players[1].cards).toHaveLength(7);
+    expect(next.currentPlayerIndex).toBe(2);
+    expect(events).toContainEqual({ type: "player_skipped", playerId: "p1" });
+  });
+
+  it("makes the previous player draw with a nine", () => {
+    const state = table([[card("9", "hearts"), ...filler(0)], filler(1), filler(2)], card("5", "hearts"), house);
+
+    const { state: next } = applyAction(state, { type: "play", playerId: "p0", cardId: "9-hearts" });
+    expect(next.players[2].cards).toHaveLength(3);
+    expect(next.currentPlayerIndex).toBe(1);
+  });
+});
+
+describe("applyAction with a custom table", () => {
+  it("gives another turn to whoever plays a play-again card", () => {
+    const state = table([[card("K", "hearts"), ...filler(0)], filler(1)], card("5", "hearts"), {
+      specialCards: { K: { type: "play_again" } },
+    });
+
+    const { state: next, events } = applyAction(state, { type: "play", playerId: "p0", cardId: "K-hearts" });
+    expect(next.currentPlayerIndex).toBe(0);
+    expect(events).toContainEqual({ type: "extra_turn", playerId: "p0" });
+  });
+
+  it("leaves ranks out of the table without an effect", () => {
+    const state = table([[card("Q", "hearts"), ...filler(0)], filler(1), filler(2)], card("5", "hearts"), {
+      specialCards: {},
+    });
+
+    const { state: next } = applyAction(state, { type: "play", playerId: "p0", cardId: "Q-hearts" });
+    expect(next.direction).toBe("clockwise");
+    expect(next.currentPlayerIndex).toBe(1);
+  });
+});
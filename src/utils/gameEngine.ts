@@ -0,0 +1,687 @@
+import { ActionResult, BotDifficulty, Card, DrawReason, GameAction, GameEvent, GameSettings, GameState, Player, Suit, TimeoutPolicy } from "../types/game";
+import translations from "../localization/pt-BR";
+import {
+  createDeck,
+  shuffleDeck,
+  dealCards,
+  isValidMove,
+  getNextPlayerIndex,
+  calculateScores,
+  handleSpecialCard,
+  checkMauMauStatus,
+  drawCardsFromDeck,
+  getCardEffect,
+  getDefaultGameSettings,
+  getTopCard,
+  getHandSize,
+  BLUFF_PENALTY,
+  MAU_MAU_PENALTY
+} from "./gameUtils";
+import { RandomSource, createSeed, seededRandom } from "./random";
+
+// Empty table, before anyone has been dealt in
+export const getInitialGameState = (settings: GameSettings = getDefaultGameSettings()): GameState => ({
+  players: [],
+  currentPlayerIndex: 0,
+  deck: [],
+  discardPile: [],
+  direction: "clockwise",
+  gameStarted: false,
+  gameEnded: false,
+  winner: null,
+  lastAction: "",
+  settings,
+  hasDrawnThisTurn: false,
+  pendingDraw: 0,
+  wishedSuit: null,
+  claim: null,
+  mauMauWindow: null,
+  seed: 0,
+  rngState: 0
+});
+
+export interface RoundOptions {
+  seed?: number;                     // Defaults to a fresh random seed
+  cardId?: (card: Card) => string;   // Rename cards after dealing, e.g. to database ids
+  firstPlayer?: number;              // Index of the player who starts; defaults to 0
+}
+
+// Deal a new round. Scores carry over from the given players.
+// The same seed always deals the same table.
+export const startRound = (
+  players: Pick<Player, "id" | "name" | "score" | "bot">[],
+  settings: GameSettings,
+  { seed = createSeed(), cardId, firstPlayer = 0 }: RoundOptions = {},
+): GameState => {
+  const rng = seededRandom(seed);
+  let deck = shuffleDeck(createDeck(settings.deck), rng.random);
+  if (cardId) {
+    deck = deck.map(card => ({ ...card, id: cardId(card) }));
+  }
+  
+  const seatedPlayers: Player[] = players.map(player => ({
+    id: player.id,
+    name: player.name,
+    score: player.score,
+    cards: [],
+    saidMauMau: false,
+    isEliminated: false,
+    ...(player.bot && { bot: player.bot }),
+  }));
+
+  const { updatedPlayers, updatedDeck } = dealCards(seatedPlayers, deck, getHandSize(settings.deck, seatedPlayers.length));
+
+  // Place the first card on the discard pile
+  const firstCard = updatedDeck.pop()!;
+
+  return {
+    ...getInitialGameState(settings),
+    players: updatedPlayers,
+    deck: updatedDeck,
+    discardPile: [firstCard],
+    currentPlayerIndex: firstPlayer,
+    gameStarted: true,
+    lastAction: translations.events.roundStarted(updatedPlayers[firstPlayer].name),
+    seed,
+    rngState: rng.getState(),
+  };
+};
+
+// Re-run a list of actions from a dealt round; used to reproduce a table
+export const replayActions = (initialState: GameState, actions: GameAction[]): GameState =>
+  actions.reduce((state, action) => applyAction(state, action).state, initialState);
+
+// Actions that leave a pending bluff open to challenge
+const SIDE_ACTIONS: GameAction["type"][] = [
+  "challenge", "say_mau_mau", "catch_mau_mau", "close_mau_mau_window", "take_over_seat",
+];
+
+// Mau Mau calls and catches don't wait for anyone's turn, and neither does leaving the table
+const isOutOfTurnAction = (state: GameState, action: GameAction): boolean => {
+  if (!state.players.some(player => player.id === action.playerId)) {
+    return false;
+  }
+  switch (action.type) {
+    case "catch_mau_mau":
+    case "close_mau_mau_window":
+    case "take_over_seat":
+    case "forfeit":
+      return true;
+    case "say_mau_mau":
+      return state.mauMauWindow === action.playerId;
+    default:
+      return false;
+  }
+};
+
+// Apply a player's action. Pure: returns the next state and what happened,
+// or throws if the action is not allowed right now.
+export const applyAction = (state: GameState, action: GameAction): ActionResult => {
+  if (!state.gameStarted || state.gameEnded) {
+    throw new Error("Não há uma rodada em andamento.");
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  if (currentPlayer.id !== action.playerId && !isOutOfTurnAction(state, action)) {
+    throw new Error("Não é a sua vez.");
+  }
+  if (state.players.find(player => player.id === action.playerId)?.isEliminated) {
+    throw new Error("Você já saiu desta rodada.");
+  }
+
+  // Every reshuffle draws from the game's own generator, never Math.random
+  const rng = seededRandom(state.rngState);
+
+  // Doing anything but challenging accepts a face-down card as claimed
+  const table: GameState =
+    state.claim?.challengeable && !SIDE_ACTIONS.includes(action.type)
+      ? { ...state, claim: { ...state.claim, challengeable: false } }
+      : state;
+
+  let result: ActionResult;
+  switch (action.type) {
+    case "play":
+      result = playCard(table, action.cardId, action.wishedSuit ?? null, rng.random);
+      break;
+    case "bluff":
+      result = bluffCard(table, action.cardId, action.claimed);
+      break;
+    case "challenge":
+      result = challengeClaim(table, rng.random);
+      break;
+    case "draw":
+      result = drawCard(table, rng.random);
+      break;
+    case "pass":
+      result = passTurn(table);
+      break;
+    case "say_mau_mau":
+      result = sayMauMau(table, action.playerId);
+      break;
+    case "catch_mau_mau":
+      result = catchMauMau(table, action.playerId, action.targetId, rng.random);
+      break;
+    case "close_mau_mau_window":
+      result = { state: { ...table, mauMauWindow: null }, events: [] };
+      break;
+    case "timeout":
+      result = timeOut(table, action.policy ?? "draw", rng.random);
+      break;
+    case "take_over_seat":
+      result = takeOverSeat(table, action.playerId, action.bot);
+      break;
+    case "forfeit":
+      result = forfeit(table, action.playerId);
+      break;
+  }
+
+  return {
+    state: {
+      ...result.state,
+      lastAction: describeEvents(result.events, result.state.players) || result.state.lastAction,
+      rngState: rng.getState(),
+    },
+    events: result.events,
+  };
+};
+
+// Human-readable summary of a list of events
+export const describeEvents = (events: GameEvent[], players: Pick<Player, "id" | "name">[]): string =>
+  events.map(event => describeEvent(event, players)).join(" ");
+
+export const describeEvent = (event: GameEvent, players: Pick<Player, "id" | "name">[]): string => {
+  const nameOf = (playerId: string) => players.find(player => player.id === playerId)?.name ?? "?";
+
+  switch (event.type) {
+    case "card_played":
+      return translations.events.cardPlayed(nameOf(event.playerId), describeCard(event.card));
+    case "cards_drawn":
+      if (event.reason === "penalty" || event.reason === "stack") {
+        return translations.events.penaltyDrawn(nameOf(event.playerId), event.count);
+      }
+      if (event.reason === "special") {
+        return translations.events.specialDrawn(nameOf(event.playerId), event.count);
+      }
+      return translations.events.cardDrawn(nameOf(event.playerId));
+    case "deck_reshuffled":
+      return translations.events.deckReshuffled;
+    case "player_skipped":
+      return translations.events.playerSkipped(nameOf(event.playerId));
+    case "direction_changed":
+      return translations.events.directionChanged;
+    case "draw_stacked":
+      return translations.events.drawStacked(nameOf(event.playerId), event.total);
+    case "extra_turn":
+      return translations.events.extraTurn(nameOf(event.playerId));
+    case "suit_wished":
+      return translations.events.suitWished(nameOf(event.playerId), translations.cards.suits[event.suit]);
+    case "card_bluffed":
+      return translations.events.cardBluffed(nameOf(event.playerId), describeCard(event.claimed));
+    case "claim_challenged":
+      return event.bluffed
+        ? translations.events.bluffCaught(nameOf(event.playerId), nameOf(event.targetId), describeCard(event.card))
+        : translations.events.challengeFailed(nameOf(event.playerId), nameOf(event.targetId), describeCard(event.card));
+    case "mau_mau_said":
+      return translations.events.mauMauSaid(nameOf(event.playerId));
+    case "mau_mau_penalty":
+      return translations.events.mauMauForgotten(nameOf(event.playerId));
+    case "mau_mau_caught":
+      return translations.events.mauMauCaught(nameOf(event.playerId), nameOf(event.targetId));
+    case "false_catch":
+      return translations.events.falseCatch(nameOf(event.playerId), nameOf(event.targetId));
+    case "turn_passed":
+      return translations.events.turnPassed(nameOf(event.playerId));
+    case "turn_timed_out":
+      return translations.events.turnTimedOut(nameOf(event.playerId));
+    case "round_won":
+      return translations.events.roundWon(nameOf(event.playerId));
+    case "seat_taken_over":
+      return event.bot
+        ? translations.events.seatTakenOver(nameOf(event.playerId))
+        : translations.events.seatReclaimed(nameOf(event.playerId));
+    case "player_forfeited":
+      return translations.events.playerForfeited(nameOf(event.playerId));
+    case "move_taken_back":
+      return translations.events.moveTakenBack(nameOf(event.playerId));
+  }
+};
+
+export const describeCard = (card: Pick<Card, "suit" | "rank">): string =>
+  card.rank === "joker"
+    ? translations.cards.joker
+    : `${card.rank} de ${translations.cards.suits[card.suit]}`;
+
+const clonePlayers = (players: Player[]): Player[] =>
+  players.map(player => ({ ...player, cards: [...player.cards] }));
+
+// Hand the turn to nextPlayerIndex and reset the per-turn flags.
+// A Mau Mau call stands for as long as the player is down to one card.
+const beginTurn = (state: GameState, nextPlayerIndex: number, events: GameEvent[]): GameState => {
+  const players = state.players.map(player => ({
+    ...player,
+    saidMauMau: player.saidMauMau && player.cards.length === 1,
+  }));
+  const nextPlayer = players[nextPlayerIndex];
+
+  // With auto-check on, the system calls Mau Mau for whoever starts a turn on one card
+  if (
+    state.settings.enableMauMauRule &&
+    state.settings.autoCheckMauMau &&
+    nextPlayer.cards.length === 1 &&
+    !nextPlayer.saidMauMau
+  ) {
+    nextPlayer.saidMauMau = true;
+    events.push({ type: "mau_mau_said", playerId: nextPlayer.id });
+  }
+
+  return {
+    ...state,
+    players,
+    currentPlayerIndex: nextPlayerIndex,
+    hasDrawnThisTurn: false,
+    // Too late to catch someone once their next turn comes round
+    mauMauWindow: state.mauMauWindow === nextPlayer.id ? null : state.mauMauWindow,
+  };
+};
+
+// Whether dropping to one card leaves the player open to being caught
+const opensMauMauWindow = (player: Player, settings: GameSettings): boolean =>
+  settings.enableMauMauRule &&
+  !settings.autoCheckMauMau &&
+  player.cards.length === 1 &&
+  !player.saidMauMau;
+
+const playCard = (
+  state: GameState,
+  cardId: string,
+  wishedSuit: Suit | null,
+  random: RandomSource,
+): ActionResult => {
+  const events: GameEvent[] = [];
+  const players = clonePlayers(state.players);
+  const currentPlayer = players[state.currentPlayerIndex];
+  const cardToPlay = currentPlayer.cards.find(card => card.id === cardId);
+
+  if (!cardToPlay) {
+    throw new Error("Esta carta não está na sua mão.");
+  }
+
+  const topCard = getTopCard(state)!;
+  if (!isValidMove(cardToPlay, topCard, state)) {
+    throw new Error("Esta carta não pode ser jogada agora.");
+  }
+
+  if (getCardEffect(cardToPlay, state.settings)?.type === "wish_suit" && (!wishedSuit || wishedSuit === "joker")) {
+    throw new Error("Escolha o naipe que deve ser seguido.");
+  }
+
+  let deck = state.deck;
+  let discardPile = state.discardPile;
+
+  // Going out on your last card without having called Mau Mau costs two cards
+  const mauMauCheck = checkMauMauStatus(
+    currentPlayer,
+    currentPlayer.saidMauMau,
+    state.settings.enableMauMauRule
+  );
+
+  if (mauMauCheck.shouldPenalize) {
+    const penalty = drawCardsFromDeck(deck, discardPile, MAU_MAU_PENALTY, random);
+    currentPlayer.cards.push(...penalty.drawnCards);
+    deck = penalty.updatedDeck;
+    discardPile = penalty.updatedDiscardPile;
+
+    events.push({ type: "mau_mau_penalty", playerId: currentPlayer.id });
+    if (penalty.reshuffled) {
+      events.push({ type: "deck_reshuffled" });
+    }
+    events.push({ type: "cards_drawn", playerId: currentPlayer.id, cards: penalty.drawnCards, count: penalty.drawnCards.length, reason: "penalty" });
+  }
+
+  currentPlayer.cards = currentPlayer.cards.filter(card => card.id !== cardToPlay.id);
+  discardPile = [...discardPile, cardToPlay];
+  events.push({ type: "card_played", playerId: currentPlayer.id, card: cardToPlay });
+
+  const playedState: GameState = {
+    ...state,
+    players,
+    deck,
+    discardPile,
+    claim: null,
+    mauMauWindow: opensMauMauWindow(currentPlayer, state.settings) ? currentPlayer.id : state.mauMauWindow,
+  };
+
+  // Round over: the winner keeps their score, everyone else pays for their cards
+  if (currentPlayer.cards.length === 0) {
+    events.push({ type: "round_won", playerId: currentPlayer.id });
+    return {
+      state: {
+        ...playedState,
+        players: calculateScores(players, currentPlayer.id, state.settings.deck),
+        winner: currentPlayer.id,
+        gameEnded: true,
+        hasDrawnThisTurn: false,
+        mauMauWindow: null,
+      },
+      events,
+    };
+  }
+
+  const special = handleSpecialCard(cardToPlay, playedState, random, wishedSuit);
+  events.push(...special.events);
+
+  return {
+    state: beginTurn(special.state, special.state.currentPlayerIndex, events),
+    events,
+  };
+};
+
+// Bluff rule: any card goes face down, said to be a plain card that follows the table
+const bluffCard = (state: GameState, cardId: string, claimed: Pick<Card, "suit" | "rank">): ActionResult => {
+  if (!state.settings.enableBluffing) {
+    throw new Error("Blefes não estão habilitados nesta partida.");
+  }
+  if (state.pendingDraw > 0) {
+    throw new Error("Não é possível blefar com cartas acumuladas na mesa.");
+  }
+
+  const players = clonePlayers(state.players);
+  const currentPlayer = players[state.currentPlayerIndex];
+  const card = currentPlayer.cards.find(card => card.id === cardId);
+
+  if (!card) {
+    throw new Error("Esta carta não está na sua mão.");
+  }
+  if (currentPlayer.cards.length === 1) {
+    throw new Error("A última carta não pode ser jogada virada.");
+  }
+
+  // Face-down cards have no effect, so only plain cards may be claimed
+  const claimedCard: Card = {
+    id: card.id,
+    ...claimed,
+    isRed: claimed.suit === "hearts" || claimed.suit === "diamonds",
+  };
+  if (
+    claimed.rank === "joker" ||
+    claimed.suit === "joker" ||
+    !state.settings.deck.ranks.includes(claimed.rank) ||
+    getCardEffect(claimedCard, state.settings) ||
+    !isValidMove(claimedCard, getTopCard(state)!, state)
+  ) {
+    throw new Error("A carta declarada precisa ser uma carta comum que possa ser jogada.");
+  }
+
+  currentPlayer.cards = currentPlayer.cards.filter(handCard => handCard.id !== card.id);
+  const events: GameEvent[] = [{ type: "card_bluffed", playerId: currentPlayer.id, claimed }];
+
+  const bluffedState: GameState = {
+    ...state,
+    players,
+    discardPile: [...state.discardPile, card],
+    wishedSuit: null,
+    claim: { playerId: currentPlayer.id, cardId: card.id, ...claimed, challengeable: true },
+    mauMauWindow: opensMauMauWindow(currentPlayer, state.settings) ? currentPlayer.id : state.mauMauWindow,
+  };
+
+  return { state: beginTurn(bluffedState, nextIndex(bluffedState), events), events };
+};
+
+// The next player turns the face-down card over: whoever was wrong draws the penalty.
+// Either way the challenger then carries on with their turn.
+const challengeClaim = (state: GameState, random: RandomSource): ActionResult => {
+  const claim = state.claim;
+  if (!claim?.challengeable) {
+    throw new Error("Não há nenhuma carta para desafiar.");
+  }
+
+  const players = clonePlayers(state.players);
+  const challenger = players[state.currentPlayerIndex];
+  const bluffer = players.find(player => player.id === claim.playerId)!;
+  const card = state.discardPile[state.discardPile.length - 1];
+  const bluffed = card.suit !== claim.suit || card.rank !== claim.rank;
+  const events: GameEvent[] = [
+    { type: "claim_challenged", playerId: challenger.id, targetId: bluffer.id, card, bluffed },
+  ];
+
+  // A caught bluff goes back to its owner
+  let discardPile = state.discardPile;
+  if (bluffed) {
+    bluffer.cards.push(card);
+    discardPile = discardPile.slice(0, -1);
+  }
+
+  const loser = bluffed ? bluffer : challenger;
+  const { drawnCards, updatedDeck, updatedDiscardPile, reshuffled } =
+    drawCardsFromDeck(state.deck, discardPile, BLUFF_PENALTY, random);
+
+  if (reshuffled) {
+    events.push({ type: "deck_reshuffled" });
+  }
+  if (drawnCards.length > 0) {
+    loser.cards.push(...drawnCards);
+    events.push({ type: "cards_drawn", playerId: loser.id, cards: drawnCards, count: drawnCards.length, reason: "penalty" });
+  }
+
+  return {
+    state: { ...state, players, deck: updatedDeck, discardPile: updatedDiscardPile, claim: null },
+    events,
+  };
+};
+
+const drawCard = (state: GameState, random: RandomSource): ActionResult => {
+  if (state.hasDrawnThisTurn) {
+    throw new Error("Você já comprou uma carta nesta vez.");
+  }
+
+  const events: GameEvent[] = [];
+  const currentPlayer = state.players[state.currentPlayerIndex];
+
+  // Owing stacked draw-twos: take them all and the turn is over
+  if (state.pendingDraw > 0) {
+    const { state: drawnState } = drawForCurrentPlayer(state, state.pendingDraw, "stack", random, events);
+    return { state: beginTurn(drawnState, nextIndex(drawnState), events), events };
+  }
+
+  const { state: drawnState, drawnCards } = drawForCurrentPlayer(state, 1, "draw", random, events);
+
+  // Nothing left to draw: the turn simply moves on
+  if (drawnCards.length === 0) {
+    events.push({ type: "turn_passed", playerId: currentPlayer.id });
+    return { state: beginTurn(drawnState, nextIndex(drawnState), events), events };
+  }
+
+  // The player keeps the turn if the drawn card can be played right away
+  const topCard = getTopCard(drawnState)!;
+  if (isValidMove(drawnCards[0], topCard, drawnState)) {
+    return { state: { ...drawnState, hasDrawnThisTurn: true }, events };
+  }
+
+  return { state: beginTurn(drawnState, nextIndex(drawnState), events), events };
+};
+
+const passTurn = (state: GameState): ActionResult => {
+  if (!state.hasDrawnThisTurn) {
+    throw new Error("Compre uma carta antes de passar a vez.");
+  }
+
+  const events: GameEvent[] = [
+    { type: "turn_passed", playerId: state.players[state.currentPlayerIndex].id },
+  ];
+  return { state: beginTurn(state, nextIndex(state), events), events };
+};
+
+// On your own turn, or right after dropping to one card while nobody has caught you yet
+const sayMauMau = (state: GameState, playerId: string): ActionResult => {
+  const players = state.players.map(player =>
+    player.id === playerId ? { ...player, saidMauMau: true } : player
+  );
+
+  return {
+    state: { ...state, players, mauMauWindow: state.mauMauWindow === playerId ? null : state.mauMauWindow },
+    events: [{ type: "mau_mau_said", playerId }],
+  };
+};
+
+// An opponent calls out a missing Mau Mau. Catching someone who did call it costs the catcher.
+const catchMauMau = (state: GameState, catcherId: string, targetId: string, random: RandomSource): ActionResult => {
+  const players = clonePlayers(state.players);
+  const catcher = players.find(player => player.id === catcherId)!;
+  const target = players.find(player => player.id === targetId);
+
+  if (!target || target.id === catcher.id) {
+    throw new Error("Escolha um adversário para pegar.");
+  }
+
+  const caught = state.mauMauWindow === target.id;
+  if (!caught && !(target.cards.length === 1 && target.saidMauMau)) {
+    throw new Error("Tarde demais: não há ninguém para pegar.");
+  }
+
+  const events: GameEvent[] = [
+    caught
+      ? { type: "mau_mau_caught", playerId: catcher.id, targetId: target.id }
+      : { type: "false_catch", playerId: catcher.id, targetId: target.id },
+  ];
+
+  const loser = caught ? target : catcher;
+  const { drawnCards, updatedDeck, updatedDiscardPile, reshuffled } =
+    drawCardsFromDeck(state.deck, state.discardPile, MAU_MAU_PENALTY, random);
+
+  if (reshuffled) {
+    events.push({ type: "deck_reshuffled" });
+  }
+  if (drawnCards.length > 0) {
+    loser.cards.push(...drawnCards);
+    events.push({ type: "cards_drawn", playerId: loser.id, cards: drawnCards, count: drawnCards.length, reason: "penalty" });
+  }
+
+  return {
+    state: {
+      ...state,
+      players,
+      deck: updatedDeck,
+      discardPile: updatedDiscardPile,
+      mauMauWindow: caught ? null : state.mauMauWindow,
+    },
+    events,
+  };
+};
+
+// Time ran out. By the room's policy the player plays their first card that fits, or
+// draws (unless already drawn) or just passes; stacked cards are taken either way.
+const timeOut = (state: GameState, policy: TimeoutPolicy, random: RandomSource): ActionResult => {
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  const events: GameEvent[] = [{ type: "turn_timed_out", playerId: currentPlayer.id }];
+
+  if (policy === "play_first") {
+    const topCard = getTopCard(state)!;
+    const card = currentPlayer.cards.find(candidate => isValidMove(candidate, topCard, state));
+    if (card) {
+      // A wild card asks for the suit of the first plain card left in hand
+      const wishedSuit = currentPlayer.cards.find(other => other.id !== card.id && other.suit !== "joker")?.suit ?? "hearts";
+      const played = playCard(state, card.id, wishedSuit, random);
+      return { state: played.state, events: [...events, ...played.events] };
+    }
+  }
+
+  let timedOutState = state;
+  if (state.pendingDraw > 0) {
+    timedOutState = drawForCurrentPlayer(state, state.pendingDraw, "stack", random, events).state;
+  } else if (!state.hasDrawnThisTurn && policy !== "pass") {
+    timedOutState = drawForCurrentPlayer(state, 1, "draw", random, events).state;
+  }
+
+  return { state: beginTurn(timedOutState, nextIndex(timedOutState), events), events };
+};
+
+// A bot sits in for a player who dropped out (bot null gives the seat back)
+const takeOverSeat = (state: GameState, playerId: string, bot: BotDifficulty | null): ActionResult => {
+  const players = state.players.map(player => {
+    if (player.id !== playerId) {
+      return player;
+    }
+    const { bot: _previous, ...rest } = player;
+    return bot ? { ...rest, bot } : rest;
+  });
+  return { state: { ...state, players }, events: [{ type: "seat_taken_over", playerId, bot }] };
+};
+
+// The player leaves the match: their hand goes under the deck and their score
+// drops to zero. The last one left at the table wins the round.
+const forfeit = (state: GameState, playerId: string): ActionResult => {
+  const events: GameEvent[] = [{ type: "player_forfeited", playerId }];
+  const leaving = state.players.find(player => player.id === playerId)!;
+  const players = state.players.map(player =>
+    player.id === playerId ? { ...player, cards: [], score: 0, saidMauMau: false, isEliminated: true } : player
+  );
+  const forfeitedState: GameState = {
+    ...state,
+    players,
+    deck: [...leaving.cards, ...state.deck],
+    claim: state.claim?.playerId === playerId ? null : state.claim,
+    mauMauWindow: state.mauMauWindow === playerId ? null : state.mauMauWindow,
+  };
+
+  const remaining = players.filter(player => !player.isEliminated);
+  if (remaining.length === 1) {
+    events.push({ type: "round_won", playerId: remaining[0].id });
+    return {
+      state: {
+        ...forfeitedState,
+        players: calculateScores(players, remaining[0].id, state.settings.deck),
+        winner: remaining[0].id,
+        gameEnded: true,
+        hasDrawnThisTurn: false,
+        mauMauWindow: null,
+      },
+      events,
+    };
+  }
+
+  // Their turn passes on, along with anything they owed
+  if (state.players[state.currentPlayerIndex].id !== playerId) {
+    return { state: forfeitedState, events };
+  }
+  return {
+    state: beginTurn({ ...forfeitedState, pendingDraw: 0 }, nextIndex(forfeitedState), events),
+    events,
+  };
+};
+
+// Move cards from the deck into the current player's hand, recording the events.
+// Drawing settles any stacked draw-twos.
+const drawForCurrentPlayer = (
+  state: GameState,
+  count: number,
+  reason: DrawReason,
+  random: RandomSource,
+  events: GameEvent[],
+): { state: GameState; drawnCards: Card[] } => {
+  const players = clonePlayers(state.players);
+  const currentPlayer = players[state.currentPlayerIndex];
+  const { drawnCards, updatedDeck, updatedDiscardPile, reshuffled } =
+    drawCardsFromDeck(state.deck, state.discardPile, count, random);
+
+  if (reshuffled) {
+    events.push({ type: "deck_reshuffled" });
+  }
+  if (drawnCards.length > 0) {
+    currentPlayer.cards.push(...drawnCards);
+    events.push({ type: "cards_drawn", playerId: currentPlayer.id, cards: drawnCards, count: drawnCards.length, reason });
+  }
+
+  return {
+    state: {
+      ...state,
+      players,
+      deck: updatedDeck,
+      discardPile: updatedDiscardPile,
+      pendingDraw: reason === "stack" ? 0 : state.pendingDraw,
+    },
+    drawnCards,
+  };
+};
+
+const nextIndex = (state: GameState): number =>
+  getNextPlayerIndex(state.currentPlayerIndex, state.direction, state.players);
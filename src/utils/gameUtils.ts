@@ -1,16 +1,52 @@
-import { Card, Rank, Suit, Player, GameState, Direction, GameSettings } from "../types/game";
+import { Card, Rank, Suit, Player, GameState, Direction, GameSettings, GameAction, GameEvent, DeckPreset, DeckSettings, RoomRules, RulePreset, SpecialCardTable, SpecialEffect } from "../types/game";
+import { RandomSource, randomInt } from "./random";
 
 export const INITIAL_SCORE = 100;
+export const MIN_INITIAL_SCORE = 10;
+export const MAX_INITIAL_SCORE = 1000;
+export const MAX_MATCH_ROUNDS = 50;
 export const INITIAL_CARDS = 7;
+export const SHORT_DECK_CARDS = 5;
+export const BLUFF_PENALTY = 2;
+export const MAU_MAU_PENALTY = 2;
+export const MAU_MAU_WINDOW_SECONDS = 5; // How long opponents have to catch a missing Mau Mau
 
-// Create a deck of cards (2 decks combined)
-export const createDeck = (includeJokers: boolean = false): Card[] => {
+export const ALL_RANKS: Rank[] = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+
+// Limits on how big a deck can be made
+export const MAX_DECK_COUNT = 4;
+export const MAX_JOKERS = 8;
+
+export const DECK_PRESETS: Record<DeckPreset, DeckSettings> = {
+  full: { ranks: ALL_RANKS, deckCount: 2, jokerCount: 0 },     // Two 52-card decks
+  skat: { ranks: ["7", "8", "9", "10", "J", "Q", "K", "A"], deckCount: 1, jokerCount: 0 }, // Traditional 32 cards
+};
+
+// Built-in preset a deck is, if any; rank order doesn't count
+export const findDeckPreset = (deck: DeckSettings): DeckPreset | null =>
+  (Object.keys(DECK_PRESETS) as DeckPreset[]).find(name => {
+    const preset = DECK_PRESETS[name];
+    return preset.deckCount === deck.deckCount &&
+      preset.jokerCount === deck.jokerCount &&
+      preset.ranks.length === deck.ranks.length &&
+      preset.ranks.every(rank => deck.ranks.includes(rank));
+  }) ?? null;
+
+// Number of cards a deck setting produces
+export const getDeckSize = (deck: DeckSettings): number =>
+  deck.ranks.length * 4 * deck.deckCount + deck.jokerCount;
+
+// Short decks have no cards below 7, like the Skat deck
+export const isShortDeck = (deck: DeckSettings): boolean =>
+  !deck.ranks.some(rank => ["2", "3", "4", "5", "6"].includes(rank));
+
+// Build the deck described by the settings
+export const createDeck = (settings: DeckSettings = DECK_PRESETS.full): Card[] => {
   const suits: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
-  const ranks: Rank[] = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
-  let deck: Card[] = [];
+  const ranks = ALL_RANKS.filter(rank => settings.ranks.includes(rank));
+  const deck: Card[] = [];
   
-  // Create two standard decks
-  for (let d = 0; d < 2; d++) {
+  for (let d = 0; d < settings.deckCount; d++) {
     for (const suit of suits) {
       for (const rank of ranks) {
         const isRed = suit === "hearts" || suit === "diamonds";
@@ -22,33 +58,39 @@ export const createDeck = (includeJokers: boolean = false): Card[] => {
         });
       }
     }
-    
-    // Add jokers if enabled
-    if (includeJokers) {
-      deck.push({
-        id: `joker-red-${d}`,
-        suit: "joker",
-        rank: "joker",
-        isRed: true
-      });
-      
-      deck.push({
-        id: `joker-black-${d}`,
-        suit: "joker",
-        rank: "joker",
-        isRed: false
-      });
-    }
+  }
+  
+  // Jokers alternate red and black
+  for (let j = 0; j < settings.jokerCount; j++) {
+    const isRed = j % 2 === 0;
+    deck.push({
+      id: `joker-${isRed ? "red" : "black"}-${Math.floor(j / 2)}`,
+      suit: "joker",
+      rank: "joker",
+      isRed
+    });
   }
   
   return deck;
 };
 
-// Shuffle the deck
-export const shuffleDeck = (deck: Card[]): Card[] => {
+// Cards dealt to each player: 7, or 5 with a short deck, and never so many
+// that less than a third of the deck is left to draw from
+export const getHandSize = (deck: DeckSettings, playerCount: number): number => {
+  const preferred = isShortDeck(deck) ? SHORT_DECK_CARDS : INITIAL_CARDS;
+  const affordable = Math.floor((getDeckSize(deck) * 2) / 3 / Math.max(playerCount, 1));
+  return Math.max(1, Math.min(preferred, affordable));
+};
+
+// Cards left to draw from right after the deal (one goes to the discard pile)
+export const getDrawPileSize = (deck: DeckSettings, playerCount: number): number =>
+  getDeckSize(deck) - getHandSize(deck, playerCount) * playerCount - 1;
+
+// Shuffle the deck (Fisher-Yates). Pass a seeded source for reproducible deals.
+export const shuffleDeck = (deck: Card[], random: RandomSource): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(i + 1, random);
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
@@ -58,11 +100,12 @@ export const shuffleDeck = (deck: Card[]): Card[] => {
 export const dealCards = (
   players: Player[],
   deck: Card[],
+  handSize: number = INITIAL_CARDS,
 ): { updatedPlayers: Player[]; updatedDeck: Card[] } => {
-  const updatedPlayers = [...players];
-  let updatedDeck = [...deck];
+  const updatedPlayers = players.map(player => ({ ...player, cards: [...player.cards] }));
+  const updatedDeck = [...deck];
   
-  for (let i = 0; i < INITIAL_CARDS; i++) {
+  for (let i = 0; i < handSize; i++) {
     for (let j = 0; j < updatedPlayers.length; j++) {
       if (updatedDeck.length > 0) {
         const card = updatedDeck.pop()!;
@@ -74,20 +117,89 @@ export const dealCards = (
   return { updatedPlayers, updatedDeck };
 };
 
+// Most cards a draw effect can make someone take
+export const MAX_EFFECT_COUNT = 10;
+
+// Built-in special card tables
+export const RULE_PRESETS: Record<RulePreset, SpecialCardTable> = {
+  house: {
+    joker: { type: "draw", count: 5, stackable: false },
+    A: { type: "skip" },
+    Q: { type: "reverse" },
+    "9": { type: "previous_draws", count: 1 },
+  },
+  classic: {
+    joker: { type: "draw", count: 5, stackable: false },
+    "7": { type: "draw", count: 2, stackable: true },
+    J: { type: "wish_suit" },
+    "8": { type: "skip" },
+  },
+};
+
+// Whether two tables give the same ranks the same effects. Key order doesn't
+// count: tables stored as jsonb come back with their keys reordered.
+export const sameSpecialCards = (a: SpecialCardTable, b: SpecialCardTable): boolean => {
+  const sameEffect = (x: SpecialEffect, y: SpecialEffect) =>
+    Object.keys(x).length === Object.keys(y).length &&
+    Object.entries(x).every(([key, value]) => (y as Record<string, unknown>)[key] === value);
+  return Object.keys(a).length === Object.keys(b).length &&
+    Object.entries(a).every(([rank, effect]) => !!b[rank as Rank] && sameEffect(effect, b[rank as Rank]));
+};
+
+// Built-in preset a table is, if any
+export const findRulePreset = (table: SpecialCardTable): RulePreset | null =>
+  (Object.keys(RULE_PRESETS) as RulePreset[]).find(name => sameSpecialCards(RULE_PRESETS[name], table)) ?? null;
+
+// Effect of a card under the game's rules, if any
+export const getCardEffect = (card: Card, settings: GameSettings): SpecialEffect | null =>
+  settings.specialCards[card.rank] ?? null;
+
+const isStackableDraw = (effect: SpecialEffect | null): boolean =>
+  effect?.type === "draw" && effect.stackable;
+
+// Card the next play has to follow: a face-down bluff card counts as what was claimed
+export const getTopCard = (table: Pick<GameState, "discardPile" | "claim">): Card | null => {
+  const topCard = table.discardPile[table.discardPile.length - 1];
+  if (!topCard) {
+    return null;
+  }
+  if (table.claim?.cardId === topCard.id) {
+    const { suit, rank } = table.claim;
+    return { ...topCard, suit, rank, isRed: suit === "hearts" || suit === "diamonds" };
+  }
+  return topCard;
+};
+
 // Check if a card can be played on top of discard pile
-export const isValidMove = (cardToPlay: Card, topCard: Card, enableBluffing: boolean = false): boolean => {
+export const isValidMove = (
+  cardToPlay: Card,
+  topCard: Card,
+  table: Pick<GameState, "settings" | "pendingDraw" | "wishedSuit">,
+): boolean => {
+  const effect = getCardEffect(cardToPlay, table.settings);
+  
+  // Owing stacked cards: only another stackable draw can be played
+  if (table.pendingDraw > 0) {
+    return isStackableDraw(effect);
+  }
+  
   // Jokers can be played on anything
   if (cardToPlay.rank === "joker") {
     return true;
   }
   
-  // Any card can be played on a joker
-  if (topCard.rank === "joker") {
-    return true;
+  // Wish cards are wild, but not on top of each other
+  if (effect?.type === "wish_suit") {
+    return getCardEffect(topCard, table.settings)?.type !== "wish_suit";
   }
   
-  // If bluffing is enabled, any card is considered valid (tactical choice)
-  if (enableBluffing) {
+  // A wished suit replaces the top card's suit and rank
+  if (table.wishedSuit) {
+    return cardToPlay.suit === table.wishedSuit;
+  }
+  
+  // Any card can be played on a joker
+  if (topCard.rank === "joker") {
     return true;
   }
   
@@ -99,16 +211,21 @@ export const isValidMove = (cardToPlay: Card, topCard: Card, enableBluffing: boo
 };
 
 // Get the next player's index
+// Next seat in the given direction, passing over anyone who forfeited
 export const getNextPlayerIndex = (
   currentPlayerIndex: number,
   direction: Direction,
-  playersCount: number,
+  players: Pick<Player, "isEliminated">[],
 ): number => {
-  if (direction === "clockwise") {
-    return (currentPlayerIndex + 1) % playersCount;
-  } else {
-    return (currentPlayerIndex - 1 + playersCount) % playersCount;
+  const step = direction === "clockwise" ? 1 : players.length - 1;
+  let index = currentPlayerIndex;
+  for (let seat = 0; seat < players.length; seat++) {
+    index = (index + step) % players.length;
+    if (!players[index].isEliminated) {
+      break;
+    }
   }
+  return index;
 };
 
 // Find a player with no cards (winner)
@@ -117,10 +234,14 @@ export const findWinner = (players: Player[]): string | null => {
   return winner ? winner.id : null;
 };
 
-// Calculate card points
-export const getCardPoints = (card: Card): number => {
+const SHORT_DECK_POINTS: Partial<Record<Rank, number>> = { A: 11, K: 4, Q: 3, J: 2 };
+
+// Calculate card points. Short decks use the traditional values (A 11, K 4, Q 3, J 2).
+export const getCardPoints = (card: Card, deck: DeckSettings = DECK_PRESETS.full): number => {
   if (card.rank === "joker") {
     return 20;
+  } else if (isShortDeck(deck)) {
+    return SHORT_DECK_POINTS[card.rank] ?? (parseInt(card.rank) || 0);
   } else if (card.rank === "A") {
     return 15;
   } else if (["K", "Q", "J"].includes(card.rank)) {
@@ -134,6 +255,7 @@ export const getCardPoints = (card: Card): number => {
 export const calculateScores = (
   players: Player[],
   winnerId: string,
+  deck: DeckSettings = DECK_PRESETS.full,
 ): Player[] => {
   return players.map(player => {
     if (player.id === winnerId) {
@@ -142,7 +264,7 @@ export const calculateScores = (
     
     // Calculate points from remaining cards
     const pointsToLose = player.cards.reduce(
-      (total, card) => total + getCardPoints(card),
+      (total, card) => total + getCardPoints(card, deck),
       0
     );
     
@@ -154,100 +276,127 @@ export const calculateScores = (
   });
 };
 
-// Process special card effects
+// Process special card effects and advance the turn.
+// Returns a new state; the given one is left untouched.
 export const handleSpecialCard = (
   playedCard: Card,
   gameState: GameState,
-): GameState => {
-  let newState = { ...gameState };
-  let message = "";
+  random: RandomSource,
+  wishedSuit: Suit | null = null,
+): { state: GameState; events: GameEvent[] } => {
+  const newState: GameState = {
+    ...gameState,
+    players: gameState.players.map(player => ({ ...player, cards: [...player.cards] })),
+    wishedSuit: null,
+  };
+  const events: GameEvent[] = [];
+  const currentPlayer = newState.players[newState.currentPlayerIndex];
   
   // Always calculate the next player first - this ensures turn always advances
   let nextPlayerIndex = getNextPlayerIndex(
     newState.currentPlayerIndex,
     newState.direction,
-    newState.players.length
+    newState.players
   );
   
-  switch (playedCard.rank) {
-    case "joker": // Next player draws 5 cards and loses turn
-      const targetPlayerIndex = nextPlayerIndex; // Target is the player who would normally go next
-      const targetPlayer = newState.players[targetPlayerIndex];
+  const effect = getCardEffect(playedCard, newState.settings);
+  
+  switch (effect?.type) {
+    case "draw": {
+      const targetPlayer = newState.players[nextPlayerIndex];
+      
+      // Stackable draws are owed by the next player unless they answer with another one
+      if (effect.stackable) {
+        newState.pendingDraw += effect.count;
+        events.push({ type: "draw_stacked", playerId: targetPlayer.id, total: newState.pendingDraw });
+        break;
+      }
       
-      // Draw 5 cards for the next player
+      // Otherwise the next player draws right away and loses the turn
       const { drawnCards, updatedDeck, updatedDiscardPile, reshuffled } = 
-        drawCardsFromDeck(newState.deck, newState.discardPile, 5);
+        drawCardsFromDeck(newState.deck, newState.discardPile, effect.count, random);
       
+      if (reshuffled) {
+        events.push({ type: "deck_reshuffled" });
+      }
       if (drawnCards.length > 0) {
-        newState.players[targetPlayerIndex].cards.push(...drawnCards);
-        newState.deck = updatedDeck;
-        newState.discardPile = updatedDiscardPile;
-        
-        // Skip the targeted player's turn by advancing to the player after them
-        nextPlayerIndex = getNextPlayerIndex(
-          targetPlayerIndex,
-          newState.direction,
-          newState.players.length
-        );
-        
-        message = `${targetPlayer.name} comprou 5 cartas e perdeu a vez!`;
-        if (reshuffled) {
-          message += " O monte foi reembaralhado.";
-        }
-      } else {
-        // If no cards could be drawn, just skip turn
-        message = `${targetPlayer.name} perdeu a vez!`;
+        targetPlayer.cards.push(...drawnCards);
+        events.push({ type: "cards_drawn", playerId: targetPlayer.id, cards: drawnCards, count: drawnCards.length, reason: "special" });
       }
+      newState.deck = updatedDeck;
+      newState.discardPile = updatedDiscardPile;
+      
+      // Skip the targeted player's turn by advancing to the player after them
+      nextPlayerIndex = getNextPlayerIndex(
+        nextPlayerIndex,
+        newState.direction,
+        newState.players
+      );
+      events.push({ type: "player_skipped", playerId: targetPlayer.id });
       break;
+    }
       
-    case "A": // Skip next player
-      const skippedPlayerName = newState.players[nextPlayerIndex].name;
+    case "skip": { // Skip next player
+      const skippedPlayer = newState.players[nextPlayerIndex];
       
       // Skip the next player by advancing to the player after them
       nextPlayerIndex = getNextPlayerIndex(
         nextPlayerIndex,
         newState.direction,
-        newState.players.length
+        newState.players
       );
-      message = `${skippedPlayerName} foi pulado!`;
+      events.push({ type: "player_skipped", playerId: skippedPlayer.id });
       break;
+    }
       
-    case "Q": // Reverse direction
+    case "reverse": // Reverse direction
       newState.direction = newState.direction === "clockwise" ? "counterclockwise" : "clockwise";
       
       // Recalculate next player after direction change
       nextPlayerIndex = getNextPlayerIndex(
         newState.currentPlayerIndex,
         newState.direction,
-        newState.players.length
+        newState.players
       );
-      message = `Direção do jogo invertida!`;
+      events.push({ type: "direction_changed", direction: newState.direction });
       break;
       
-    case "9": // Previous player draws a card
-      const prevPlayerIndex = newState.direction === "clockwise" 
-        ? (newState.currentPlayerIndex - 1 + newState.players.length) % newState.players.length
-        : (newState.currentPlayerIndex + 1) % newState.players.length;
-      
+    case "previous_draws": { // Previous player draws
+      const prevPlayerIndex = getNextPlayerIndex(
+        newState.currentPlayerIndex,
+        newState.direction === "clockwise" ? "counterclockwise" : "clockwise",
+        newState.players
+      );
       const prevPlayer = newState.players[prevPlayerIndex];
       
-      if (newState.deck.length > 0) {
-        const drawnCard = newState.deck.pop()!;
-        newState.players[prevPlayerIndex].cards.push(drawnCard);
-        message = `${prevPlayer.name} comprou uma carta!`;
-      } else if (newState.discardPile.length > 1) {
-        // Reshuffle discard pile if deck is empty
-        const topCard = newState.discardPile.pop()!;
-        newState.deck = shuffleDeck(newState.discardPile);
-        newState.discardPile = [topCard];
-        
-        const drawnCard = newState.deck.pop()!;
-        newState.players[prevPlayerIndex].cards.push(drawnCard);
-        message = `Baralho foi embaralhado novamente. ${prevPlayer.name} comprou uma carta!`;
+      const { drawnCards, updatedDeck, updatedDiscardPile, reshuffled } = 
+        drawCardsFromDeck(newState.deck, newState.discardPile, effect.count, random);
+      
+      if (reshuffled) {
+        events.push({ type: "deck_reshuffled" });
       }
+      if (drawnCards.length > 0) {
+        prevPlayer.cards.push(...drawnCards);
+        events.push({ type: "cards_drawn", playerId: prevPlayer.id, cards: drawnCards, count: drawnCards.length, reason: "special" });
+      }
+      newState.deck = updatedDeck;
+      newState.discardPile = updatedDiscardPile;
       
       // Normal turn advancement happens below
       break;
+    }
+      
+    case "play_again": // Same player takes another turn
+      nextPlayerIndex = newState.currentPlayerIndex;
+      events.push({ type: "extra_turn", playerId: currentPlayer.id });
+      break;
+      
+    case "wish_suit": // Next player must follow the named suit
+      newState.wishedSuit = wishedSuit;
+      if (wishedSuit) {
+        events.push({ type: "suit_wished", playerId: currentPlayer.id, suit: wishedSuit });
+      }
+      break;
       
     default:
       // Regular cards - normal turn advancement happens below
@@ -256,8 +405,7 @@ export const handleSpecialCard = (
   
   // Always set the next player index - this ensures the turn always advances
   newState.currentPlayerIndex = nextPlayerIndex;
-  newState.lastAction = message || newState.lastAction;
-  return newState;
+  return { state: newState, events };
 };
 
 // Check if a player forgot to say Mau Mau
@@ -289,11 +437,12 @@ export const checkMauMauStatus = (
 export const drawCardsFromDeck = (
   deck: Card[],
   discardPile: Card[],
-  count: number
+  count: number,
+  random: RandomSource
 ): { drawnCards: Card[], updatedDeck: Card[], updatedDiscardPile: Card[], reshuffled: boolean } => {
   let updatedDeck = [...deck];
   let updatedDiscardPile = [...discardPile];
-  let drawnCards: Card[] = [];
+  const drawnCards: Card[] = [];
   let reshuffled = false;
   
   for (let i = 0; i < count; i++) {
@@ -304,7 +453,7 @@ export const drawCardsFromDeck = (
       
       // Keep the top card and reshuffle the rest
       const topCard = updatedDiscardPile.pop()!;
-      updatedDeck = shuffleDeck(updatedDiscardPile);
+      updatedDeck = shuffleDeck(updatedDiscardPile, random);
       updatedDiscardPile = [topCard];
       reshuffled = true;
     }
@@ -321,8 +470,46 @@ export const drawCardsFromDeck = (
 // Default game settings
 export const getDefaultGameSettings = (): GameSettings => ({
   initialScore: INITIAL_SCORE,
-  enableJokers: false,
+  specialCards: RULE_PRESETS.house,
+  matchEnd: { type: "last_standing" },
+  deck: DECK_PRESETS.full,
   enableBluffing: false,
   enableMauMauRule: true,
-  autoCheckMauMau: true
+  autoCheckMauMau: true,
+  absence: { policy: "auto_draw", graceSeconds: 30 },
+  turnTimer: { seconds: 30, bankSeconds: 0, onExpiry: "draw" }
+});
+
+// The rules an online room starts with
+export const getDefaultRoomRules = (): RoomRules => {
+  const { absence, turnTimer, ...rules } = getDefaultGameSettings();
+  return rules;
+};
+
+// What the absence policy does to a player who stayed away past the grace period.
+// Drawing for them only makes sense on their turn.
+export const getAbsenceAction = (state: GameState, absentId: string): GameAction | null => {
+  const absent = state.players.find(player => player.id === absentId);
+  if (!absent || absent.bot || absent.isEliminated) {
+    return null;
+  }
+
+  const { policy } = state.settings.absence ?? getDefaultGameSettings().absence;
+  switch (policy) {
+    case "auto_draw":
+      return state.players[state.currentPlayerIndex].id === absentId
+        ? { type: "timeout", playerId: absentId }
+        : null;
+    case "bot":
+      return { type: "take_over_seat", playerId: absentId, bot: "medium" };
+    case "forfeit":
+      return { type: "forfeit", playerId: absentId };
+  }
+};
+
+// What the current player does when their turn's time runs out
+export const getTimeoutAction = (state: GameState): GameAction => ({
+  type: "timeout",
+  playerId: state.players[state.currentPlayerIndex].id,
+  policy: (state.settings.turnTimer ?? getDefaultGameSettings().turnTimer).onExpiry,
 });
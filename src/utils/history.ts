@@ -0,0 +1,65 @@
+import { GameAction, GameEvent, GameHistory, GameState, HistoryEntry } from "../types/game";
+import { applyAction } from "./gameEngine";
+
+export const createHistory = (initialState: GameState): GameHistory => ({
+  initialState,
+  entries: [],
+});
+
+export const appendHistory = (history: GameHistory, action: GameAction, events: GameEvent[]): GameHistory => ({
+  ...history,
+  entries: [
+    ...history.entries,
+    { seq: history.entries.length + 1, action, events, at: new Date().toISOString() },
+  ],
+});
+
+// The table after each step: index 0 is the deal, index n is after the nth action
+export const replayHistory = (history: GameHistory): GameState[] => {
+  const states = [history.initialState];
+  for (const entry of history.entries) {
+    states.push(applyAction(states[states.length - 1], entry.action).state);
+  }
+  return states;
+};
+
+// How many local actions can be taken back in a row
+export const UNDO_LIMIT = 5;
+
+// Steps that happen on their own (or are taken for an absent player by the host)
+// and go along with whatever a person undoes
+const AUTOMATIC_ACTIONS: GameAction["type"][] = ["close_mau_mau_window", "timeout", "take_over_seat", "forfeit"];
+
+export const isAutomaticAction = (action: GameAction): boolean => AUTOMATIC_ACTIONS.includes(action.type);
+
+// A step can be taken back as long as it brought nothing hidden to light:
+// no cards drawn, no deck reshuffled, no face-down card turned over, no hand
+// put back under the deck
+export const isUndoable = (entry: HistoryEntry): boolean =>
+  !entry.events.some(event =>
+    event.type === "cards_drawn" ||
+    event.type === "deck_reshuffled" ||
+    event.type === "claim_challenged" ||
+    event.type === "player_forfeited"
+  );
+
+// Where the history has to be cut to take back the latest move a person made,
+// together with the bot and automatic steps after it. null if there is none
+// or something hidden has been revealed since.
+export const getUndoPoint = (history: GameHistory, isPerson: (playerId: string) => boolean): number | null => {
+  for (let index = history.entries.length - 1; index >= 0; index--) {
+    const entry = history.entries[index];
+    if (!isUndoable(entry)) {
+      return null;
+    }
+    if (isPerson(entry.action.playerId) && !isAutomaticAction(entry.action)) {
+      return index;
+    }
+  }
+  return null;
+};
+
+export const truncateHistory = (history: GameHistory, length: number): GameHistory => ({
+  ...history,
+  entries: history.entries.slice(0, length),
+});
@@ -0,0 +1,89 @@
+import { GameSettings, GameState, Match, Player, RoundResult } from "../types/game";
+import { RoundOptions, startRound } from "./gameEngine";
+
+// New match; everyone starts on the initial score
+export const createMatch = (players: Pick<Player, "id" | "name" | "bot">[], settings: GameSettings): Match => ({
+  players: players.map(({ id, name, bot }) => (bot ? { id, name, bot } : { id, name })),
+  settings,
+  rounds: [],
+  scores: Object.fromEntries(players.map(player => [player.id, settings.initialScore])),
+  winnerId: null,
+});
+
+// Players still in the match, in seat order
+export const getActivePlayers = (match: Match): Pick<Player, "id" | "name" | "score" | "bot">[] =>
+  match.players
+    .map(player => ({ ...player, score: match.scores[player.id] }))
+    .filter(player => player.score > 0);
+
+// Who starts the next round: the first seat moves one place every round,
+// skipping anyone who is out
+export const getFirstPlayerId = (match: Match): string => {
+  const seats = match.players.length;
+  for (let offset = 0; offset < seats; offset++) {
+    const seat = match.players[(match.rounds.length + offset) % seats];
+    if (match.scores[seat.id] > 0) {
+      return seat.id;
+    }
+  }
+  return match.players[0].id;
+};
+
+// Deal the next round of the match
+export const startMatchRound = (match: Match, options: RoundOptions = {}): GameState => {
+  const players = getActivePlayers(match);
+  const firstPlayerId = getFirstPlayerId(match);
+  const firstPlayer = Math.max(0, players.findIndex(player => player.id === firstPlayerId));
+
+  return startRound(players, match.settings, { ...options, firstPlayer });
+};
+
+// Add a finished round to the scoreboard and decide whether the match is over
+export const recordRound = (match: Match, state: GameState): Match => {
+  if (!state.gameEnded || !state.winner) {
+    return match;
+  }
+
+  const scores = { ...match.scores };
+  const pointsLost: Record<string, number> = {};
+  for (const player of state.players) {
+    pointsLost[player.id] = match.scores[player.id] - player.score;
+    scores[player.id] = player.score;
+  }
+
+  const round: RoundResult = {
+    round: match.rounds.length + 1,
+    winnerId: state.winner,
+    firstPlayerId: getFirstPlayerId(match),
+    pointsLost,
+    scores,
+  };
+
+  const next: Match = { ...match, rounds: [...match.rounds, round], scores };
+  return { ...next, winnerId: isMatchOver(next) ? leaderOf(next) : null };
+};
+
+export const isMatchOver = (match: Match): boolean => {
+  // Nobody left to play against
+  if (getActivePlayers(match).length < 2) {
+    return true;
+  }
+
+  const end = match.settings.matchEnd;
+  switch (end.type) {
+    case "last_standing":
+      return false;
+    case "rounds":
+      return match.rounds.length >= end.rounds;
+    case "score":
+      return Object.values(match.scores).some(score => score <= end.threshold);
+  }
+};
+
+// Highest score wins; ties go to whoever won the latest round among them
+const leaderOf = (match: Match): string => {
+  const best = Math.max(...Object.values(match.scores));
+  const leaders = match.players.filter(player => match.scores[player.id] === best);
+  const lastWinner = match.rounds[match.rounds.length - 1]?.winnerId;
+  return leaders.find(player => player.id === lastWinner)?.id ?? leaders[0].id;
+};
@@ -0,0 +1,41 @@
+import { GameEvent, GameState, PlayerView } from "../types/game";
+import { getTopCard } from "./gameUtils";
+
+// What one seat gets to see of the table. viewerId null gives the public view
+// (no hand at all), which is what spectators and room-wide broadcasts use.
+export const getPlayerView = (state: GameState, viewerId: string | null): PlayerView => {
+  const viewer = state.players.find(player => player.id === viewerId);
+  const topCard = getTopCard(state);
+
+  return {
+    viewerId: viewer ? viewer.id : null,
+    hand: viewer ? viewer.cards : [],
+    players: state.players.map(({ cards, ...player }) => ({ ...player, cardCount: cards.length })),
+    // The real id of a face-down card would give it away
+    topCard: topCard && state.claim?.cardId === topCard.id ? { ...topCard, id: "face-down" } : topCard,
+    deckCount: state.deck.length,
+    claim: state.claim && {
+      playerId: state.claim.playerId,
+      suit: state.claim.suit,
+      rank: state.claim.rank,
+      challengeable: state.claim.challengeable,
+    },
+    currentPlayerIndex: state.currentPlayerIndex,
+    direction: state.direction,
+    gameStarted: state.gameStarted,
+    gameEnded: state.gameEnded,
+    winner: state.winner,
+    lastAction: state.lastAction,
+    settings: state.settings,
+    hasDrawnThisTurn: state.hasDrawnThisTurn,
+    pendingDraw: state.pendingDraw,
+    wishedSuit: state.wishedSuit,
+    mauMauWindow: state.mauMauWindow,
+  };
+};
+
+// Events as one seat may see them: only your own draws say which cards they were
+export const getPlayerEvents = (events: GameEvent[], viewerId: string | null): GameEvent[] =>
+  events.map(event =>
+    event.type === "cards_drawn" && event.playerId !== viewerId ? { ...event, cards: [] } : event
+  );
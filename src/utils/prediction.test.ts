@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { Card, GameState, Rank, Suit } from "../types/game";
+import { applyAction, getInitialGameState } from "./gameEngine";
+import { getDefaultGameSettings } from "./gameUtils";
+import { getPlayerView } from "./playerView";
+import { PredictedMove, reconcileMoves } from "./prediction";
+
+const card = (rank: Rank, suit: Suit): Card =>
+  ({ id: `${rank}-${suit}`, rank, suit, isRed: suit === "hearts" || suit === "diamonds" });
+
+// p0 holds a play-again king and two hearts; the table shows a five of hearts
+const table = (topCard = card("5", "hearts")): GameState => ({
+  ...getInitialGameState({ ...getDefaultGameSettings(), specialCards: { K: { type: "play_again" } } }),
+  players: [
+    { id: "p0", name: "P0", cards: [card("K", "hearts"), card("6", "hearts"), card("8", "hearts")], score: 100, saidMauMau: false, isEliminated: false },
+    { id: "p1", name: "P1", cards: [card("4", "spades"), card("9", "spades")], score: 100, saidMauMau: false, isEliminated: false },
+  ],
+  deck: [card("3", "clubs"), card("3", "diamonds")],
+  discardPile: [topCard],
+  gameStarted: true,
+});
+
+const play = (cardId: string, seq: number): PredictedMove =>
+  ({ requestId: `request-${seq}`, seq, action: { type: "play", playerId: "p0", cardId } });
+
+// The table after the king, as the server would have it at version 1
+const afterKing = () => applyAction(table(), { type: "play", playerId: "p0", cardId: "K-hearts" }).state;
+
+describe("reconcileMoves", () => {
+  it("shows moves the server hasn't got to yet on top of its table", () => {
+    const moves = [play("K-hearts", 1), play("6-hearts", 2)];
+    const { view, pending, rejected } = reconcileMoves(getPlayerView(table(), "p0"), 0, moves);
+
+    expect(pending).toEqual(moves);
+    expect(rejected).toEqual([]);
+    expect(view.hand.map(held => held.id)).toEqual(["8-hearts"]);
+    expect(view.topCard?.id).toBe("6-hearts");
+  });
+
+  it("confirms a move once its card has left the hand, and replays the rest", () => {
+    const moves = [play("K-hearts", 1), play("6-hearts", 2)];
+    const { view, pending, rejected } = reconcileMoves(getPlayerView(afterKing(), "p0"), 1, moves);
+
+    expect(pending).toEqual([moves[1]]);
+    expect(rejected).toEqual([]);
+    expect(view.topCard?.id).toBe("6-hearts");
+  });
+
+  it("rejects a move the server got to but whose card is still in the hand, and everything after it", () => {
+    const moves = [play("K-hearts", 1), play("6-hearts", 2)];
+    const { view, pending, rejected } = reconcileMoves(getPlayerView(table(), "p0"), 1, moves);
+
+    expect(pending).toEqual([]);
+    expect(rejected).toEqual(moves);
+    expect(view).toEqual(getPlayerView(table(), "p0"));
+  });
+
+  it("rejects a move that no longer fits the server's table, and everything after it", () => {
+    const moves = [play("K-hearts", 1), play("6-hearts", 2)];
+    const serverTable = table(card("2", "clubs"));
+    const { view, pending, rejected } = reconcileMoves(getPlayerView(serverTable, "p0"), 0, moves);
+
+    expect(pending).toEqual([]);
+    expect(rejected).toEqual(moves);
+    expect(view).toEqual(getPlayerView(serverTable, "p0"));
+  });
+});
@@ -0,0 +1,84 @@
+import { Card, GameAction, GameState, PlayerView } from "../types/game";
+import { applyAction } from "./gameEngine";
+import { getPlayerView } from "./playerView";
+
+// A card leaving the viewer's hand, shown on the table before the server confirms it
+export interface PredictedMove {
+  requestId: string;
+  seq: number; // Game version the move should create
+  action: Extract<GameAction, { type: "play" | "bluff" }>;
+}
+
+// Stands in for a card the viewer can't see
+const hiddenCard = (id: string): Card => ({ id, suit: "joker", rank: "joker", isRed: false });
+
+// The table rebuilt from one seat's view. Other hands and the deck are stand-ins
+// of the right size, which is all the engine needs to play a card from our hand.
+const getTableFromView = (view: PlayerView): GameState => ({
+  players: view.players.map(({ cardCount, ...player }) => ({
+    ...player,
+    cards: player.id === view.viewerId
+      ? view.hand
+      : Array.from({ length: cardCount }, (_, index) => hiddenCard(`hidden-${player.id}-${index}`)),
+  })),
+  currentPlayerIndex: view.currentPlayerIndex,
+  deck: Array.from({ length: view.deckCount }, (_, index) => hiddenCard(`hidden-deck-${index}`)),
+  discardPile: view.topCard ? [view.topCard] : [],
+  direction: view.direction,
+  gameStarted: view.gameStarted,
+  gameEnded: view.gameEnded,
+  winner: view.winner,
+  lastAction: view.lastAction,
+  settings: view.settings,
+  hasDrawnThisTurn: view.hasDrawnThisTurn,
+  pendingDraw: view.pendingDraw,
+  wishedSuit: view.wishedSuit,
+  claim: view.claim && view.topCard ? { ...view.claim, cardId: view.topCard.id } : null,
+  mauMauWindow: view.mauMauWindow,
+  seed: 0,
+  rngState: 0,
+});
+
+// The view after one of the viewer's own moves, or null if the engine refuses it or
+// the outcome depends on cards we can't see (a draw, a reshuffle, the end of the round)
+export const predictMove = (view: PlayerView, action: GameAction): PlayerView | null => {
+  try {
+    const { state, events } = applyAction(getTableFromView(view), action);
+    const revealsCards = events.some(event =>
+      event.type === "deck_reshuffled" || (event.type === "cards_drawn" && event.playerId === view.viewerId)
+    );
+    return revealsCards || state.gameEnded ? null : getPlayerView(state, view.viewerId);
+  } catch {
+    return null;
+  }
+};
+
+// Settle predicted moves against the server's table at version seq. A move the server
+// has got to is confirmed once its card left our hand, and rejected if the card is still
+// there; later moves are replayed on top. A move that no longer fits is rejected along
+// with everything after it, since each one was made on the table the previous one left.
+export const reconcileMoves = (
+  view: PlayerView,
+  seq: number,
+  moves: PredictedMove[]
+): { view: PlayerView; pending: PredictedMove[]; rejected: PredictedMove[] } => {
+  let shown = view;
+  const pending: PredictedMove[] = [];
+
+  for (const [index, move] of moves.entries()) {
+    if (move.seq <= seq) {
+      if (view.hand.some(card => card.id === move.action.cardId)) {
+        return { view: shown, pending, rejected: moves.slice(index) };
+      }
+      continue;
+    }
+
+    const next = predictMove(shown, move.action);
+    if (!next) {
+      return { view: shown, pending, rejected: moves.slice(index) };
+    }
+    shown = next;
+    pending.push(move);
+  }
+  return { view: shown, pending, rejected: [] };
+};
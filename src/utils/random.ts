@@ -0,0 +1,31 @@
+// Source of uniformly distributed numbers in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+export interface SeededRandom {
+  random: RandomSource;
+  getState: () => number;
+}
+
+// Fresh 32-bit seed for a new round; the only place games touch Math.random
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+// Mulberry32: small, fast and fully described by one 32-bit integer,
+// so the generator can be stored on GameState and resumed later.
+export const seededRandom = (seed: number): SeededRandom => {
+  let state = seed >>> 0;
+
+  return {
+    random: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    },
+    getState: () => state,
+  };
+};
+
+// Random integer in [0, max)
+export const randomInt = (max: number, random: RandomSource = Math.random): number =>
+  Math.floor(random() * max);
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { GameState } from "../types/game";
+import { getInitialGameState } from "./gameEngine";
+import { getDefaultGameSettings } from "./gameUtils";
+import { advanceTurnClock, getTurnClockView, getTurnDeadline, restartTurnClock, startTurnClock } from "./turnClock";
+
+// 30 seconds a turn and a 60-second bank each
+const table = (currentPlayerIndex = 0, seconds = 30): GameState => ({
+  ...getInitialGameState({ ...getDefaultGameSettings(), turnTimer: { seconds, bankSeconds: 60, onExpiry: "draw" } }),
+  players: ["p0", "p1"].map(id => ({ id, name: id, cards: [], score: 100, saidMauMau: false, isEliminated: false })),
+  currentPlayerIndex,
+  gameStarted: true,
+});
+
+describe("turn clock", () => {
+  it("starts with a full bank for everyone, and not at all without a time limit", () => {
+    expect(startTurnClock(table(), 1000)).toEqual({ playerId: "p0", turnEndsAt: 31_000, banks: { p0: 60_000, p1: 60_000 } });
+    expect(startTurnClock(table(0, 0), 1000)).toBeNull();
+  });
+
+  it("leaves the bank alone for a turn played in time", () => {
+    const clock = startTurnClock(table(), 0)!;
+    const next = restartTurnClock(clock, table(1), 20_000)!;
+    expect(next).toEqual({ playerId: "p1", turnEndsAt: 50_000, banks: { p0: 60_000, p1: 60_000 } });
+  });
+
+  it("charges the player for bank time used past the turn", () => {
+    const clock = startTurnClock(table(), 0)!;
+    expect(getTurnDeadline(clock)).toBe(90_000);
+
+    const next = restartTurnClock(clock, table(1), 45_000)!;
+    expect(next.banks).toEqual({ p0: 45_000, p1: 60_000 });
+  });
+
+  it("never charges more than the bank holds", () => {
+    const clock = startTurnClock(table(), 0)!;
+    expect(restartTurnClock(clock, table(1), 200_000)!.banks.p0).toBe(0);
+  });
+
+  it("shows the bank running down once the turn's own time is over", () => {
+    const clock = startTurnClock(table(), 0)!;
+    expect(getTurnClockView(clock, 40_000)).toEqual({ playerId: "p0", turnMs: 0, banks: { p0: 50_000, p1: 60_000 } });
+  });
+
+  it("keeps running through moves within a turn and restarts when the same player goes again", () => {
+    const clock = startTurnClock(table(), 0)!;
+    expect(advanceTurnClock(clock, table(), table(), [], 10_000)).toBe(clock);
+
+    const again = advanceTurnClock(clock, table(), table(), [{ type: "extra_turn", playerId: "p0" }], 40_000)!;
+    expect(again).toEqual({ playerId: "p0", turnEndsAt: 70_000, banks: { p0: 50_000, p1: 60_000 } });
+  });
+
+  it("stops when the round is over", () => {
+    const clock = startTurnClock(table(), 0)!;
+    expect(advanceTurnClock(clock, table(), { ...table(1), gameEnded: true }, [], 10_000)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { GameEvent, GameState, TurnClock, TurnClockView } from "../types/game";
+import { getDefaultGameSettings } from "./gameUtils";
+
+// Start the clock for whoever is on turn. A round's first clock gives everyone
+// a full time bank; there is none without a time limit or a round in play.
+export const startTurnClock = (state: GameState, now: number, banks?: Record<string, number>): TurnClock | null => {
+  const { seconds, bankSeconds } = state.settings.turnTimer ?? getDefaultGameSettings().turnTimer;
+  if (!seconds || !state.gameStarted || state.gameEnded) {
+    return null;
+  }
+
+  return {
+    playerId: state.players[state.currentPlayerIndex].id,
+    turnEndsAt: now + seconds * 1000,
+    banks: banks ?? Object.fromEntries(state.players.map(player => [player.id, bankSeconds * 1000])),
+  };
+};
+
+// Bank time the current player has used up to now
+const getBankUsed = (clock: TurnClock, now: number): number =>
+  Math.min(Math.max(0, now - clock.turnEndsAt), clock.banks[clock.playerId] ?? 0);
+
+// Start the turn of whoever is on turn now, charging the player whose turn it
+// was for the bank time they used
+export const restartTurnClock = (clock: TurnClock, state: GameState, now: number): TurnClock | null =>
+  startTurnClock(state, now, {
+    ...clock.banks,
+    [clock.playerId]: (clock.banks[clock.playerId] ?? 0) - getBankUsed(clock, now),
+  });
+
+// Events that end the turn of whoever was on it. With two players a skip or a
+// pass can hand the turn straight back, so the seat index alone misses those.
+const TURN_ENDING_EVENTS: GameEvent["type"][] = [
+  "card_played",
+  "card_bluffed",
+  "player_skipped",
+  "turn_passed",
+  "turn_timed_out",
+  "extra_turn",
+];
+
+// The clock after a move: moves within a turn (a draw, a Mau Mau call) leave it
+// running, and a new turn, or the same player going again, restarts it
+export const advanceTurnClock = (
+  clock: TurnClock | null,
+  previous: GameState,
+  next: GameState,
+  events: GameEvent[],
+  now: number
+): TurnClock | null => {
+  if (!clock || next.gameEnded) {
+    return null;
+  }
+  const newTurn = next.currentPlayerIndex !== previous.currentPlayerIndex ||
+    events.some(event => TURN_ENDING_EVENTS.includes(event.type));
+  return newTurn ? restartTurnClock(clock, next, now) : clock;
+};
+
+// When the turn is over for good: its own time, then the player's bank
+export const getTurnDeadline = (clock: TurnClock): number =>
+  clock.turnEndsAt + (clock.banks[clock.playerId] ?? 0);
+
+export const getTurnClockView = (clock: TurnClock | null, now: number): TurnClockView | null =>
+  clock && {
+    playerId: clock.playerId,
+    turnMs: Math.max(0, clock.turnEndsAt - now),
+    banks: { ...clock.banks, [clock.playerId]: (clock.banks[clock.playerId] ?? 0) - getBankUsed(clock, now) },
+  };
+
+// A clock received from the server, in this device's time
+export const fromTurnClockView = (view: TurnClockView | null, now: number): TurnClock | null =>
+  view && {
+    playerId: view.playerId,
+    turnEndsAt: now + view.turnMs,
+    banks: view.banks,
+  };
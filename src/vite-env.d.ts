@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // What the app plays online through: supabase (the default), websocket or memory
+  readonly VITE_GAME_BACKEND?: 'supabase' | 'websocket' | 'memory';
+  // WebSocket URL of the game server (see `npm run server`), for the websocket backend
+  readonly VITE_GAME_SERVER_URL?: string;
+}
@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { parseClientMessage } from '@/services/websocket/protocol';
+import { SupabaseGameServer } from '@/services/websocket/SupabaseGameServer';
+
+// Provided by the edge runtime
+declare const Deno: {
+  serve(handler: (request: Request) => Response | Promise<Response>): void;
+  env: { get(name: string): string | undefined };
+};
+
+// The app calls this straight from the browser
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const respond = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+// The service role reads and writes the game tables, which players can't
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const db = createClient<Database>(Deno.env.get('SUPABASE_URL')!, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+// Apply the timeout policy in every room whose turn ran out. The room's host is
+// recorded as making the move, as when their browser reported the timeout.
+const expireOverdueTurns = async (): Promise<number> => {
+  const { data: overdue, error } = await db.rpc('overdue_turns');
+  if (error) throw error;
+
+  for (const { room_code, host_id } of overdue ?? []) {
+    try {
+      await new SupabaseGameServer(db, host_id).expireTurn(room_code);
+    } catch (error) {
+      // Someone moved in the meantime; the next run looks again
+      console.error('Error expiring turn in room', room_code, error);
+    }
+  }
+  return overdue?.length ?? 0;
+};
+
+// Takes one client message, as the socket server would, and answers with
+// { replies } for the sender or { message } saying why it was refused
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  try {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+
+    // The database's expiry job (see the turn_expiry migration)
+    if (token === SERVICE_ROLE_KEY) {
+      return respond({ expired: await expireOverdueTurns() });
+    }
+
+    const { data: auth } = await db.auth.getUser(token);
+    if (!auth?.user) {
+      return respond({ message: 'Usuário não está autenticado.' }, 401);
+    }
+
+    const message = parseClientMessage(await request.json());
+    const replies = await new SupabaseGameServer(db, auth.user.id).handle(message);
+    return respond({ replies });
+  } catch (error) {
+    console.error('Error in game function:', error);
+    // Database errors are plain objects with a message too
+    const reason = (error as { message?: string })?.message;
+    return respond({ message: reason || 'Ocorreu um erro ao processar sua solicitação.' }, 400);
+  }
+});
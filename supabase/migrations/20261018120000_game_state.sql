@@ -0,0 +1,9 @@
+-- Public (non-card) game state for online rooms.
+-- Cards live in the cards table; everything else the rules need between
+-- moves (direction, flags, settings, player names) is kept here.
+alter table public.games
+  add column if not exists state jsonb;
+
+create index if not exists cards_game_id_idx on public.cards (game_id);
+create index if not exists moves_game_id_idx on public.moves (game_id);
+create index if not exists players_game_game_id_idx on public.players_game (game_id);
@@ -0,0 +1,5 @@
+-- Optimistic locking for online games.
+-- Every saved move bumps the version; a move computed from an older state
+-- (e.g. the second of two simultaneous "Catch!" calls) updates no rows and is rejected.
+alter table public.games
+  add column if not exists version integer not null default 0;
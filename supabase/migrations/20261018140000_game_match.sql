@@ -0,0 +1,4 @@
+-- Multi-round matches: the scoreboard travels with each round's game row.
+-- A new round copies the previous game's match as long as it isn't over.
+alter table public.games
+  add column if not exists match jsonb;
@@ -0,0 +1,8 @@
+-- Computer opponents for online rooms.
+-- Bot seats live on the room (id, name, difficulty) rather than in users,
+-- so cards held by a bot can no longer point at a user row.
+alter table public.rooms
+  add column if not exists bots jsonb not null default '[]'::jsonb;
+
+alter table public.cards
+  drop constraint if exists cards_owner_id_fkey;
@@ -0,0 +1,12 @@
+-- Replayable history for online games.
+-- The full deal is kept on the game; every move stores the engine action and the
+-- events it produced, numbered by the game version it created.
+alter table public.games
+  add column if not exists initial_state jsonb;
+
+alter table public.moves
+  add column if not exists seq integer,
+  add column if not exists action jsonb,
+  add column if not exists events jsonb;
+
+create unique index if not exists moves_game_id_seq_idx on public.moves (game_id, seq);
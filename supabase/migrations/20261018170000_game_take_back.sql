@@ -0,0 +1,5 @@
+-- Take-backs for online games.
+-- After a move that revealed nothing hidden, its player may ask to undo it;
+-- the request and its approvals live on the game until the next move.
+alter table public.games
+  add column if not exists take_back jsonb;
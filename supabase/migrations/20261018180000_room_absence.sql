@@ -0,0 +1,5 @@
+-- What to do with a player who drops out of an online game.
+-- Chosen by the host before the deal: { policy: 'auto_draw' | 'bot' | 'forfeit', graceSeconds }.
+-- Null means the default (draw for them after 30 seconds).
+alter table public.rooms
+  add column if not exists absence jsonb;
@@ -0,0 +1,5 @@
+-- Clients follow one room at a time through filtered realtime channels.
+-- Deletes can't be filtered by the server, so the old row has to carry
+-- room_id (and the room's code) for clients to tell whether it is theirs.
+alter table public.rooms replica identity full;
+alter table public.room_players replica identity full;
@@ -0,0 +1,10 @@
+-- How long each turn may take, chosen by the host before the deal:
+-- { seconds, bankSeconds, onExpiry: 'draw' | 'pass' | 'play_first' }, seconds 0 meaning no limit.
+-- Null means the default (30 seconds, no bank, draw a card).
+alter table public.rooms
+  add column if not exists turn_timer jsonb;
+
+-- The running turn's clock: { playerId, turnEndsAt, banks }, times in epoch milliseconds.
+-- Null when turns are not timed or the round is over.
+alter table public.games
+  add column if not exists turn_clock jsonb;
@@ -0,0 +1,24 @@
+-- Games are played by the game edge function, which reads and writes these tables
+-- with the service role. Players may only read their own cards: the deck, the other
+-- hands, face-down cards, the state (with its seed) and the deal stay hidden.
+
+-- Whatever policies cards had so far let too much through
+do $$
+declare
+  existing record;
+begin
+  for existing in select policyname from pg_policies where schemaname = 'public' and tablename = 'cards' loop
+    execute format('drop policy %I on public.cards', existing.policyname);
+  end loop;
+end $$;
+
+alter table public.cards enable row level security;
+revoke insert, update, delete on public.cards from anon, authenticated;
+create policy "Players read their own cards" on public.cards
+  for select to authenticated
+  using (owner_id = auth.uid());
+
+-- state, initial_state and the moves (which name the cards drawn) go through the function
+revoke all on public.games from anon, authenticated;
+revoke all on public.moves from anon, authenticated;
+revoke insert, update, delete on public.players_game from anon, authenticated;
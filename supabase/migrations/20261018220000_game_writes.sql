@@ -0,0 +1,97 @@
+-- A game is written in one transaction: the game row, the cards that moved, the
+-- seats and the move, or none of it. Only the game edge function calls these.
+
+-- A new deal: the game with its initial state, every card, the people's seats and the deal move
+create or replace function public.deal_game(
+  p_game jsonb,
+  p_cards jsonb,
+  p_seats jsonb,
+  p_move jsonb
+) returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  insert into games (id, room_id, started_by, state, initial_state, match, turn_clock)
+  select id, room_id, started_by, state, initial_state, match, turn_clock
+  from jsonb_populate_record(null::games, p_game);
+
+  insert into players_game (game_id, room_id, user_id, position, score, is_turn)
+  select game_id, room_id, user_id, position, score, is_turn
+  from jsonb_populate_recordset(null::players_game, p_seats);
+
+  insert into cards (id, game_id, suit, value, owner_id, is_on_table, position)
+  select id, game_id, suit, value, owner_id, is_on_table, position
+  from jsonb_populate_recordset(null::cards, p_cards);
+
+  insert into moves (game_id, user_id, seq, move_type, card_id, action, events)
+  select game_id, user_id, seq, move_type, card_id, action, events
+  from jsonb_populate_record(null::moves, p_move);
+end;
+$$;
+
+-- A new state for a game at p_version. If anyone saved since, nothing is written.
+-- p_move is the move to record, p_drop_move_seq the one a take-back undid.
+create or replace function public.save_game_state(
+  p_game_id uuid,
+  p_version integer,
+  p_state jsonb,
+  p_match jsonb,
+  p_take_back jsonb,
+  p_turn_clock jsonb,
+  p_finished boolean,
+  p_cards jsonb,
+  p_seats jsonb,
+  p_move jsonb default null,
+  p_drop_move_seq integer default null
+) returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  update games set
+    state = p_state,
+    match = p_match,
+    take_back = p_take_back,
+    turn_clock = p_turn_clock,
+    version = p_version + 1,
+    finished_at = case when p_finished then now() end
+  where id = p_game_id and version = p_version;
+
+  if not found then
+    raise exception 'Outra jogada foi registrada antes da sua. Tente novamente.';
+  end if;
+
+  insert into cards (id, game_id, suit, value, owner_id, is_on_table, position)
+  select id, game_id, suit, value, owner_id, is_on_table, position
+  from jsonb_populate_recordset(null::cards, p_cards)
+  on conflict (id) do update set
+    owner_id = excluded.owner_id,
+    is_on_table = excluded.is_on_table,
+    position = excluded.position;
+
+  update players_game seat set
+    position = changed.position,
+    score = changed.score,
+    is_turn = changed.is_turn
+  from jsonb_populate_recordset(null::players_game, p_seats) changed
+  where seat.id = changed.id;
+
+  if p_drop_move_seq is not null then
+    delete from moves where game_id = p_game_id and seq = p_drop_move_seq;
+  end if;
+
+  if p_move is not null then
+    insert into moves (game_id, user_id, seq, move_type, card_id, action, events)
+    select game_id, user_id, seq, move_type, card_id, action, events
+    from jsonb_populate_record(null::moves, p_move);
+  end if;
+end;
+$$;
+
+revoke execute on function public.deal_game(jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.save_game_state(uuid, integer, jsonb, jsonb, jsonb, jsonb, boolean, jsonb, jsonb, jsonb, integer)
+  from public, anon, authenticated;
+grant execute on function public.deal_game(jsonb, jsonb, jsonb, jsonb) to service_role;
+grant execute on function public.save_game_state(uuid, integer, jsonb, jsonb, jsonb, jsonb, boolean, jsonb, jsonb, jsonb, integer)
+  to service_role;
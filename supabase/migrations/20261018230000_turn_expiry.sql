@@ -0,0 +1,61 @@
+-- Turn deadlines are kept and checked against the database's clock, and turns that
+-- ran out are expired from here rather than by whichever browser notices first.
+
+-- The time the game function stamps clocks with, in epoch milliseconds
+create or replace function public.clock_now() returns bigint
+language sql
+stable
+as $$
+  select (extract(epoch from now()) * 1000)::bigint;
+$$;
+
+-- Rooms whose current game has a turn past its deadline: the turn's own time plus
+-- the bank of the player on turn (see games.turn_clock)
+create or replace function public.overdue_turns()
+returns table (room_code text, host_id uuid)
+language sql
+stable
+set search_path = public
+as $$
+  select rooms.code, rooms.host_id
+  from rooms
+  join lateral (
+    select games.finished_at, games.turn_clock
+    from games
+    where games.room_id = rooms.id
+    order by games.created_at desc
+    limit 1
+  ) current_game on true
+  where current_game.finished_at is null
+    and current_game.turn_clock is not null
+    and (current_game.turn_clock->>'turnEndsAt')::bigint
+      + coalesce((current_game.turn_clock->'banks'->>(current_game.turn_clock->>'playerId'))::bigint, 0)
+      <= public.clock_now();
+$$;
+
+revoke execute on function public.clock_now() from public, anon, authenticated;
+revoke execute on function public.overdue_turns() from public, anon, authenticated;
+grant execute on function public.clock_now() to service_role;
+grant execute on function public.overdue_turns() to service_role;
+
+-- Every few seconds, if a turn ran out, the game function applies the room's timeout
+-- policy. It needs the project URL and service role key in the vault, as
+-- 'project_url' and 'service_role_key'.
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+select cron.schedule(
+  'expire-overdue-turns',
+  '5 seconds',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/game',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  where exists (select 1 from public.overdue_turns());
+  $$
+);
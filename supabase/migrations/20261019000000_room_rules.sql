@@ -0,0 +1,4 @@
+-- The rules the host picked for the room's games: { specialCards }, as in GameSettings.
+-- Null, or a missing key, means the default.
+alter table public.rooms
+  add column if not exists rules jsonb;
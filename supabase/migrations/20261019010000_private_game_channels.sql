@@ -0,0 +1,17 @@
+-- Game tables go out on private game:<room code> channels. Only people seated in
+-- the room may listen; nobody but the game function, which sends as the service
+-- role and so skips these policies, may send.
+create policy "Room players receive game broadcasts"
+on realtime.messages
+for select
+to authenticated
+using (
+  realtime.messages.extension = 'broadcast'
+  and exists (
+    select 1
+    from public.room_players
+    join public.rooms on rooms.id = room_players.room_id
+    where room_players.user_id = auth.uid()
+      and realtime.topic() = 'game:' || rooms.code
+  )
+);
@@ -0,0 +1,32 @@
+-- The deal also marks the room started, in the same transaction, so the room never
+-- shows as started without a game nor the other way round.
+create or replace function public.deal_game(
+  p_game jsonb,
+  p_cards jsonb,
+  p_seats jsonb,
+  p_move jsonb
+) returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  insert into games (id, room_id, started_by, state, initial_state, match, turn_clock)
+  select id, room_id, started_by, state, initial_state, match, turn_clock
+  from jsonb_populate_record(null::games, p_game);
+
+  insert into players_game (game_id, room_id, user_id, position, score, is_turn)
+  select game_id, room_id, user_id, position, score, is_turn
+  from jsonb_populate_recordset(null::players_game, p_seats);
+
+  insert into cards (id, game_id, suit, value, owner_id, is_on_table, position)
+  select id, game_id, suit, value, owner_id, is_on_table, position
+  from jsonb_populate_recordset(null::cards, p_cards);
+
+  insert into moves (game_id, user_id, seq, move_type, card_id, action, events)
+  select game_id, user_id, seq, move_type, card_id, action, events
+  from jsonb_populate_record(null::moves, p_move);
+
+  update rooms set started_at = now()
+  where id = (p_game->>'room_id')::uuid;
+end;
+$$;
@@ -129,6 +129,19 @@ export default {
                     '50%': {
                         opacity: '0.6',
                     }
+                },
+                'card-return': {
+                    '0%': {
+                        transform: 'translateY(-48px) rotate(-6deg)',
+                        opacity: '0.4',
+                    },
+                    '60%': {
+                        transform: 'translateY(6px) rotate(2deg)',
+                        opacity: '1',
+                    },
+                    '100%': {
+                        transform: 'translateY(0) rotate(0)',
+                    }
                 }
 			},
 			animation: {
@@ -137,7 +150,8 @@ export default {
 				'card-flip': 'card-flip 0.3s ease-out forwards',
 				'card-slide': 'card-slide 0.3s ease-out forwards',
                 'fade-in': 'fade-in 0.3s ease-out',
-                'pulse': 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite'
+                'pulse': 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+                'card-return': 'card-return 0.6s ease-out'
 			},
             backgroundImage: {
                 'gradient-game': 'linear-gradient(135deg, #1e1f2e 0%, #2c2d43 100%)',